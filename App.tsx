@@ -1,160 +1,196 @@
-import React, { useState } from 'react';
+import React, { useState, useCallback } from 'react';
 import Wizard from './components/Wizard';
-import DiagramView from './components/DiagramView';
-import { DiagramType, LayoutStyle, DiagramNode, DiagramEdge } from './types';
-import { generateDiagram } from './services/gemini';
+import DiagramView, { Notice, SaveState } from './components/DiagramView';
+import Library from './components/Library';
+import StreamingCanvas from './components/StreamingCanvas';
+import { DiagramType, LayoutStyle, DiagramNode, DiagramEdge, GeneratedResponse, ChatMessage } from './types';
+import { getProviderLabel } from './services/providers';
+import { findPreset, getActivePreset, PromptPreset, setActivePreset } from './services/prompts';
+import { useStreamingGeneration } from './hooks/useStreamingGeneration';
+import { createDiagram, getDiagram, saveDiagram, titleFromPrompt } from './services/storage';
 import { applyLayout } from './utils/layout';
-import { MarkerType } from 'reactflow';
+import { toFlowGraph } from './utils/graph';
+import { parseDiagramFile, toImportedGraph } from './utils/importers';
+import { SourceDocument } from './utils/documents';
+import { buildFromStructuredData } from './utils/generators';
 
 function App() {
   const [view, setView] = useState<'wizard' | 'diagram'>('wizard');
   const [loading, setLoading] = useState(false);
-  const [diagramData, setDiagramData] = useState<{ nodes: DiagramNode[]; edges: DiagramEdge[]; type: DiagramType } | null>(null);
-
-  const getNodeStyle = (type: string | undefined, diagramType: DiagramType) => {
-    const baseStyle = {
-        background: '#fff',
-        border: '1px solid #cbd5e1', // Slate-300
-        borderRadius: '8px',
-        padding: '10px 14px',
-        boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.05), 0 2px 4px -1px rgba(0, 0, 0, 0.03)',
-        minWidth: '120px',
-        fontSize: '13px',
-        color: '#1e293b',
-        textAlign: 'center' as const,
-        fontFamily: "'Inter', sans-serif"
-    };
-
-    if (diagramType === DiagramType.FLOWCHART) {
-        if (type?.toLowerCase().includes('decision')) {
-            return {
-                ...baseStyle,
-                background: '#fff0f0',
-                border: '2px solid #e53e3e',
-                borderRadius: '4px', 
-                transform: 'rotate(0deg)', 
-                fontWeight: '600',
-                clipPath: 'polygon(50% 0%, 100% 50%, 50% 100%, 0% 50%)', 
-                padding: '24px 12px', 
-                width: '140px',
-                height: '90px',
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
-                boxShadow: 'none'
-            };
-        }
-        if (type?.toLowerCase().includes('start') || type?.toLowerCase().includes('end')) {
-            return { ...baseStyle, borderRadius: '25px', background: '#f0fff4', border: '2px solid #38a169', fontWeight: '600' };
-        }
-        return { ...baseStyle, borderRadius: '4px', border: '1px solid #3b82f6' };
-    }
+  const [diagramData, setDiagramData] = useState<{
+    id: string | null; // null when the library is unavailable and nothing is persisted
+    title: string;
+    nodes: DiagramNode[];
+    edges: DiagramEdge[];
+    type: DiagramType;
+    layout: LayoutStyle;
+    chat?: ChatMessage[];
+    notice?: Notice; // Shown once on open, e.g. repairs made to the AI response
+  } | null>(null);
+  const [saveState, setSaveState] = useState<SaveState>('idle');
+  const [streamingType, setStreamingType] = useState<DiagramType | null>(null);
+  const { preview, start: startStreaming, cancel: cancelStreaming } = useStreamingGeneration();
 
-    if (diagramType === DiagramType.ERD) {
-        return {
-            ...baseStyle,
-            borderRadius: '0px',
-            border: '1px solid #475569',
-            borderTop: '4px solid #475569',
-            background: '#f8fafc',
-            boxShadow: '4px 4px 0px rgba(0,0,0,0.1)',
-            textAlign: 'left' as const,
-            padding: '12px'
-        };
+  // Persist straight away so the diagram survives "New" and page reloads, then open it
+  const openNewDiagram = async (input: {
+    title: string;
+    type: DiagramType;
+    prompt: string;
+    layout: LayoutStyle;
+    nodes: DiagramNode[];
+    edges: DiagramEdge[];
+  }, notice?: Notice) => {
+    let id: string | null = null;
+    try {
+      // AI operations on the diagram keep using the preset it was created with
+      const saved = await createDiagram({ ...input, presetId: getActivePreset().id });
+      id = saved.id;
+      setSaveState('saved');
+    } catch (err) {
+      console.error("Save Error:", err);
+      setSaveState('error');
     }
 
-    // Mindmap Styling (Transparent for branches, Root override handles itself later)
-    if (diagramType === DiagramType.MINDMAP || diagramType === DiagramType.ORG_CHART) {
-        return {
-            ...baseStyle,
-            background: 'transparent',
-            border: 'none',
-            borderRadius: '0',
-            boxShadow: 'none',
-            padding: '8px', // Minimal padding to allow selection but minimize clutter
-            fontWeight: '500',
-            minWidth: 'auto', // Let text define width
-        };
-    }
+    setDiagramData({ id, title: input.title, nodes: input.nodes, edges: input.edges, type: input.type, layout: input.layout, notice });
+    setView('diagram');
+  };
+
+  // Shared by AI generation and the deterministic generators
+  const openGeneratedDiagram = async (
+    structure: GeneratedResponse,
+    input: { title: string; type: DiagramType; prompt: string; layout: LayoutStyle },
+    notice?: Notice
+  ) => {
+    const { nodes, edges } = toFlowGraph(structure, input.type);
 
-    return baseStyle;
+    // Apply Layout & Coloring
+    const layoutedData = applyLayout(nodes, edges, input.layout, input.type);
+
+    await openNewDiagram({ ...input, nodes: layoutedData.nodes, edges: layoutedData.edges }, notice);
   };
 
-  const handleWizardSubmit = async (type: DiagramType, description: string, layout: LayoutStyle, additionalData: string) => {
+  const handleWizardSubmit = async (type: DiagramType, description: string, layout: LayoutStyle, additionalData: string, documents: SourceDocument[], preset: PromptPreset) => {
+    setActivePreset(preset);
     setLoading(true);
+    setStreamingType(type);
     try {
-      const rawData = await generateDiagram(type, description, layout, additionalData);
-      
-      // Determine Edge Type: 'default' (Bezier) for Mindmaps for organic look, 'smoothstep' for technical diagrams
-      const edgeType = (type === DiagramType.MINDMAP || type === DiagramType.ORG_CHART) 
-          ? 'default' 
-          : 'smoothstep';
-
-      // Transform API response to React Flow format
-      const nodes: DiagramNode[] = rawData.nodes.map(n => ({
-        id: n.id,
-        type: 'default', 
-        position: { x: 0, y: 0 }, 
-        data: { label: n.label, details: n.details, type: n.type },
-        style: getNodeStyle(n.type, type)
-      }));
-
-      // Special styling for Root node in Mindmaps (Add Box Back)
-      if (type === DiagramType.MINDMAP && nodes.length > 0) {
-        nodes[0].style = {
-            ...nodes[0].style,
-            backgroundColor: '#fff',
-            border: '2px solid #3b82f6',
-            borderRadius: '30px',
-            boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-            fontSize: '15px',
-            fontWeight: '700',
-            padding: '16px 32px'
-        };
-      }
+      const rawData = await startStreaming(type, description, layout, additionalData, documents);
+      // Cancelled before anything arrived: back to the wizard
+      if (!rawData) return;
 
-      const edges: DiagramEdge[] = rawData.edges.map((e, idx) => ({
-        id: `e${idx}`,
-        source: e.source,
-        target: e.target,
-        label: e.label,
-        type: edgeType, 
-        markerEnd: {
-            type: MarkerType.ArrowClosed,
-        },
-        animated: false,
-        style: { strokeWidth: 2 } 
-      }));
-
-      // Apply Layout & Coloring
-      const layoutedData = applyLayout(nodes, edges, layout, type);
-
-      setDiagramData({
-        nodes: layoutedData.nodes,
-        edges: layoutedData.edges,
-        type
-      });
-      setView('diagram');
+      await openGeneratedDiagram(rawData, { title: titleFromPrompt(description), type, prompt: description, layout }, { heading: 'Notes on the generated diagram', messages: rawData.warnings });
     } catch (error: any) {
       const msg = error instanceof Error ? error.message : String(error);
       alert(`Failed to generate diagram: ${msg}`);
       console.error("App Error:", error);
     } finally {
       setLoading(false);
+      setStreamingType(null);
+    }
+  };
+
+  const handleBuildFromData = async (file: File) => {
+    try {
+      const built = buildFromStructuredData(file.name, await file.text());
+      await openGeneratedDiagram(built.structure, {
+        title: built.title,
+        type: built.type,
+        prompt: `Built from ${file.name}`,
+        layout: LayoutStyle.TREE
+      }, { heading: `Notes on ${file.name}`, messages: built.warnings });
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`Failed to build diagram: ${msg}`);
+      console.error("Build Error:", error);
+    }
+  };
+
+  const handleImport = async (file: File, typeOverride: DiagramType | null) => {
+    try {
+      const pages = (await parseDiagramFile(file.name, await file.text())).map(imported => {
+        // Outlines are trees, so default them to Mindmaps; positioned graphs default to Flowcharts
+        const type = typeOverride || imported.type || (imported.structure ? DiagramType.MINDMAP : DiagramType.FLOWCHART);
+        const layout = LayoutStyle.TREE;
+        const { graph, needsLayout } = toImportedGraph(imported, type);
+        const { nodes, edges } = needsLayout ? applyLayout(graph.nodes, graph.edges, layout, type) : graph;
+        return { title: imported.title, type, prompt: `Imported from ${file.name}`, layout, nodes, edges };
+      });
+
+      // Multi-page draw.io files: every page after the first goes straight to the library
+      const [first, ...rest] = pages;
+      for (const page of rest) {
+        await createDiagram({ ...page, presetId: getActivePreset().id });
+      }
+      await openNewDiagram(first, rest.length > 0 ? {
+        heading: `Imported ${pages.length} pages`,
+        messages: [`${rest.length} more ${rest.length === 1 ? 'page was' : 'pages were'} saved to the library: ${rest.map(p => p.title).join(', ')}.`]
+      } : undefined);
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`Failed to import diagram: ${msg}`);
+      console.error("Import Error:", error);
     }
   };
 
+  const handleOpenDiagram = async (id: string) => {
+    try {
+      const saved = await getDiagram(id);
+      if (!saved) throw new Error("Diagram no longer exists.");
+      setActivePreset(await findPreset(saved.presetId));
+      setDiagramData({ id: saved.id, title: saved.title, nodes: saved.nodes, edges: saved.edges, type: saved.type, layout: saved.layout, chat: saved.chat });
+      setSaveState('saved');
+      setView('diagram');
+    } catch (error) {
+      const msg = error instanceof Error ? error.message : String(error);
+      alert(`Failed to open diagram: ${msg}`);
+    }
+  };
+
+  const diagramId = diagramData?.id;
+
+  // Autosave, called by DiagramView (debounced) whenever nodes, edges, the layout or the chat change
+  const handleDiagramChange = useCallback(async (nodes: DiagramNode[], edges: DiagramEdge[], layout: LayoutStyle, chat: ChatMessage[]) => {
+    if (!diagramId) return;
+    setSaveState('saving');
+    try {
+      await saveDiagram(diagramId, { nodes, edges, layout, chat });
+      setSaveState('saved');
+    } catch (error) {
+      console.error("Autosave Error:", error);
+      setSaveState('error');
+    }
+  }, [diagramId]);
+
   return (
     <div className="min-h-screen bg-gray-50 text-gray-900 font-sans">
+      {view === 'wizard' && streamingType && preview && (
+        <StreamingCanvas
+            preview={preview}
+            diagramType={streamingType}
+            providerLabel={getProviderLabel()}
+            onCancel={cancelStreaming}
+        />
+      )}
+      {/* Kept mounted while streaming so the wizard's inputs survive a failure or cancel */}
       {view === 'wizard' && (
-        <Wizard onSubmit={handleWizardSubmit} loading={loading} />
+        <div className={preview ? 'hidden' : undefined}>
+          <Wizard onSubmit={handleWizardSubmit} onBuildFromData={handleBuildFromData} loading={loading} />
+          {!loading && <Library onOpen={handleOpenDiagram} onImport={handleImport} />}
+        </div>
       )}
       {view === 'diagram' && diagramData && (
         <DiagramView 
+            key={diagramData.id || 'unsaved'}
+            title={diagramData.title}
             initialNodes={diagramData.nodes} 
             initialEdges={diagramData.edges} 
             diagramType={diagramData.type}
+            initialLayout={diagramData.layout}
+            initialChat={diagramData.chat}
             onReset={() => setView('wizard')}
+            onChange={handleDiagramChange}
+            saveState={saveState}
+            notice={diagramData.notice}
         />
       )}
     </div>
@@ -0,0 +1,121 @@
+import React from 'react';
+import { Crosshair, GitCompare, Loader2, MessageSquare, Send, X } from 'lucide-react';
+import { ChatMessage } from '../types';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  sending: boolean;
+  reviewing: boolean; // A proposed edit is open in the DiffPanel
+  busy: boolean; // The prompt bar or a selection action is waiting for the AI
+  onSend: (text: string) => void;
+  onShowChange: (nodeIds: string[]) => void;
+  onClose: () => void;
+}
+
+// Changes listed under a message before the rest are folded into a count
+const MAX_LISTED_CHANGES = 5;
+
+const STATUS_STYLES: Record<NonNullable<ChatMessage['edit']>['status'], { label: string; className: string }> = {
+  pending: { label: 'Waiting for review', className: 'text-amber-700 bg-amber-50' },
+  applied: { label: 'Applied', className: 'text-green-700 bg-green-50' },
+  rejected: { label: 'Rejected', className: 'text-gray-500 bg-gray-100' }
+};
+
+const EditSummary: React.FC<{ edit: NonNullable<ChatMessage['edit']>; onShow: () => void }> = ({ edit, onShow }) => {
+  const status = STATUS_STYLES[edit.status];
+  const hidden = edit.changes.length - MAX_LISTED_CHANGES;
+  return (
+    <div className="mt-2 border-t border-gray-200 pt-2 text-xs">
+      <div className="flex items-center justify-between gap-2 mb-1">
+        <span className="flex items-center gap-1 font-medium text-gray-600">
+          <GitCompare size={12} /> {edit.changes.length} {edit.changes.length === 1 ? 'change' : 'changes'}
+        </span>
+        <span className={`px-1.5 py-0.5 rounded ${status.className}`}>{status.label}</span>
+      </div>
+      <ul className="list-disc list-inside space-y-0.5 text-gray-600">
+        {edit.changes.slice(0, MAX_LISTED_CHANGES).map((change, idx) => <li key={idx} className="break-words">{change}</li>)}
+      </ul>
+      {hidden > 0 && <p className="text-gray-400 mt-0.5">and {hidden} more</p>}
+      {edit.status === 'applied' && edit.nodeIds.length > 0 && (
+        <button onClick={onShow} className="mt-1.5 flex items-center gap-1 text-blue-600 hover:text-blue-800">
+          <Crosshair size={12} /> Show on canvas
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Conversation about the diagram. Replies can answer in text or propose an edit, which is
+ * reviewed in the DiffPanel; the message then records what was applied.
+ */
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, sending, reviewing, busy, onSend, onShowChange, onClose }) => {
+  const [text, setText] = React.useState('');
+  const bottomRef = React.useRef<HTMLDivElement>(null);
+
+  React.useEffect(() => {
+    bottomRef.current?.scrollIntoView({ block: 'end' });
+  }, [messages.length, sending]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!text.trim() || sending || reviewing || busy) return;
+    onSend(text.trim());
+    setText('');
+  };
+
+  return (
+    <div className="w-80 border-l bg-white flex flex-col shrink-0">
+      <div className="flex justify-between items-center px-4 py-3 border-b">
+        <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+          <MessageSquare size={16} className="text-gray-500" /> Chat
+        </h3>
+        <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+          <X size={16} />
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-3 space-y-3">
+        {messages.length === 0 && (
+          <p className="text-xs text-gray-400 text-center mt-6">
+            Ask about the diagram ("What's missing from this process?") or request a change.
+          </p>
+        )}
+        {messages.map(message => (
+          <div key={message.id} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[90%] rounded-lg px-3 py-2 text-sm whitespace-pre-wrap break-words ${message.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-50 border border-gray-200 text-gray-700'}`}>
+              {message.text}
+              {message.edit && <EditSummary edit={message.edit} onShow={() => onShowChange(message.edit!.nodeIds)} />}
+            </div>
+          </div>
+        ))}
+        {sending && (
+          <div className="flex items-center gap-2 text-xs text-gray-400">
+            <Loader2 className="animate-spin" size={14} /> Thinking...
+          </div>
+        )}
+        <div ref={bottomRef}></div>
+      </div>
+
+      <form onSubmit={handleSubmit} className="p-3 border-t flex items-center gap-2">
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={reviewing ? "Review the proposed changes first" : busy ? "Waiting for the current AI edit..." : "Ask about this diagram..."}
+          disabled={sending || reviewing || busy}
+          className="flex-1 border border-gray-300 rounded-md px-2 py-1.5 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none disabled:bg-gray-50"
+        />
+        <button
+          type="submit"
+          disabled={!text.trim() || sending || reviewing || busy}
+          className="p-2 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50 transition-colors"
+        >
+          <Send size={14} />
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -1,4 +1,4 @@
-import React, { useCallback, useRef, useState, useEffect } from 'react';
+import React, { useCallback, useRef, useState, useEffect, useMemo } from 'react';
 import ReactFlow, {
   Node,
   Edge,
@@ -12,56 +12,213 @@ import ReactFlow, {
   Connection,
   addEdge,
   ReactFlowProvider,
-  useReactFlow
+  useReactFlow,
+  NodeChange,
+  EdgeChange
 } from 'reactflow';
-import { toPng } from 'html-to-image';
-import { jsPDF } from 'jspdf';
-import { DiagramNode, DiagramEdge, DiagramType, LayoutStyle } from '../types';
-import { drillDownNode, getNodeDetails, updateDiagram } from '../services/gemini';
-import { applyLayout, getEdgeColor } from '../utils/layout';
+import { ChatMessage, Citation, DetailAngle, DetailDepth, DiagramNode, DiagramEdge, DiagramType, LayoutStyle } from '../types';
+import { chatAboutDiagram, drillDownNode, getNodeDetails, transformSelection, updateDiagram } from '../services/gemini';
+import { getEdgeColor, getSupportedLayouts, layoutSubtree, tidyLayout } from '../utils/layout';
+import { useDiagramHistory, HistoryEntry } from '../hooks/useDiagramHistory';
+import { useLayoutTransition } from '../hooks/useLayoutTransition';
+import HistoryPanel from './HistoryPanel';
+import PdfExportDialog from './PdfExportDialog';
+import SourceCitation from './SourceCitation';
+import NodeDetailsModal from './NodeDetailsModal';
+import DiffPanel from './DiffPanel';
+import SelectionPanel from './SelectionPanel';
+import ChatPanel from './ChatPanel';
+import { computeGraphDiff, applyGraphDiff, buildDiffPreview, describeChange, getLinkedChangeIds, GraphDiff } from '../utils/diff';
+import { createIdGenerator, getEdgeType, getNodeStyle, getNodeType, getSubtreeIds, relabelNode, toFlowEdge } from '../utils/graph';
+import { getNodeContext, mergeDrillDown } from '../utils/drilldown';
+import { buildSelectionDiff, getSelectionScope, SELECTION_ACTIONS, SelectionAction } from '../utils/selection';
+import { EDGE_TYPES } from './edges';
+import { NODE_TYPES } from './nodes';
+import { linkColumnHandles } from '../utils/erd';
+import { exportDDL, SqlDialect, SQL_DIALECTS } from '../utils/sql';
+import { toMermaid } from '../utils/mermaid';
+import { toDrawIO } from '../utils/drawio';
+import { toFreeMind, toMarkdownOutline, toOPML } from '../utils/outline';
+import { buildScene, svgToPng, toSvg } from '../utils/svg';
+import { buildPdf, PdfExportOptions } from '../utils/pdf';
 import { 
   PlusCircle, Info, X, Loader2, Download, RotateCcw, Trash2, 
-  CornerDownRight, Edit3, Plus, Link as LinkIcon, ChevronDown,
-  FileJson, FileImage, FileText, PenTool, Sparkles, Send, Code
+  CornerDownRight, Edit3, Plus, BoxSelect, Link as LinkIcon, ChevronDown,
+  FileJson, FileImage, FileText, PenTool, Sparkles, Send, Code,
+  Cloud, CloudOff, Undo2, Redo2, History, MessageSquare, AlertTriangle, Pin, PinOff, Wand2, LayoutGrid, Database, GitBranch, ListTree, Network
 } from 'lucide-react';
 
+export type SaveState = 'idle' | 'saving' | 'saved' | 'error';
+
+// Messages shown in a dismissible banner, under a heading that says where they came from
+export interface Notice {
+  heading: string;
+  messages: string[];
+}
+
 interface DiagramViewProps {
+  title?: string;
   initialNodes: DiagramNode[];
   initialEdges: DiagramEdge[];
   diagramType: DiagramType;
+  initialLayout?: LayoutStyle;
+  initialChat?: ChatMessage[];
   onReset: () => void;
+  onChange?: (nodes: DiagramNode[], edges: DiagramEdge[], layout: LayoutStyle, chat: ChatMessage[]) => void;
+  saveState?: SaveState;
+  notice?: Notice; // Shown once on open
 }
 
-// Helper to escape XML characters for Draw.io export
-const escapeXml = (unsafe: string) => {
-  return unsafe.replace(/[<>&'"]/g, (c) => {
-    switch (c) {
-      case '<': return '&lt;';
-      case '>': return '&gt;';
-      case '&': return '&amp;';
-      case '\'': return '&apos;';
-      case '"': return '&quot;';
-      default: return c;
-    }
-  });
-};
+// Debounce for autosave so drags and typing don't write on every frame
+const AUTOSAVE_DELAY_MS = 800;
+
+const DRILL_DEPTHS = [1, 2, 3];
+const DRILL_COUNTS = [4, 8, 12, 20];
 
-const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, diagramType, onReset }) => {
+const DiagramView: React.FC<DiagramViewProps> = ({ title, initialNodes, initialEdges, diagramType, initialLayout = LayoutStyle.TREE, initialChat, onReset, onChange, saveState = 'idle', notice: initialNotice }) => {
   const [nodes, setNodes, onNodesChange] = useNodesState(initialNodes);
   const [edges, setEdges, onEdgesChange] = useEdgesState(initialEdges);
+  const [layoutStyle, setLayoutStyle] = useState<LayoutStyle>(
+    getSupportedLayouts(diagramType).includes(initialLayout) ? initialLayout : LayoutStyle.TREE
+  );
   const [selectedNode, setSelectedNode] = useState<Node | null>(null);
   const [loadingAction, setLoadingAction] = useState<string | null>(null);
-  const [nodeDetails, setNodeDetails] = useState<{ title: string; points: string[] } | null>(null);
+  const [nodeDetails, setNodeDetails] = useState<{ nodeId: string; title: string; citation?: Citation } | null>(null); // Points live in the node's data
   const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showPdfDialog, setShowPdfDialog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [notice, setNotice] = useState<Notice | null>(initialNotice?.messages.length ? initialNotice : null);
+  const [drillOptions, setDrillOptions] = useState({ depth: 1, count: 8 });
+  const [selectionAction, setSelectionAction] = useState<SelectionAction | null>(null);
+  const [showChat, setShowChat] = useState(false);
+  const [chat, setChat] = useState<ChatMessage[]>(initialChat || []);
+  const [chatSending, setChatSending] = useState(false);
   
   // Prompt Update State
   const [promptText, setPromptText] = useState('');
   const [isUpdating, setIsUpdating] = useState(false);
+  // messageId links a review to the chat message that proposed it
+  const [pendingDiff, setPendingDiff] = useState<{ prompt: string; diff: GraphDiff; accepted: Set<string>; warnings: string[]; messageId?: string } | null>(null);
 
   // Editing State
   const [editLabel, setEditLabel] = useState('');
 
+  // The prompt bar, selection actions and chat each end in a review, and only one review can
+  // be open, so none of them starts while another is still waiting for the AI
+  const proposing = isUpdating || chatSending || !!selectionAction;
+
   const reactFlowWrapper = useRef<HTMLDivElement>(null);
+  const latestGraph = useRef({ nodes, edges });
+  latestGraph.current = { nodes, edges };
+  const isFirstRender = useRef(true);
+
+  // Undo/Redo: handlers set a label before mutating; the effect below records the resulting graph
+  const history = useDiagramHistory(initialNodes, initialEdges, layoutStyle);
+  const pendingHistoryLabel = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!pendingHistoryLabel.current) return;
+    history.record(pendingHistoryLabel.current, nodes, edges, layoutStyle);
+    pendingHistoryLabel.current = null;
+  }, [nodes, edges, layoutStyle, history.record]);
+
+  const { animateTo, cancel: cancelTransition } = useLayoutTransition(setNodes);
+
+  // Re-layout with the given style (pinned nodes stay put), animating nodes into place.
+  // With a focusId, only that node's subtree is rearranged. Edges change with the final
+  // frame, so history records the graph as one step.
+  const relayout = useCallback((nextNodes: DiagramNode[], nextEdges: DiagramEdge[], style: LayoutStyle, label: string, focusId?: string) => {
+    const layouted = focusId
+      ? layoutSubtree(nextNodes, nextEdges, focusId, style, diagramType)
+      : tidyLayout(nextNodes, nextEdges, style, diagramType);
+    animateTo(nodes, layouted.nodes, (finalNodes) => {
+      pendingHistoryLabel.current = label;
+      setNodes(finalNodes);
+      setEdges(layouted.edges);
+    });
+  }, [nodes, diagramType, animateTo, setNodes, setEdges]);
+
+  const restoreEntry = useCallback((entry: HistoryEntry | null) => {
+    if (!entry) return;
+    cancelTransition();
+    pendingHistoryLabel.current = null;
+    setNodes(entry.nodes);
+    setEdges(entry.edges);
+    setLayoutStyle(entry.layout);
+    setSelectedNode(null);
+    setPendingDiff(null); // A pending review was computed against the graph being replaced
+  }, [setNodes, setEdges, cancelTransition]);
+
+  const handleUndo = useCallback(() => restoreEntry(history.undo()), [restoreEntry, history.undo]);
+  const handleRedo = useCallback(() => restoreEntry(history.redo()), [restoreEntry, history.redo]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y), ignored while typing in a field
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  // Drags emit many position changes; only the final one (dragging === false) becomes an entry
+  const handleNodesChange = useCallback((changes: NodeChange[]) => {
+    if (changes.some(c => c.type === 'position' && c.dragging === false)) {
+      const moved = changes.filter(c => c.type === 'position').length;
+      pendingHistoryLabel.current = moved > 1 ? `Move ${moved} nodes` : 'Move node';
+    } else if (changes.some(c => c.type === 'remove')) {
+      pendingHistoryLabel.current = 'Delete selection';
+    }
+    onNodesChange(changes);
+  }, [onNodesChange]);
+
+  const handleEdgesChange = useCallback((changes: EdgeChange[]) => {
+    if (changes.some(c => c.type === 'remove') && !pendingHistoryLabel.current) {
+      pendingHistoryLabel.current = 'Delete connection';
+    }
+    onEdgesChange(changes);
+  }, [onEdgesChange]);
+
+  // The latest unsaved change, flushed on unmount
+  const pendingSave = useRef<(() => void) | null>(null);
+
+  // Autosave on every change to the graph or chat (skipping the initial mount, which is already stored)
+  useEffect(() => {
+    if (isFirstRender.current) {
+      isFirstRender.current = false;
+      return;
+    }
+    if (!onChange) return;
+    pendingSave.current = () => onChange(nodes, edges, layoutStyle, chat);
+    const timer = setTimeout(() => {
+      pendingSave.current = null;
+      onChange(nodes, edges, layoutStyle, chat);
+    }, AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [nodes, edges, layoutStyle, chat, onChange]);
+
+  // Closing the diagram inside the debounce window would otherwise drop the last change
+  useEffect(() => () => {
+    pendingSave.current?.();
+  }, []);
+
+  // A chat edit whose review closed without being applied (rejected, undone, or left open
+  // when the diagram was closed) counts as rejected
+  useEffect(() => {
+    const isStale = (m: ChatMessage) => m.edit?.status === 'pending' && m.id !== pendingDiff?.messageId;
+    setChat(prev => prev.some(isStale) ? prev.map(m => isStale(m) ? { ...m, edit: { ...m.edit!, status: 'rejected' } } : m) : prev);
+  }, [pendingDiff]);
 
   // Sync selected node label to edit input
   useEffect(() => {
@@ -71,9 +228,10 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
   }, [selectedNode]);
 
   const onConnect = useCallback((params: Connection) => {
+    pendingHistoryLabel.current = 'Connect nodes';
     setEdges((eds) => addEdge({ 
         ...params, 
-        type: (diagramType === DiagramType.MINDMAP) ? 'default' : 'smoothstep', 
+        type: getEdgeType(diagramType), 
         animated: false, 
         markerEnd: { type: MarkerType.ArrowClosed },
         style: { stroke: '#64748b', strokeWidth: 2 } // Default neutral, layout will fix if run
@@ -81,9 +239,10 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
   }, [setEdges, diagramType]);
 
   const onNodeClick = useCallback((event: React.MouseEvent, node: Node) => {
+    if (pendingDiff) return; // The canvas is a read-only preview while reviewing AI changes
     setSelectedNode(node);
     setNodeDetails(null); // Close details if open
-  }, []);
+  }, [pendingDiff]);
 
   const onPaneClick = useCallback(() => {
     setSelectedNode(null);
@@ -93,21 +252,38 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
 
   const handleUpdateLabel = () => {
     if (!selectedNode) return;
+    pendingHistoryLabel.current = `Rename "${selectedNode.data.label}" to "${editLabel}"`;
     setNodes((nds) => nds.map((node) => {
       if (node.id === selectedNode.id) {
-        return { ...node, data: { ...node.data, label: editLabel } };
+        return { ...node, data: relabelNode(node.data, editLabel) };
       }
       return node;
     }));
-    setSelectedNode((prev) => prev ? { ...prev, data: { ...prev.data, label: editLabel } } : null);
+    setSelectedNode((prev) => prev ? { ...prev, data: relabelNode(prev.data, editLabel) } : null);
   };
 
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') handleUpdateLabel();
   };
 
+  const handleTogglePin = () => {
+    if (!selectedNode) return;
+    const pinned = !selectedNode.data.pinned;
+    pendingHistoryLabel.current = `${pinned ? 'Pin' : 'Unpin'} "${selectedNode.data.label}"`;
+    setNodes((nds) => nds.map((node) => node.id === selectedNode.id ? { ...node, data: { ...node.data, pinned } } : node));
+    setSelectedNode((prev) => prev ? { ...prev, data: { ...prev.data, pinned } } : null);
+  };
+
+  const handleLayoutChange = (style: LayoutStyle) => {
+    setLayoutStyle(style);
+    relayout(nodes, edges, style, `Layout: ${style}`);
+  };
+
+  const handleTidyUp = () => relayout(nodes, edges, layoutStyle, 'Tidy up');
+
   const handleDeleteNode = () => {
     if (!selectedNode) return;
+    pendingHistoryLabel.current = `Delete "${selectedNode.data.label}"`;
     setNodes((nds) => nds.filter((n) => n.id !== selectedNode.id));
     setEdges((eds) => eds.filter((e) => e.source !== selectedNode.id && e.target !== selectedNode.id));
     setSelectedNode(null);
@@ -115,7 +291,7 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
 
   // Styles helper for manual node addition
   const getNewNodeStyle = () => {
-     if (diagramType === DiagramType.MINDMAP || diagramType === DiagramType.ORG_CHART) {
+     if (diagramType === DiagramType.MINDMAP) {
         return {
             background: 'transparent',
             border: 'none',
@@ -126,14 +302,8 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
             fontWeight: '500',
         };
      }
-     return { 
-        background: '#fff', 
-        border: '1px solid #b1b1b7', 
-        borderRadius: '8px', 
-        padding: '10px',
-        boxShadow: '0 2px 4px rgba(0,0,0,0.05)',
-        minWidth: '100px'
-      };
+     // Other types render through custom node components
+     return getNodeStyle(undefined, diagramType);
   };
 
   const handleAddNode = () => {
@@ -142,9 +312,10 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
       id,
       position: { x: 100, y: 100 }, // Will be fixed if we re-layout, but for manual add, we keep it absolute
       data: { label: 'New Node' },
-      type: 'default',
+      type: getNodeType(diagramType),
       style: getNewNodeStyle()
     };
+    pendingHistoryLabel.current = 'Add node';
     setNodes((nds) => nds.concat(newNode));
   };
 
@@ -155,18 +326,19 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
       id,
       position: { x: selectedNode.position.x + 50, y: selectedNode.position.y + 100 },
       data: { label: 'New Child' },
-      type: 'default',
+      type: getNodeType(diagramType),
       style: getNewNodeStyle()
     };
     const newEdge: DiagramEdge = {
       id: `e-${selectedNode.id}-${id}`,
       source: selectedNode.id,
       target: id,
-      type: (diagramType === DiagramType.MINDMAP) ? 'default' : 'smoothstep',
+      type: getEdgeType(diagramType),
       markerEnd: { type: MarkerType.ArrowClosed },
       animated: false,
       style: { stroke: '#64748b', strokeWidth: 2 }
     };
+    pendingHistoryLabel.current = `Add child to "${selectedNode.data.label}"`;
     setNodes((nds) => nds.concat(newNode));
     setEdges((eds) => eds.concat(newEdge));
   };
@@ -177,44 +349,36 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
 
     try {
       const label = selectedNode.data.label;
-      const context = `Parent node is ${label}. Diagram type is ${diagramType}.`;
-
-      const result = await drillDownNode(label, context, diagramType);
-
-      // 1. Create new nodes and edges
-      const edgeType = (diagramType === DiagramType.MINDMAP) ? 'default' : 'smoothstep';
-      
-      const newNodes: DiagramNode[] = result.newNodes.map((n, idx) => ({
-        id: `gen-${Date.now()}-${idx}`,
-        type: 'default',
-        position: { x: 0, y: 0 }, 
-        data: { label: n.label, details: n.details, type: n.type },
-        style: getNewNodeStyle()
-      }));
+      const context = getNodeContext(nodes, edges, selectedNode.id);
+      const result = await drillDownNode(
+        { id: selectedNode.id, label, details: selectedNode.data.details },
+        context,
+        diagramType,
+        drillOptions
+      );
 
-      const newEdges: DiagramEdge[] = newNodes.map((n) => ({
-        id: `e-${selectedNode.id}-${n.id}`,
-        source: selectedNode.id,
-        target: n.id,
-        type: edgeType,
-        markerEnd: { type: MarkerType.ArrowClosed },
-        animated: false,
-        style: { strokeWidth: 2 } // Layout will color
+      const { added, warnings: mergeWarnings } = mergeDrillDown(nodes, edges, selectedNode.id, result, drillOptions.depth);
+      if (added.nodes.length === 0) {
+        alert("The AI didn't suggest anything new for this node.");
+        return;
+      }
+
+      const newNodes: DiagramNode[] = added.nodes.map(n => ({
+        id: n.id,
+        type: getNodeType(diagramType),
+        position: { x: 0, y: 0 }, // Placed by layoutSubtree
+        data: { label: n.label, details: n.details, type: n.type, ...(n.columns ? { columns: n.columns } : {}) },
+        style: getNodeStyle(n.type, diagramType)
       }));
+      const newEdges = added.edges.map(e => toFlowEdge(e, `e-${e.source}-${e.target}`, diagramType));
 
-      // 2. Merge with existing
       const allNodes = [...nodes, ...newNodes];
       const allEdges = [...edges, ...newEdges];
+      const linkedEdges = diagramType === DiagramType.ERD ? linkColumnHandles(allNodes, allEdges) : allEdges;
 
-      // 3. RE-APPLY LAYOUT to ensure quality is maintained
-      let layoutStyle = LayoutStyle.TREE;
-      if (diagramType === DiagramType.MINDMAP) layoutStyle = LayoutStyle.RADIAL;
-      
-      // Use the robust layout engine
-      const layouted = applyLayout(allNodes, allEdges, layoutStyle, diagramType);
-
-      setNodes(layouted.nodes);
-      setEdges(layouted.edges);
+      // Only the drilled node's subtree moves; the rest of the canvas stays put
+      relayout(allNodes, linkedEdges, layoutStyle, `AI: Drill down "${label}"`, selectedNode.id);
+      if (mergeWarnings.length) setNotice({ heading: 'Drill-down adjusted', messages: mergeWarnings });
 
     } catch (e) {
       console.error(e);
@@ -225,94 +389,246 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
     }
   };
 
-  const handleGetDetails = async () => {
+  // Nodes selected with Shift-drag or Ctrl/Cmd-click; two or more switch the side panel to SelectionPanel
+  const selectedNodes = useMemo(() => nodes.filter(n => n.selected), [nodes]);
+
+  const handleSelectSubtree = () => {
     if (!selectedNode) return;
-    setLoadingAction('Fetching details...');
+    const ids = getSubtreeIds(edges, selectedNode.id);
+    setNodes((nds) => nds.map((node) => ({ ...node, selected: ids.has(node.id) })));
+  };
 
+  const handleClearSelection = () => {
+    setNodes((nds) => nds.map((node) => node.selected ? { ...node, selected: false } : node));
+    setSelectedNode(null);
+  };
+
+  const handleSelectionAction = async (action: SelectionAction) => {
+    if (proposing) return;
+    const label = SELECTION_ACTIONS.find(a => a.id === action)!.label;
+    const scope = getSelectionScope(action, nodes, edges, new Set(selectedNodes.map(n => n.id)));
+    if (scope.items.length === 0) {
+      alert(action === 'expandLeaves' ? "None of the selected nodes is a leaf." : "Select nodes that share a parent to regroup them.");
+      return;
+    }
+
+    setSelectionAction(action);
     try {
-      const points = await getNodeDetails(selectedNode.data.label, `Diagram Type: ${diagramType}`);
-      setNodeDetails({
-        title: selectedNode.data.label,
-        points
-      });
+      const response = await transformSelection(action, scope.items, `titled "${title || 'Untitled'}"`, diagramType);
+      // Nothing is applied yet: the user reviews the proposed changes first
+      const { diff, warnings: diffWarnings } = buildSelectionDiff(action, response, nodes, edges, scope);
+      if (diff.changes.length === 0) {
+        alert("The AI didn't propose any changes.");
+        return;
+      }
+      setPendingDiff({ prompt: `${label} (${scope.items.length} nodes)`, diff, accepted: new Set(diff.changes.map(c => c.id)), warnings: diffWarnings });
+      setSelectedNode(null);
+    } catch (err) {
+      console.error(err);
+      alert(`Failed to ${label.toLowerCase()}. Please try again.`);
+    } finally {
+      setSelectionAction(null);
+    }
+  };
+
+  // Generates detail points and saves them on the node; resolves false if that failed
+  const fetchDetails = async (node: Node, angle: DetailAngle, depth: DetailDepth) => {
+    setLoadingAction('Fetching details...');
+    try {
+      const citation: Citation | undefined = node.data.citation;
+      // Grounded nodes are explained from their source passage
+      const context = citation ? `Diagram Type: ${diagramType}. Source (${citation.document}): "${citation.quote}"` : `Diagram Type: ${diagramType}`;
+      const points = await getNodeDetails(node.data.label, context, diagramType, { angle, depth });
+      pendingHistoryLabel.current = `AI: Details for "${node.data.label}"`;
+      setNodes((nds) => nds.map((n) => n.id === node.id ? { ...n, data: { ...n.data, detailPoints: { points, angle, depth } } } : n));
+      return true;
     } catch (e) {
-      alert("Failed to fetch details.");
+      console.error(e);
+      alert(e instanceof Error ? e.message : "Failed to fetch details.");
+      return false;
     } finally {
       setLoadingAction(null);
     }
   };
+
+  // Saved points open straight away; they're only generated the first time
+  const handleGetDetails = async () => {
+    if (!selectedNode) return;
+    const node = nodes.find(n => n.id === selectedNode.id) || selectedNode;
+    setNodeDetails({ nodeId: node.id, title: node.data.label, citation: node.data.citation });
+    if (node.data.detailPoints) return;
+    if (!await fetchDetails(node, 'overview', 'standard')) setNodeDetails(null);
+  };
+
+  const handleRegenerateDetails = (angle: DetailAngle, depth: DetailDepth) => {
+    const node = nodes.find(n => n.id === nodeDetails?.nodeId);
+    if (node) fetchDetails(node, angle, depth);
+  };
+
+  const handleSaveDetailPoints = (points: string[]) => {
+    const node = nodes.find(n => n.id === nodeDetails?.nodeId);
+    if (!node) return;
+    pendingHistoryLabel.current = `Edit details of "${node.data.label}"`;
+    const detailPoints = points.length && node.data.detailPoints ? { ...node.data.detailPoints, points, edited: true } : undefined;
+    setNodes((nds) => nds.map((n) => n.id === node.id ? { ...n, data: { ...n.data, detailPoints } } : n));
+  };
   
   const handlePromptSubmit = async (e?: React.FormEvent) => {
     if (e) e.preventDefault();
-    if (!promptText.trim() || isUpdating) return;
+    if (!promptText.trim() || proposing) return;
 
     setIsUpdating(true);
     try {
       const result = await updateDiagram(nodes, edges, promptText, diagramType);
-      
-      const edgeType = (diagramType === DiagramType.MINDMAP) ? 'default' : 'smoothstep';
 
-      // Process results
-      const newNodes: DiagramNode[] = result.nodes.map(n => ({
-        id: n.id,
-        type: 'default',
-        position: { x: 0, y: 0 }, // Layout will fix
-        data: { label: n.label, details: n.details, type: n.type },
-        style: getNewNodeStyle()
-      }));
-      
-      // We must check if the root node (index 0 usually) was re-generated and if it needs the Box style applied back
-      // Since updateDiagram might return a whole new set, we should ideally re-identify the root or apply styles based on structure.
-      // For simplicity, we assume the layout engine/app logic handles the special root style if passed through the main app flow, 
-      // but here we are in DiagramView. Let's just apply default "transparent" for Mindmaps, 
-      // AND loop to fix the root if it exists.
-      if (diagramType === DiagramType.MINDMAP && newNodes.length > 0) {
-          // Heuristic: The first node is often preserved as root in updates, or the one with 0 incoming.
-          // Since we apply layout next, let's let applyLayout handle position, but style is static.
-          // We'll leave them transparent here. If the user wants the root box back on a full re-gen, they use the Wizard.
-          // OR we can try to preserve the style of the node with the same ID as the old root.
-          const oldRoot = nodes[0];
-          const newRoot = newNodes.find(n => n.id === oldRoot.id) || newNodes[0];
-          if (newRoot) {
-             newRoot.style = {
-                 ...newRoot.style,
-                 backgroundColor: '#fff',
-                 border: '2px solid #3b82f6',
-                 borderRadius: '30px',
-                 boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
-                 padding: '16px 32px'
-             };
-          }
+      // Nothing is applied yet: the user reviews the structural diff first
+      const diff = computeGraphDiff(nodes, edges, result);
+      if (diff.changes.length === 0) {
+        alert("The AI didn't propose any changes.");
+        return;
       }
+      setPendingDiff({ prompt: promptText.trim(), diff, accepted: new Set(diff.changes.map(c => c.id)), warnings: result.warnings });
+      setSelectedNode(null);
+      setPromptText('');
+    } catch (err) {
+      console.error(err);
+      alert("Failed to update diagram. Please try again.");
+    } finally {
+      setIsUpdating(false);
+    }
+  };
+
+  // Label of an existing node, or of one a diff would add
+  const labelLookup = useCallback((diff?: GraphDiff) => (id: string) => {
+    const node = nodes.find(n => n.id === id);
+    if (node) return String(node.data.label);
+    const added = diff?.changes.find(c => c.kind === 'addNode' && c.node.id === id);
+    return added && added.kind === 'addNode' ? added.node.label : id;
+  }, [nodes]);
+
+  const handleChatSend = async (text: string) => {
+    if (proposing || pendingDiff) return;
+    const nextId = createIdGenerator(chat.map(m => m.id));
+    const question: ChatMessage = { id: nextId('msg'), role: 'user', text, timestamp: Date.now() };
+    const replyId = nextId('msg');
+    setChat(prev => [...prev, question]);
+    setChatSending(true);
 
-      const newEdges: DiagramEdge[] = result.edges.map((e, idx) => ({
-        id: `e${idx}-${Date.now()}`, 
+    try {
+      const { reply, proposal, warnings: chatWarnings } = await chatAboutDiagram(nodes, edges, chat, text, diagramType);
+      // The canvas may have been edited while waiting; diff against what it shows now
+      const current = latestGraph.current;
+      const diff = proposal ? computeGraphDiff(current.nodes, current.edges, proposal) : null;
+      const edit = diff && diff.changes.length > 0 ? diff : null;
+      setChat(prev => [...prev, {
+        id: replyId,
+        role: 'assistant',
+        text: reply || (edit ? "Here's the change you asked for." : "I don't have an answer to that."),
+        timestamp: Date.now(),
+        ...(edit ? { edit: { status: 'pending', changes: edit.changes.map(c => describeChange(c, labelLookup(edit))), nodeIds: [] } } : {})
+      }]);
+      if (chatWarnings.length) setNotice({ heading: 'The AI reply was repaired', messages: chatWarnings });
+      if (!edit || !proposal) return;
+
+      // Edits go through the same review as the prompt bar
+      setPendingDiff({ prompt: text, diff: edit, accepted: new Set(edit.changes.map(c => c.id)), warnings: proposal.warnings, messageId: replyId });
+      setSelectedNode(null);
+    } catch (err) {
+      console.error(err);
+      alert("Failed to get a reply. Please try again.");
+    } finally {
+      setChatSending(false);
+    }
+  };
+
+  // Selects the nodes a chat message's edit added or changed
+  const handleShowChange = (nodeIds: string[]) => {
+    const ids = new Set(nodeIds);
+    if (!nodes.some(n => ids.has(n.id))) {
+      alert("The nodes changed by this message are no longer in the diagram.");
+      return;
+    }
+    setNodes((nds) => nds.map((node) => ({ ...node, selected: ids.has(node.id) })));
+    setSelectedNode(null);
+  };
+
+  const applyPendingDiff = (accepted: Set<string>) => {
+    if (!pendingDiff) return;
+    const merged = applyGraphDiff(nodes, edges, pendingDiff.diff, accepted);
+    const edgeType = getEdgeType(diagramType);
+
+    const newNodes: DiagramNode[] = [
+      ...merged.nodes,
+      ...merged.addedNodes.map(n => ({
+        id: n.id,
+        type: getNodeType(diagramType),
+        position: { x: 0, y: 0 }, // Layout will fix
+        data: { label: n.label, details: n.details, type: n.type, ...(n.columns ? { columns: n.columns } : {}) },
+        style: diagramType === DiagramType.MINDMAP ? getNewNodeStyle() : getNodeStyle(n.type, diagramType)
+      }))
+    ];
+    const newEdges: DiagramEdge[] = [
+      ...merged.edges,
+      ...merged.addedEdges.map(e => ({
+        id: `e-${e.source}-${e.target}`,
         source: e.source,
         target: e.target,
         label: e.label,
+        ...(e.cardinality ? { data: { cardinality: e.cardinality } } : {}),
         type: edgeType,
         markerEnd: { type: MarkerType.ArrowClosed },
         animated: false,
         style: { strokeWidth: 2 }
-      }));
-
-      // Re-apply layout on the WHOLE graph
-      let layoutStyle = LayoutStyle.TREE;
-      if (diagramType === DiagramType.MINDMAP) layoutStyle = LayoutStyle.RADIAL;
+      }))
+    ];
 
-      const layouted = applyLayout(newNodes, newEdges, layoutStyle, diagramType);
+    // Re-apply layout on the WHOLE graph (ERD relationships attach to their key columns)
+    const linkedEdges = diagramType === DiagramType.ERD ? linkColumnHandles(newNodes, newEdges) : newEdges;
+    relayout(newNodes, linkedEdges, layoutStyle, `AI: ${pendingDiff.prompt}`);
 
-      setNodes(layouted.nodes);
-      setEdges(layouted.edges);
-      setPromptText('');
-    } catch (err) {
-      console.error(err);
-      alert("Failed to update diagram. Please try again.");
-    } finally {
-      setIsUpdating(false);
+    if (pendingDiff.messageId) {
+      // The chat message keeps what was actually applied, and which nodes it touched
+      const applied = pendingDiff.diff.changes.filter(c => accepted.has(c.id));
+      const present = new Set(newNodes.map(n => n.id));
+      const touched = new Set(applied.flatMap(c =>
+        c.kind === 'addNode' ? [c.node.id] : c.kind === 'updateNode' ? [c.nodeId] : c.kind === 'addEdge' ? [c.source, c.target] : []
+      ).filter(id => present.has(id)));
+      const changes = applied.map(c => describeChange(c, labelOf));
+      setChat(prev => prev.map(m => m.id === pendingDiff.messageId
+        ? { ...m, edit: { status: 'applied', changes, nodeIds: [...touched] } }
+        : m));
     }
+    setPendingDiff(null);
   };
 
+  const toggleDiffChange = (changeId: string) => {
+    setPendingDiff(prev => {
+      if (!prev) return prev;
+      const accepted = new Set(prev.accepted);
+      // Grouped changes only make sense together, so they toggle as one
+      const accept = !accepted.has(changeId);
+      getLinkedChangeIds(prev.diff, changeId).forEach(id => accept ? accepted.add(id) : accepted.delete(id));
+      return { ...prev, accepted };
+    });
+  };
+
+  // Union of current graph and proposed changes, laid out together so added nodes have a place
+  const diffPreview = useMemo(() => {
+    if (!pendingDiff) return null;
+    const preview = buildDiffPreview(nodes, edges, pendingDiff.diff, pendingDiff.accepted, () => getNewNodeStyle(), getNodeType(diagramType));
+    // Only take positions from the layout; it would otherwise recolour the highlighted edges
+    const positioned = new Map(tidyLayout(preview.nodes, preview.edges, layoutStyle, diagramType).nodes.map(n => [n.id, n]));
+    return {
+      nodes: preview.nodes.map(n => {
+        const p = positioned.get(n.id);
+        return p ? { ...n, position: p.position, sourcePosition: p.sourcePosition, targetPosition: p.targetPosition } : n;
+      }),
+      edges: preview.edges
+    };
+  }, [pendingDiff, nodes, edges, layoutStyle, diagramType]);
+
+  const labelOf = useMemo(() => labelLookup(pendingDiff?.diff), [labelLookup, pendingDiff]);
+
   // --- Export Functions ---
   
   const downloadFile = (content: string, fileName: string, contentType: string) => {
@@ -323,12 +639,20 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
     a.click();
   };
 
+  const exportFileBase = diagramType.toLowerCase().replace(/\s/g, '-');
+
+  // Exports draw the whole graph from node data, not the visible viewport
+  const handleExportSVG = () => {
+    downloadFile(toSvg(buildScene(nodes, edges)), `${exportFileBase}.svg`, 'image/svg+xml');
+    setShowExportMenu(false);
+  };
+
   const handleExportPNG = async () => {
-    if (reactFlowWrapper.current === null) return;
     try {
-      const dataUrl = await toPng(reactFlowWrapper.current, { backgroundColor: '#f8fafc' });
+      const scene = buildScene(nodes, edges);
+      const dataUrl = await svgToPng(toSvg(scene, '#f8fafc'), scene.width, scene.height);
       const link = document.createElement('a');
-      link.download = `${diagramType.toLowerCase().replace(/\s/g, '-')}.png`;
+      link.download = `${exportFileBase}.png`;
       link.href = dataUrl;
       link.click();
     } catch (err) {
@@ -338,87 +662,50 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
     setShowExportMenu(false);
   };
 
-  const handleExportPDF = async () => {
-    if (reactFlowWrapper.current === null) return;
+  const handleExportPDF = (options: PdfExportOptions) => {
     try {
-      const dataUrl = await toPng(reactFlowWrapper.current, { backgroundColor: '#ffffff' });
-      const pdf = new jsPDF({ orientation: 'landscape' });
-      const imgProps = pdf.getImageProperties(dataUrl);
-      const pdfWidth = pdf.internal.pageSize.getWidth();
-      const pdfHeight = (imgProps.height * pdfWidth) / imgProps.width;
-      
-      pdf.addImage(dataUrl, 'PNG', 0, 0, pdfWidth, pdfHeight);
-      pdf.save(`${diagramType.toLowerCase().replace(/\s/g, '-')}.pdf`);
+      const pdf = buildPdf(buildScene(nodes, edges), nodes, edges.length, diagramType, title || diagramType, options);
+      pdf.save(`${exportFileBase}.pdf`);
     } catch (err) {
       console.error("PDF Export failed", err);
       alert("Could not export PDF.");
     }
-    setShowExportMenu(false);
+    setShowPdfDialog(false);
   };
 
-  const handleExportDrawIO = () => {
-    // We prefix IDs with "node_" and "edge_" to avoid collisions with Draw.io reserved IDs '0' and '1'
-    const xmlNodes = nodes.map(node => {
-        const width = node.width || 150;
-        const height = node.height || 60;
-        const label = escapeXml(String(node.data.label || ''));
-        const safeId = `node_${node.id}`;
-        
-        return `<mxCell id="${safeId}" value="${label}" style="rounded=1;whiteSpace=wrap;html=1;fillColor=#ffffff;strokeColor=#000000;" vertex="1" parent="1">
-          <mxGeometry x="${node.position.x}" y="${node.position.y}" width="${width}" height="${height}" as="geometry" />
-        </mxCell>`;
-    }).join('\n');
-
-    const xmlEdges = edges.map(edge => {
-        const label = escapeXml(String(edge.label || ''));
-        const safeId = `edge_${edge.id}`;
-        const safeSource = `node_${edge.source}`;
-        const safeTarget = `node_${edge.target}`;
-        
-        return `<mxCell id="${safeId}" value="${label}" style="edgeStyle=orthogonalEdgeStyle;rounded=0;orthogonalLoop=1;jettySize=auto;html=1;" edge="1" parent="1" source="${safeSource}" target="${safeTarget}">
-          <mxGeometry relative="1" as="geometry" />
-        </mxCell>`;
-    }).join('\n');
-
-    const mxFile = `<?xml version="1.0" encoding="UTF-8"?>
-      <mxfile host="app.diagrams.net" modified="${new Date().toISOString()}" agent="MindGeniusAI" version="21.0.0" type="device">
-        <diagram name="Page-1" id="diagram_${Date.now()}">
-          <mxGraphModel dx="1000" dy="1000" grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="1" pageScale="1" pageWidth="827" pageHeight="1169" math="0" shadow="0">
-            <root>
-              <mxCell id="0" />
-              <mxCell id="1" parent="0" />
-              ${xmlNodes}
-              ${xmlEdges}
-            </root>
-          </mxGraphModel>
-        </diagram>
-      </mxfile>
-    `;
-
-    downloadFile(mxFile, `${diagramType.toLowerCase().replace(/\s+/g, '_')}.drawio`, 'application/xml');
+  const handleExportDrawIO = async () => {
+    try {
+      const file = await toDrawIO([{ name: title || diagramType, diagramType, nodes, edges }]);
+      downloadFile(file, `${diagramType.toLowerCase().replace(/\s+/g, '_')}.drawio`, 'application/xml');
+    } catch (err) {
+      console.error("Draw.io Export failed", err);
+      alert("Could not export to Draw.io.");
+    }
     setShowExportMenu(false);
   };
 
   const handleExportMarkdown = () => {
-    let content = `# ${diagramType} Export\n\n`;
-    
-    // Simple hierarchy reconstruction
-    nodes.forEach(node => {
-        content += `## ${node.data.label}\n`;
-        if (node.data.details) content += `- ${node.data.details}\n`;
-        
-        const outgoing = edges.filter(e => e.source === node.id);
-        if (outgoing.length > 0) {
-            content += `\n**Connects to:**\n`;
-            outgoing.forEach(edge => {
-                const target = nodes.find(n => n.id === edge.target);
-                if (target) content += `- ${target.data.label} ${edge.label ? `(${edge.label})` : ''}\n`;
-            });
-        }
-        content += `\n---\n`;
-    });
+    downloadFile(toMarkdownOutline(nodes, edges, diagramType, title), `${diagramType.toLowerCase().replace(/\s+/g, '_')}.md`, 'text/markdown');
+    setShowExportMenu(false);
+  };
+
+  const handleExportOPML = () => {
+    downloadFile(toOPML(nodes, edges, title), `${diagramType.toLowerCase().replace(/\s+/g, '_')}.opml`, 'text/x-opml');
+    setShowExportMenu(false);
+  };
+
+  const handleExportFreeMind = () => {
+    downloadFile(toFreeMind(nodes, edges, title), `${diagramType.toLowerCase().replace(/\s+/g, '_')}.mm`, 'application/x-freemind');
+    setShowExportMenu(false);
+  };
+
+  const handleExportMermaid = () => {
+    downloadFile(toMermaid(nodes, edges, diagramType, title), `${diagramType.toLowerCase().replace(/\s+/g, '_')}.mmd`, 'text/plain');
+    setShowExportMenu(false);
+  };
 
-    downloadFile(content, `${diagramType.toLowerCase().replace(/\s+/g, '_')}.md`, 'text/markdown');
+  const handleExportSQL = (dialect: SqlDialect) => {
+    downloadFile(exportDDL(nodes, edges, dialect, title), `schema_${dialect}.sql`, 'application/sql');
     setShowExportMenu(false);
   };
 
@@ -440,11 +727,61 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
             <div className="flex items-center gap-4">
               <h2 className="font-bold text-gray-700 flex items-center gap-2">
                   <span className="bg-blue-100 text-blue-700 text-xs px-2 py-1 rounded">{diagramType}</span>
+                  {title && <span className="text-sm truncate max-w-xs">{title}</span>}
               </h2>
+              {saveState !== 'idle' && (
+                <span className={`flex items-center gap-1 text-xs ${saveState === 'error' ? 'text-red-500' : 'text-gray-400'}`}>
+                  {saveState === 'error' ? <CloudOff size={14} /> : saveState === 'saving' ? <Loader2 className="animate-spin" size={14} /> : <Cloud size={14} />}
+                  {saveState === 'error' ? 'Not saved' : saveState === 'saving' ? 'Saving...' : 'Saved'}
+                </span>
+              )}
               <div className="h-6 w-px bg-gray-200"></div>
               <button onClick={handleAddNode} className="flex items-center gap-1.5 px-3 py-1.5 text-sm bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors shadow-sm">
                   <Plus size={14} /> Add Node
               </button>
+              <div className="flex items-center gap-1">
+                  <button onClick={handleUndo} disabled={!history.canUndo} title="Undo (Ctrl+Z)" className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-md disabled:opacity-30 transition-colors">
+                      <Undo2 size={16} />
+                  </button>
+                  <button onClick={handleRedo} disabled={!history.canRedo} title="Redo (Ctrl+Shift+Z)" className="p-1.5 text-gray-600 hover:bg-gray-100 rounded-md disabled:opacity-30 transition-colors">
+                      <Redo2 size={16} />
+                  </button>
+                  <button
+                      onClick={() => setShowHistory(!showHistory)}
+                      title="History"
+                      className={`p-1.5 rounded-md transition-colors ${showHistory ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+                  >
+                      <History size={16} />
+                  </button>
+                  <button
+                      onClick={() => setShowChat(!showChat)}
+                      title="Chat about this diagram"
+                      className={`p-1.5 rounded-md transition-colors ${showChat ? 'bg-blue-50 text-blue-700' : 'text-gray-600 hover:bg-gray-100'}`}
+                  >
+                      <MessageSquare size={16} />
+                  </button>
+              </div>
+              <div className="h-6 w-px bg-gray-200"></div>
+              <div className="flex items-center gap-1">
+                  <LayoutGrid size={16} className="text-gray-400" />
+                  <select
+                      value={layoutStyle}
+                      onChange={(e) => handleLayoutChange(e.target.value as LayoutStyle)}
+                      disabled={!!pendingDiff}
+                      title="Layout"
+                      className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-700 bg-white disabled:opacity-50"
+                  >
+                      {getSupportedLayouts(diagramType).map(style => <option key={style} value={style}>{style}</option>)}
+                  </select>
+                  <button
+                      onClick={handleTidyUp}
+                      disabled={!!pendingDiff}
+                      title="Tidy up (pinned nodes stay in place)"
+                      className="flex items-center gap-1.5 px-2 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-md disabled:opacity-30 transition-colors"
+                  >
+                      <Wand2 size={14} /> Tidy up
+                  </button>
+              </div>
             </div>
             <div className="flex gap-2">
                 <button onClick={onReset} className="flex items-center gap-2 px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-md transition-colors">
@@ -465,32 +802,59 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
                             <button onClick={handleExportPNG} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
                                 <FileImage size={16} className="text-blue-500"/> Download Image (PNG)
                             </button>
-                            <button onClick={handleExportPDF} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
-                                <FileText size={16} className="text-red-500"/> Download PDF
+                            <button onClick={handleExportSVG} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                <FileImage size={16} className="text-teal-500"/> Vector Image (SVG)
+                            </button>
+                            <button onClick={() => { setShowExportMenu(false); setShowPdfDialog(true); }} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                <FileText size={16} className="text-red-500"/> Download PDF...
                             </button>
                             <div className="h-px bg-gray-100 my-1"></div>
                             <button onClick={handleExportDrawIO} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
                                 <PenTool size={16} className="text-orange-500"/> Export to Draw.io
                             </button>
                             <button onClick={handleExportMarkdown} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
-                                <FileText size={16} className="text-gray-500"/> Editable Document (MD)
+                                <FileText size={16} className="text-gray-500"/> Outline Document (MD)
+                            </button>
+                            <button onClick={handleExportOPML} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                <ListTree size={16} className="text-sky-500"/> Outline (OPML)
+                            </button>
+                            <button onClick={handleExportFreeMind} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                <Network size={16} className="text-emerald-500"/> FreeMind (.mm)
+                            </button>
+                            <button onClick={handleExportMermaid} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                <GitBranch size={16} className="text-pink-500"/> Mermaid (.mmd)
                             </button>
                             <button onClick={handleExportJSON} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
                                 <Code size={16} className="text-green-600"/> Download Code (JSON)
                             </button>
+                            {diagramType === DiagramType.ERD && (
+                                <>
+                                    <div className="h-px bg-gray-100 my-1"></div>
+                                    {SQL_DIALECTS.map(dialect => (
+                                        <button key={dialect.id} onClick={() => handleExportSQL(dialect.id)} className="w-full text-left px-4 py-2 text-sm text-gray-700 hover:bg-gray-50 flex items-center gap-2">
+                                            <Database size={16} className="text-indigo-500"/> SQL DDL ({dialect.label})
+                                        </button>
+                                    ))}
+                                </>
+                            )}
                         </div>
                     )}
                 </div>
             </div>
         </div>
 
+      <div className="flex-grow flex min-h-0">
       <div className="flex-grow relative" ref={reactFlowWrapper}>
         <ReactFlow
-          nodes={nodes}
-          edges={edges}
-          onNodesChange={onNodesChange}
-          onEdgesChange={onEdgesChange}
-          onConnect={onConnect}
+          nodes={diffPreview ? diffPreview.nodes : nodes}
+          edges={diffPreview ? diffPreview.edges : edges}
+          onNodesChange={diffPreview ? undefined : handleNodesChange}
+          onEdgesChange={diffPreview ? undefined : handleEdgesChange}
+          onConnect={diffPreview ? undefined : onConnect}
+          nodeTypes={NODE_TYPES}
+          edgeTypes={EDGE_TYPES}
+          nodesDraggable={!diffPreview}
+          nodesConnectable={!diffPreview}
           onNodeClick={onNodeClick}
           onPaneClick={onPaneClick}
           connectionLineType={ConnectionLineType.SmoothStep}
@@ -500,6 +864,53 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
         >
           <Background color="#aaa" gap={16} />
           <Controls />
+
+          {pendingDiff && (
+            <Panel position="top-right">
+              <DiffPanel
+                prompt={pendingDiff.prompt}
+                warnings={pendingDiff.warnings}
+                changes={pendingDiff.diff.changes}
+                accepted={pendingDiff.accepted}
+                labelOf={labelOf}
+                onToggle={toggleDiffChange}
+                onAcceptAll={() => applyPendingDiff(new Set(pendingDiff.diff.changes.map(c => c.id)))}
+                onRejectAll={() => setPendingDiff(null)}
+                onApply={() => applyPendingDiff(pendingDiff.accepted)}
+              />
+            </Panel>
+          )}
+
+          {notice && !pendingDiff && (
+            <Panel position="top-center" className="bg-amber-50 border border-amber-200 text-amber-800 rounded-lg shadow-md p-3 max-w-lg">
+              <div className="flex justify-between items-start gap-3">
+                <div>
+                  <p className="text-sm font-semibold flex items-center gap-1.5"><AlertTriangle size={14} /> {notice.heading}</p>
+                  <ul className="mt-1 text-xs space-y-0.5 list-disc list-inside">
+                    {notice.messages.map((message, idx) => <li key={idx}>{message}</li>)}
+                  </ul>
+                </div>
+                <button onClick={() => setNotice(null)} className="text-amber-600 hover:text-amber-800">
+                  <X size={16} />
+                </button>
+              </div>
+            </Panel>
+          )}
+
+          {showHistory && (
+            <Panel position="top-left">
+              <HistoryPanel
+                entries={history.entries}
+                index={history.index}
+                canUndo={history.canUndo}
+                canRedo={history.canRedo}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                onJump={(idx) => restoreEntry(history.jumpTo(idx))}
+                onClose={() => setShowHistory(false)}
+              />
+            </Panel>
+          )}
           
           {/* Magic AI Prompt Bar - Bottom Center */}
           <div className="absolute bottom-6 left-1/2 transform -translate-x-1/2 w-full max-w-xl px-4 z-50">
@@ -515,12 +926,12 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
                     value={promptText}
                     onChange={(e) => setPromptText(e.target.value)}
                     placeholder={isUpdating ? "Updating diagram..." : "Ask AI to modify chart (e.g., 'Add a pricing section', 'Remove risks')"}
-                    disabled={isUpdating}
+                    disabled={proposing || !!pendingDiff}
                     className="flex-grow bg-transparent border-none outline-none text-sm text-gray-700 placeholder-gray-400 px-2"
                 />
                 <button 
                     type="submit"
-                    disabled={!promptText.trim() || isUpdating}
+                    disabled={!promptText.trim() || proposing || !!pendingDiff}
                     className="p-2 rounded-full bg-gray-100 text-gray-500 hover:bg-blue-600 hover:text-white disabled:opacity-50 disabled:hover:bg-gray-100 disabled:hover:text-gray-500 transition-colors"
                 >
                     <Send size={16} />
@@ -528,8 +939,20 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
             </form>
           </div>
 
+          {selectedNodes.length > 1 && !pendingDiff && !nodeDetails && (
+            <Panel position="top-right">
+              <SelectionPanel
+                count={selectedNodes.length}
+                runningAction={selectionAction}
+                busy={isUpdating || chatSending}
+                onAction={handleSelectionAction}
+                onClear={handleClearSelection}
+              />
+            </Panel>
+          )}
+
           {/* Floating Action Panel for Selected Node */}
-          {selectedNode && !nodeDetails && (
+          {selectedNode && !nodeDetails && selectedNodes.length < 2 && (
             <Panel position="top-right" className="bg-white p-4 rounded-lg shadow-xl border border-gray-200 w-80 animate-in fade-in slide-in-from-top-2">
               <div className="flex justify-between items-start mb-3 border-b pb-2">
                 <h3 className="font-semibold text-gray-800 flex items-center gap-2">
@@ -561,9 +984,38 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
                 </div>
               </div>
 
+              {selectedNode.data.citation && (
+                <div className="mb-4">
+                  <label className="block text-xs font-medium text-gray-500 mb-1">Source</label>
+                  <SourceCitation citation={selectedNode.data.citation} />
+                </div>
+              )}
+
               {/* AI Actions */}
               <div className="mb-4">
                 <p className="text-xs font-medium text-blue-600 mb-2 uppercase tracking-wider">AI Assist</p>
+                <div className="flex items-center gap-2 mb-2 text-xs text-gray-500">
+                  <label className="flex items-center gap-1">
+                    Depth
+                    <select
+                      value={drillOptions.depth}
+                      onChange={(e) => setDrillOptions(prev => ({ ...prev, depth: Number(e.target.value) }))}
+                      className="border border-gray-300 rounded px-1 py-0.5 text-gray-700 bg-white"
+                    >
+                      {DRILL_DEPTHS.map(d => <option key={d} value={d}>{d} {d === 1 ? 'level' : 'levels'}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex items-center gap-1">
+                    Nodes
+                    <select
+                      value={drillOptions.count}
+                      onChange={(e) => setDrillOptions(prev => ({ ...prev, count: Number(e.target.value) }))}
+                      className="border border-gray-300 rounded px-1 py-0.5 text-gray-700 bg-white"
+                    >
+                      {DRILL_COUNTS.map(c => <option key={c} value={c}>~{c}</option>)}
+                    </select>
+                  </label>
+                </div>
                 <div className="grid grid-cols-2 gap-2">
                   <button 
                       onClick={handleDrillDown}
@@ -595,6 +1047,22 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
                       <CornerDownRight size={16} className="text-gray-400" />
                       Add Child Node
                   </button>
+                  <button 
+                      onClick={handleSelectSubtree}
+                      title="Select this node and everything below it for AI actions on the set"
+                      className="w-full flex items-center justify-start gap-2 text-gray-700 hover:bg-gray-50 p-2 rounded text-sm transition-colors"
+                  >
+                      <BoxSelect size={16} className="text-gray-400" />
+                      Select Subtree
+                  </button>
+                  <button 
+                      onClick={handleTogglePin}
+                      title="Pinned nodes keep their position when the layout is re-run"
+                      className="w-full flex items-center justify-start gap-2 text-gray-700 hover:bg-gray-50 p-2 rounded text-sm transition-colors"
+                  >
+                      {selectedNode.data.pinned ? <PinOff size={16} className="text-gray-400" /> : <Pin size={16} className="text-gray-400" />}
+                      {selectedNode.data.pinned ? 'Unpin Position' : 'Pin Position'}
+                  </button>
                   <div className="h-px bg-gray-100 my-1"></div>
                   <button 
                       onClick={handleDeleteNode}
@@ -608,37 +1076,46 @@ const DiagramView: React.FC<DiagramViewProps> = ({ initialNodes, initialEdges, d
             </Panel>
           )}
 
+          {showPdfDialog && (
+            <div className="absolute inset-0 flex items-center justify-center z-50 pointer-events-none">
+              <PdfExportDialog
+                hasDetails={nodes.some(n => !!n.data.details)}
+                onExport={handleExportPDF}
+                onClose={() => setShowPdfDialog(false)}
+              />
+            </div>
+          )}
+
           {/* Detail View Modal Overlay */}
           {nodeDetails && (
             <div className="absolute inset-0 flex items-center justify-center z-50 pointer-events-none">
-              <div className="bg-white p-6 rounded-xl shadow-2xl border border-gray-200 max-w-md w-full mx-4 pointer-events-auto">
-                  <div className="flex justify-between items-center mb-4 border-b pb-2">
-                      <h3 className="text-lg font-bold text-gray-800">{nodeDetails.title}</h3>
-                      <button onClick={() => setNodeDetails(null)} className="p-1 rounded-full hover:bg-gray-100">
-                          <X size={20} className="text-gray-500" />
-                      </button>
-                  </div>
-                  <ul className="space-y-3">
-                      {nodeDetails.points.map((point, idx) => (
-                          <li key={idx} className="flex items-start gap-2 text-gray-600 text-sm leading-relaxed">
-                              <span className="mt-1.5 w-1.5 h-1.5 bg-blue-500 rounded-full shrink-0"></span>
-                              {point}
-                          </li>
-                      ))}
-                  </ul>
-                  <div className="mt-6 flex justify-end">
-                      <button 
-                        onClick={() => setNodeDetails(null)}
-                        className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md text-sm font-medium"
-                      >
-                          Close
-                      </button>
-                  </div>
-              </div>
+              <NodeDetailsModal
+                key={nodeDetails.nodeId}
+                title={nodeDetails.title}
+                citation={nodeDetails.citation}
+                detail={nodes.find(n => n.id === nodeDetails.nodeId)?.data.detailPoints}
+                loading={loadingAction === 'Fetching details...'}
+                onGenerate={handleRegenerateDetails}
+                onSave={handleSaveDetailPoints}
+                onClose={() => setNodeDetails(null)}
+              />
             </div>
           )}
         </ReactFlow>
       </div>
+
+      {showChat && (
+        <ChatPanel
+          messages={chat}
+          sending={chatSending}
+          reviewing={!!pendingDiff}
+          busy={isUpdating || !!selectionAction}
+          onSend={handleChatSend}
+          onShowChange={handleShowChange}
+          onClose={() => setShowChat(false)}
+        />
+      )}
+      </div>
     </div>
   );
 };
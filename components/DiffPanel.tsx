@@ -0,0 +1,76 @@
+import React from 'react';
+import { GraphChange, describeChange } from '../utils/diff';
+import { GitCompare, Check, X, AlertTriangle } from 'lucide-react';
+
+interface DiffPanelProps {
+  prompt: string;
+  warnings: string[];
+  changes: GraphChange[];
+  accepted: Set<string>;
+  labelOf: (id: string) => string;
+  onToggle: (changeId: string) => void;
+  onAcceptAll: () => void;
+  onRejectAll: () => void;
+  onApply: () => void;
+}
+
+const KIND_STYLES: Record<GraphChange['kind'], string> = {
+  addNode: 'bg-green-500',
+  addEdge: 'bg-green-500',
+  removeNode: 'bg-red-500',
+  removeEdge: 'bg-red-500',
+  updateNode: 'bg-amber-500'
+};
+
+const DiffPanel: React.FC<DiffPanelProps> = ({ prompt, warnings, changes, accepted, labelOf, onToggle, onAcceptAll, onRejectAll, onApply }) => (
+  <div className="bg-white p-4 rounded-lg shadow-xl border border-gray-200 w-80 max-h-[75vh] flex flex-col">
+    <div className="mb-3 border-b pb-2">
+      <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+        <GitCompare size={16} className="text-gray-500" /> Review AI Changes
+      </h3>
+      <p className="text-xs text-gray-500 mt-1 truncate" title={prompt}>"{prompt}"</p>
+    </div>
+
+    {warnings.length > 0 && (
+      <div className="mb-3 bg-amber-50 border border-amber-200 rounded p-2 text-xs text-amber-800">
+        <p className="font-medium flex items-center gap-1"><AlertTriangle size={12} /> Response repaired</p>
+        <ul className="list-disc list-inside mt-1 space-y-0.5">
+          {warnings.map((w, idx) => <li key={idx}>{w}</li>)}
+        </ul>
+      </div>
+    )}
+
+    <ul className="overflow-y-auto space-y-1 flex-1">
+      {changes.map((change, idx) => (
+        // Later changes of a group are indented under its first; they toggle together
+        <li key={change.id} className={change.group && changes[idx - 1]?.group === change.group ? 'ml-5' : undefined}>
+          <label className="flex items-start gap-2 px-2 py-1.5 rounded text-sm text-gray-700 hover:bg-gray-50 cursor-pointer">
+            <input type="checkbox" checked={accepted.has(change.id)} onChange={() => onToggle(change.id)} className="mt-1" />
+            <span className={`mt-1.5 w-2 h-2 rounded-full shrink-0 ${KIND_STYLES[change.kind]}`}></span>
+            <span className="break-words">{describeChange(change, labelOf)}</span>
+          </label>
+        </li>
+      ))}
+    </ul>
+
+    <div className="flex flex-col gap-2 mt-3 pt-3 border-t">
+      <button
+        onClick={onApply}
+        disabled={accepted.size === 0}
+        className="flex items-center justify-center gap-1.5 text-sm px-3 py-1.5 rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:opacity-50"
+      >
+        <Check size={14} /> Apply selected ({accepted.size} of {changes.length})
+      </button>
+      <div className="flex gap-2">
+        <button onClick={onAcceptAll} className="flex-1 text-xs px-2 py-1.5 rounded bg-green-50 text-green-700 border border-green-200 hover:bg-green-100">
+          Accept all
+        </button>
+        <button onClick={onRejectAll} className="flex-1 flex items-center justify-center gap-1 text-xs px-2 py-1.5 rounded bg-red-50 text-red-700 border border-red-200 hover:bg-red-100">
+          <X size={12} /> Reject all
+        </button>
+      </div>
+    </div>
+  </div>
+);
+
+export default DiffPanel;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { HistoryEntry } from '../hooks/useDiagramHistory';
+import { History, X, Undo2, Redo2 } from 'lucide-react';
+
+interface HistoryPanelProps {
+  entries: HistoryEntry[];
+  index: number;
+  canUndo: boolean;
+  canRedo: boolean;
+  onUndo: () => void;
+  onRedo: () => void;
+  onJump: (index: number) => void;
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString(undefined, { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ entries, index, canUndo, canRedo, onUndo, onRedo, onJump, onClose }) => (
+  <div className="bg-white p-4 rounded-lg shadow-xl border border-gray-200 w-72 max-h-[70vh] flex flex-col">
+    <div className="flex justify-between items-center mb-3 border-b pb-2">
+      <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+        <History size={16} className="text-gray-500" /> History
+      </h3>
+      <div className="flex items-center gap-1">
+        <button onClick={onUndo} disabled={!canUndo} title="Undo (Ctrl+Z)" className="p-1 rounded text-gray-500 hover:bg-gray-100 disabled:opacity-30">
+          <Undo2 size={16} />
+        </button>
+        <button onClick={onRedo} disabled={!canRedo} title="Redo (Ctrl+Shift+Z)" className="p-1 rounded text-gray-500 hover:bg-gray-100 disabled:opacity-30">
+          <Redo2 size={16} />
+        </button>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600">
+          <X size={16} />
+        </button>
+      </div>
+    </div>
+    <ol className="overflow-y-auto space-y-1">
+      {entries.map((entry, idx) => (
+        <li key={entry.id}>
+          <button
+            onClick={() => onJump(idx)}
+            className={`w-full text-left px-2 py-1.5 rounded text-sm transition-colors ${
+              idx === index
+                ? 'bg-blue-50 text-blue-700 font-medium'
+                : idx > index
+                  ? 'text-gray-400 hover:bg-gray-50'
+                  : 'text-gray-700 hover:bg-gray-50'
+            }`}
+          >
+            <span className="block truncate">{entry.label}</span>
+            <span className="block text-xs text-gray-400">{formatTime(entry.timestamp)}</span>
+          </button>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+export default HistoryPanel;
@@ -0,0 +1,211 @@
+import React from 'react';
+import { DiagramType, SavedDiagramSummary } from '../types';
+import { listDiagrams, getDiagram, renameDiagram, duplicateDiagram, deleteDiagram } from '../services/storage';
+import { DrawIOPage, toDrawIO } from '../utils/drawio';
+import { FolderOpen, Copy, Trash2, Edit3, Check, X, Loader2, Upload, PenTool } from 'lucide-react';
+
+interface LibraryProps {
+  onOpen: (id: string) => void;
+  onImport: (file: File, type: DiagramType | null) => Promise<void>;
+}
+
+const IMPORT_ACCEPT = '.json,.drawio,.xml,.md,.markdown,.txt,.sql,.mmd,.mermaid,.opml,.mm';
+
+const formatDate = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' });
+
+const Library: React.FC<LibraryProps> = ({ onOpen, onImport }) => {
+  const [diagrams, setDiagrams] = React.useState<SavedDiagramSummary[]>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [error, setError] = React.useState<string | null>(null);
+  const [renamingId, setRenamingId] = React.useState<string | null>(null);
+  const [renameValue, setRenameValue] = React.useState('');
+  const [importType, setImportType] = React.useState<DiagramType | ''>('');
+  const [importing, setImporting] = React.useState(false);
+  const [exporting, setExporting] = React.useState(false);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+
+  const refresh = React.useCallback(async () => {
+    try {
+      setDiagrams(await listDiagrams());
+      setError(null);
+    } catch (err) {
+      console.error("Library Error:", err);
+      setError(`Could not load saved diagrams: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  React.useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  const startRename = (diagram: SavedDiagramSummary) => {
+    setRenamingId(diagram.id);
+    setRenameValue(diagram.title);
+  };
+
+  const commitRename = async () => {
+    if (!renamingId) return;
+    const title = renameValue.trim();
+    try {
+      if (title) await renameDiagram(renamingId, title);
+      setRenamingId(null);
+      refresh();
+    } catch (err) {
+      console.error("Rename Error:", err);
+      setError(`Could not rename the diagram: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicateDiagram(id);
+      refresh();
+    } catch (err) {
+      console.error("Duplicate Error:", err);
+      setError(`Could not duplicate the diagram: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleDelete = async (diagram: SavedDiagramSummary) => {
+    if (!window.confirm(`Delete "${diagram.title}"? This cannot be undone.`)) return;
+    try {
+      await deleteDiagram(diagram.id);
+      refresh();
+    } catch (err) {
+      console.error("Delete Error:", err);
+      setError(`Could not delete the diagram: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleFileChosen = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-importing the same file
+    if (!file) return;
+    setImporting(true);
+    try {
+      await onImport(file, importType || null);
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  // One draw.io page per saved diagram
+  const handleExportAll = async () => {
+    setExporting(true);
+    try {
+      const saved = await Promise.all(diagrams.map(d => getDiagram(d.id)));
+      const pages: DrawIOPage[] = saved
+        .filter((d): d is NonNullable<typeof d> => !!d)
+        .map(d => ({ name: d.title, diagramType: d.type, nodes: d.nodes, edges: d.edges }));
+      const file = await toDrawIO(pages);
+      const a = document.createElement('a');
+      a.href = URL.createObjectURL(new Blob([file], { type: 'application/xml' }));
+      a.download = 'diagrams.drawio';
+      a.click();
+    } catch (err) {
+      console.error("Library Error:", err);
+      alert("Could not export the library to Draw.io.");
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-3xl mx-auto px-6 pb-12">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="text-xl font-semibold text-gray-800 flex items-center gap-2">
+          <FolderOpen size={20} className="text-gray-500" /> Your Diagrams
+        </h2>
+        <div className="flex items-center gap-2">
+          <select
+            value={importType}
+            onChange={(e) => setImportType(e.target.value as DiagramType | '')}
+            className="border border-gray-300 rounded-md px-2 py-1.5 text-sm text-gray-700 bg-white"
+            title="Diagram type for imported files"
+          >
+            <option value="">Auto-detect type</option>
+            {Object.values(DiagramType).map(type => <option key={type} value={type}>{type}</option>)}
+          </select>
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importing}
+            className="flex items-center gap-2 px-3 py-1.5 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 transition-colors"
+          >
+            {importing ? <Loader2 className="animate-spin" size={14} /> : <Upload size={14} />} Import
+          </button>
+          <button
+            onClick={handleExportAll}
+            disabled={exporting || diagrams.length === 0}
+            title="Export every saved diagram as a page of one .drawio file"
+            className="flex items-center gap-2 px-3 py-1.5 text-sm bg-white border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 transition-colors"
+          >
+            {exporting ? <Loader2 className="animate-spin" size={14} /> : <PenTool size={14} />} Export all
+          </button>
+          <input ref={fileInputRef} type="file" accept={IMPORT_ACCEPT} onChange={handleFileChosen} className="hidden" />
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 mb-4">{error}</p>}
+
+      {loading ? (
+        <div className="flex items-center gap-2 text-gray-500 text-sm">
+          <Loader2 className="animate-spin" size={16} /> Loading library...
+        </div>
+      ) : diagrams.length === 0 ? (
+        !error && <p className="text-sm text-gray-500">No saved diagrams yet. Generated diagrams are saved here automatically.</p>
+      ) : (
+        <ul className="bg-white rounded-2xl shadow-sm border border-gray-100 divide-y divide-gray-100">
+          {diagrams.map((diagram) => (
+            <li key={diagram.id} className="flex items-center gap-4 px-5 py-3 hover:bg-gray-50">
+              <div className="flex-1 min-w-0">
+                {renamingId === diagram.id ? (
+                  <div className="flex gap-2">
+                    <input
+                      autoFocus
+                      type="text"
+                      value={renameValue}
+                      onChange={(e) => setRenameValue(e.target.value)}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') commitRename();
+                        if (e.key === 'Escape') setRenamingId(null);
+                      }}
+                      className="flex-1 border border-gray-300 rounded px-2 py-1 text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none"
+                    />
+                    <button onClick={commitRename} className="p-1 text-green-600 hover:bg-green-50 rounded"><Check size={16} /></button>
+                    <button onClick={() => setRenamingId(null)} className="p-1 text-gray-400 hover:bg-gray-100 rounded"><X size={16} /></button>
+                  </div>
+                ) : (
+                  <button onClick={() => onOpen(diagram.id)} className="text-left w-full">
+                    <p className="font-medium text-gray-800 truncate">{diagram.title}</p>
+                    <p className="text-xs text-gray-500 mt-0.5">
+                      <span className="bg-blue-100 text-blue-700 px-1.5 py-0.5 rounded mr-2">{diagram.type}</span>
+                      {diagram.nodeCount} nodes · Edited {formatDate(diagram.updatedAt)}
+                    </p>
+                  </button>
+                )}
+              </div>
+              {renamingId !== diagram.id && (
+                <div className="flex gap-1 shrink-0">
+                  <button onClick={() => startRename(diagram)} title="Rename" className="p-2 text-gray-500 hover:bg-gray-100 rounded">
+                    <Edit3 size={16} />
+                  </button>
+                  <button onClick={() => handleDuplicate(diagram.id)} title="Duplicate" className="p-2 text-gray-500 hover:bg-gray-100 rounded">
+                    <Copy size={16} />
+                  </button>
+                  <button onClick={() => handleDelete(diagram)} title="Delete" className="p-2 text-red-500 hover:bg-red-50 rounded">
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default Library;
@@ -0,0 +1,137 @@
+import React from 'react';
+import { Edit3, Loader2, RefreshCw, X } from 'lucide-react';
+import { Citation, DetailAngle, DetailDepth, DetailPoints } from '../types';
+import SourceCitation from './SourceCitation';
+
+interface NodeDetailsModalProps {
+  title: string;
+  citation?: Citation;
+  detail?: DetailPoints; // Saved points, if any
+  loading: boolean;
+  onGenerate: (angle: DetailAngle, depth: DetailDepth) => void;
+  onSave: (points: string[]) => void;
+  onClose: () => void;
+}
+
+const DETAIL_ANGLES: { id: DetailAngle; label: string }[] = [
+  { id: 'overview', label: 'Overview' },
+  { id: 'prosCons', label: 'Pros & cons' },
+  { id: 'examples', label: 'Examples' },
+  { id: 'technical', label: 'Technical' }
+];
+
+const DETAIL_DEPTHS: { id: DetailDepth; label: string }[] = [
+  { id: 'brief', label: 'Brief' },
+  { id: 'standard', label: 'Standard' },
+  { id: 'deep', label: 'In depth' }
+];
+
+/**
+ * Shows a node's saved detail points. They can be edited by hand (one point per line) or
+ * regenerated with another angle or depth.
+ */
+const NodeDetailsModal: React.FC<NodeDetailsModalProps> = ({ title, citation, detail, loading, onGenerate, onSave, onClose }) => {
+  const [angle, setAngle] = React.useState<DetailAngle>(detail?.angle || 'overview');
+  const [depth, setDepth] = React.useState<DetailDepth>(detail?.depth || 'standard');
+  const [draft, setDraft] = React.useState<string | null>(null); // Set while editing
+
+  const handleGenerate = () => {
+    if (detail?.edited && !window.confirm("Regenerating replaces your edited points. Continue?")) return;
+    setDraft(null);
+    onGenerate(angle, depth);
+  };
+
+  const handleSave = () => {
+    onSave((draft || '').split('\n').map(line => line.trim()).filter(Boolean));
+    setDraft(null);
+  };
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-2xl border border-gray-200 max-w-md w-full mx-4 pointer-events-auto">
+      <div className="flex justify-between items-center mb-4 border-b pb-2">
+        <h3 className="text-lg font-bold text-gray-800">{title}</h3>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100">
+          <X size={20} className="text-gray-500" />
+        </button>
+      </div>
+
+      {draft !== null ? (
+        <div>
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent h-48 text-sm"
+          />
+          <p className="text-xs text-gray-500 mt-1">One point per line.</p>
+          <div className="flex justify-end gap-2 mt-2">
+            <button onClick={() => setDraft(null)} className="text-sm text-gray-600 hover:text-gray-800 px-3">Cancel</button>
+            <button onClick={handleSave} className="text-sm bg-blue-600 text-white px-3 py-1.5 rounded-md hover:bg-blue-700">Save Points</button>
+          </div>
+        </div>
+      ) : loading ? (
+        <div className="flex items-center justify-center gap-2 text-sm text-gray-500 py-8">
+          <Loader2 className="animate-spin" size={16} /> Generating details...
+        </div>
+      ) : detail ? (
+        <>
+          <ul className="space-y-3 max-h-[50vh] overflow-y-auto">
+            {detail.points.map((point, idx) => (
+              <li key={idx} className="flex items-start gap-2 text-gray-600 text-sm leading-relaxed">
+                <span className="mt-1.5 w-1.5 h-1.5 bg-blue-500 rounded-full shrink-0"></span>
+                {point}
+              </li>
+            ))}
+          </ul>
+          <div className="flex justify-between items-center mt-3 text-xs text-gray-400">
+            <span>{detail.edited ? 'Edited' : `${DETAIL_ANGLES.find(a => a.id === detail.angle)?.label} · ${DETAIL_DEPTHS.find(d => d.id === detail.depth)?.label}`}</span>
+            <button onClick={() => setDraft(detail.points.join('\n'))} className="flex items-center gap-1 text-blue-600 hover:text-blue-800">
+              <Edit3 size={12} /> Edit
+            </button>
+          </div>
+        </>
+      ) : (
+        <p className="text-sm text-gray-500 py-6 text-center">No details yet. Pick an angle and depth below and regenerate.</p>
+      )}
+
+      {citation && (
+        <div className="mt-4">
+          <SourceCitation citation={citation} />
+        </div>
+      )}
+
+      <div className="mt-6 pt-4 border-t flex items-center gap-2">
+        <select
+          value={angle}
+          onChange={(e) => setAngle(e.target.value as DetailAngle)}
+          title="Angle"
+          className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-700 bg-white"
+        >
+          {DETAIL_ANGLES.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+        </select>
+        <select
+          value={depth}
+          onChange={(e) => setDepth(e.target.value as DetailDepth)}
+          title="Depth"
+          className="border border-gray-300 rounded-md px-2 py-1 text-sm text-gray-700 bg-white"
+        >
+          {DETAIL_DEPTHS.map(d => <option key={d.id} value={d.id}>{d.label}</option>)}
+        </select>
+        <button
+          onClick={handleGenerate}
+          disabled={loading || draft !== null}
+          className="flex items-center gap-1.5 px-3 py-1.5 text-sm text-purple-700 bg-purple-50 border border-purple-200 rounded-md hover:bg-purple-100 disabled:opacity-50"
+        >
+          {loading ? <Loader2 className="animate-spin" size={14} /> : <RefreshCw size={14} />} Regenerate
+        </button>
+        <button
+          onClick={onClose}
+          className="ml-auto px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md text-sm font-medium"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default NodeDetailsModal;
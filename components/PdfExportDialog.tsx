@@ -0,0 +1,84 @@
+import React from 'react';
+import { FileText, X } from 'lucide-react';
+import { PDF_PAGE_SIZES, PdfExportOptions } from '../utils/pdf';
+
+interface PdfExportDialogProps {
+  hasDetails: boolean;
+  onExport: (options: PdfExportOptions) => void;
+  onClose: () => void;
+}
+
+const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ hasDetails, onExport, onClose }) => {
+  const [options, setOptions] = React.useState<PdfExportOptions>({
+    pageSize: 'a4',
+    mode: 'fit',
+    titlePage: false,
+    detailsAppendix: hasDetails
+  });
+  const update = (patch: Partial<PdfExportOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  return (
+    <div className="bg-white p-6 rounded-xl shadow-2xl border border-gray-200 max-w-sm w-full mx-4 pointer-events-auto">
+      <div className="flex justify-between items-center mb-4 border-b pb-2">
+        <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+          <FileText size={18} className="text-red-500" /> Export PDF
+        </h3>
+        <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100">
+          <X size={20} className="text-gray-500" />
+        </button>
+      </div>
+
+      <div className="space-y-4 text-sm text-gray-700">
+        <div>
+          <p className="text-xs font-medium text-gray-500 mb-1">Page size</p>
+          <div className="flex gap-2">
+            {PDF_PAGE_SIZES.map(size => (
+              <button
+                key={size.id}
+                onClick={() => update({ pageSize: size.id })}
+                className={`flex-1 px-3 py-1.5 rounded border ${options.pageSize === size.id ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 hover:bg-gray-50'}`}
+              >
+                {size.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-gray-500 mb-1">Diagram pages</p>
+          <label className="flex items-start gap-2 py-1 cursor-pointer">
+            <input type="radio" checked={options.mode === 'fit'} onChange={() => update({ mode: 'fit' })} className="mt-1" />
+            <span>Scale to fit one page</span>
+          </label>
+          <label className="flex items-start gap-2 py-1 cursor-pointer">
+            <input type="radio" checked={options.mode === 'tile'} onChange={() => update({ mode: 'tile' })} className="mt-1" />
+            <span>Actual size, tiled across pages</span>
+          </label>
+        </div>
+
+        <div>
+          <p className="text-xs font-medium text-gray-500 mb-1">Include</p>
+          <label className="flex items-center gap-2 py-1 cursor-pointer">
+            <input type="checkbox" checked={options.titlePage} onChange={(e) => update({ titlePage: e.target.checked })} />
+            Title page
+          </label>
+          <label className="flex items-center gap-2 py-1 cursor-pointer">
+            <input type="checkbox" checked={options.detailsAppendix} onChange={(e) => update({ detailsAppendix: e.target.checked })} />
+            Node details appendix
+          </label>
+        </div>
+      </div>
+
+      <div className="mt-6 flex justify-end gap-2">
+        <button onClick={onClose} className="px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md text-sm font-medium">
+          Cancel
+        </button>
+        <button onClick={() => onExport(options)} className="px-4 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm font-medium">
+          Export
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PdfExportDialog;
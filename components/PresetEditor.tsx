@@ -0,0 +1,123 @@
+import React from 'react';
+import { SlidersHorizontal, X } from 'lucide-react';
+import { DiagramType } from '../types';
+import type { AIOperation } from '../services/providers';
+import { customizePreset, PromptPreset, PromptTemplate, resolveTemplate, TEMPLATE_VARIABLES } from '../services/prompts';
+
+interface PresetEditorProps {
+  base: PromptPreset;
+  diagramType: DiagramType;
+  onSave: (preset: ReturnType<typeof customizePreset>) => void;
+  onClose: () => void;
+}
+
+const OPERATIONS: { id: AIOperation; label: string }[] = [
+  { id: 'generate', label: 'Generate' },
+  { id: 'update', label: 'Update' },
+  { id: 'drillDown', label: 'Drill down' },
+  { id: 'details', label: 'Details' },
+  { id: 'transform', label: 'Selection' },
+  { id: 'chat', label: 'Chat' }
+];
+
+// Templates keep their source indentation; show them flush left for editing
+const dedent = (text: string) => text.split('\n').map(line => line.replace(/^ {4}/, '')).join('\n').trim();
+
+/**
+ * Edits a copy of a preset's prompts for one diagram type and saves it as a custom preset.
+ */
+const PresetEditor: React.FC<PresetEditorProps> = ({ base, diagramType, onSave, onClose }) => {
+  const [name, setName] = React.useState(base.builtIn ? `${base.name} (custom)` : base.name);
+  const [operation, setOperation] = React.useState<AIOperation>('generate');
+  const [drafts, setDrafts] = React.useState(() => Object.fromEntries(OPERATIONS.map(({ id }) => {
+    const template = resolveTemplate(base, id, diagramType);
+    return [id, { system: template.system || '', prompt: dedent(template.prompt) }];
+  })) as Record<AIOperation, PromptTemplate>);
+  // Untouched tabs save the original template, so dedenting alone doesn't count as an edit
+  const originals = React.useRef(drafts);
+
+  const draft = drafts[operation];
+  const update = (patch: Partial<PromptTemplate>) => setDrafts(prev => ({ ...prev, [operation]: { ...prev[operation], ...patch } }));
+
+  const handleSave = () => {
+    const edited = Object.fromEntries(OPERATIONS.map(({ id }) => {
+      const unchanged = drafts[id] === originals.current[id];
+      return [id, unchanged ? resolveTemplate(base, id, diagramType) : drafts[id]];
+    })) as Record<AIOperation, PromptTemplate>;
+    onSave(customizePreset(base, name.trim(), diagramType, edited));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/40 flex items-center justify-center z-50">
+      <div className="bg-white p-6 rounded-xl shadow-2xl border border-gray-200 max-w-2xl w-full mx-4 max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4 border-b pb-2">
+          <h3 className="text-lg font-bold text-gray-800 flex items-center gap-2">
+            <SlidersHorizontal size={18} className="text-blue-600" /> Customize Prompts
+          </h3>
+          <button onClick={onClose} className="p-1 rounded-full hover:bg-gray-100">
+            <X size={20} className="text-gray-500" />
+          </button>
+        </div>
+
+        <div className="space-y-4 text-sm text-gray-700">
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Preset name</label>
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Edits apply to {diagramType} diagrams; other types keep the prompts of {base.name}.
+            </p>
+          </div>
+
+          <div className="flex gap-2">
+            {OPERATIONS.map(op => (
+              <button
+                key={op.id}
+                onClick={() => setOperation(op.id)}
+                className={`flex-1 px-3 py-1.5 rounded border ${operation === op.id ? 'border-blue-500 bg-blue-50 text-blue-700' : 'border-gray-200 hover:bg-gray-50'}`}
+              >
+                {op.label}
+              </button>
+            ))}
+          </div>
+
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">System instruction</label>
+            <textarea
+              value={draft.system}
+              onChange={(e) => update({ system: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent h-20"
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-500 mb-1">Prompt</label>
+            <textarea
+              value={draft.prompt}
+              onChange={(e) => update({ prompt: e.target.value })}
+              className="w-full p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent h-64 font-mono text-xs"
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              Variables: {TEMPLATE_VARIABLES[operation].map(v => <code key={v} className="mr-2 bg-gray-100 px-1 rounded">{`{{${v}}}`}</code>)}
+            </p>
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-3 mt-6">
+          <button onClick={onClose} className="text-gray-600 hover:text-gray-800 px-4">Cancel</button>
+          <button
+            onClick={handleSave}
+            disabled={!name.trim() || OPERATIONS.some(op => !drafts[op.id].prompt.trim())}
+            className="bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
+          >
+            Save Preset
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PresetEditor;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { BoxSelect, Combine, Expand, GitMerge, Group, Loader2, SpellCheck, X } from 'lucide-react';
+import { SELECTION_ACTIONS, SelectionAction } from '../utils/selection';
+
+interface SelectionPanelProps {
+  count: number;
+  runningAction: SelectionAction | null;
+  busy: boolean; // Another AI edit is being prepared
+  onAction: (action: SelectionAction) => void;
+  onClear: () => void;
+}
+
+const ACTION_ICONS: Record<SelectionAction, React.ReactNode> = {
+  summarize: <Combine size={16} />,
+  merge: <GitMerge size={16} />,
+  regroup: <Group size={16} />,
+  expandLeaves: <Expand size={16} />,
+  rewriteLabels: <SpellCheck size={16} />
+};
+
+/**
+ * AI actions for several selected nodes (Shift-drag or Ctrl/Cmd-click). Each proposes
+ * changes for review in the DiffPanel.
+ */
+const SelectionPanel: React.FC<SelectionPanelProps> = ({ count, runningAction, busy, onAction, onClear }) => (
+  <div className="bg-white p-4 rounded-lg shadow-xl border border-gray-200 w-80">
+    <div className="flex justify-between items-start mb-3 border-b pb-2">
+      <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+        <BoxSelect size={16} className="text-gray-500" />
+        {count} Nodes Selected
+      </h3>
+      <button onClick={onClear} title="Clear selection" className="text-gray-400 hover:text-gray-600">
+        <X size={16} />
+      </button>
+    </div>
+
+    <p className="text-xs font-medium text-blue-600 mb-2 uppercase tracking-wider">AI Assist</p>
+    <div className="flex flex-col gap-1">
+      {SELECTION_ACTIONS.map(action => (
+        <button
+          key={action.id}
+          onClick={() => onAction(action.id)}
+          disabled={!!runningAction || busy}
+          title={action.description}
+          className="w-full flex items-center justify-start gap-2 text-gray-700 hover:bg-blue-50 p-2 rounded text-sm transition-colors disabled:opacity-50"
+        >
+          <span className="text-blue-600">
+            {runningAction === action.id ? <Loader2 className="animate-spin" size={16} /> : ACTION_ICONS[action.id]}
+          </span>
+          {action.label}
+        </button>
+      ))}
+    </div>
+  </div>
+);
+
+export default SelectionPanel;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { BookOpen } from 'lucide-react';
+import { Citation } from '../types';
+
+/**
+ * The source passage behind a node generated from uploaded documents.
+ */
+const SourceCitation: React.FC<{ citation: Citation }> = ({ citation }) => (
+  <div className="bg-gray-50 border border-gray-200 rounded p-2 text-xs">
+    <p className="flex items-center gap-1 font-medium text-gray-600 mb-1">
+      <BookOpen size={12} className="shrink-0" />
+      <span className="truncate">{citation.document}{citation.location ? `, ${citation.location}` : ''}</span>
+    </p>
+    <blockquote className="border-l-2 border-blue-300 pl-2 text-gray-500 italic">“{citation.quote}”</blockquote>
+  </div>
+);
+
+export default SourceCitation;
@@ -0,0 +1,75 @@
+import React, { useEffect } from 'react';
+import ReactFlow, { Background, Panel, useReactFlow } from 'reactflow';
+import { Loader2, Square } from 'lucide-react';
+import { DiagramType, GraphData } from '../types';
+import { EDGE_TYPES } from './edges';
+import { NODE_TYPES } from './nodes';
+
+interface StreamingCanvasProps {
+  preview: GraphData;
+  diagramType: DiagramType;
+  providerLabel: string;
+  onCancel: () => void;
+}
+
+// Re-fits the viewport once React Flow has measured each new batch of nodes
+const FitOnUpdate: React.FC<{ nodeCount: number }> = ({ nodeCount }) => {
+  const { fitView } = useReactFlow();
+  useEffect(() => {
+    const frame = requestAnimationFrame(() => fitView({ padding: 0.2, duration: 300 }));
+    return () => cancelAnimationFrame(frame);
+  }, [nodeCount, fitView]);
+  return null;
+};
+
+/**
+ * Read-only canvas shown while a diagram streams in. Nodes appear as they are generated;
+ * cancelling keeps what has arrived so far.
+ */
+const StreamingCanvas: React.FC<StreamingCanvasProps> = ({ preview, diagramType, providerLabel, onCancel }) => {
+  const nodeCount = preview.nodes.length;
+
+  return (
+    <div className="w-full h-screen flex flex-col">
+      <div className="bg-white border-b px-4 py-3 flex items-center justify-between shadow-sm z-10">
+        <div className="flex items-center gap-3 text-gray-700">
+          <Loader2 size={18} className="animate-spin text-blue-600" />
+          <span className="font-medium">Generating your {diagramType} with {providerLabel}...</span>
+          <span className="text-sm text-gray-500">
+            {nodeCount} nodes, {preview.edges.length} connections so far
+          </span>
+        </div>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-2 px-4 py-2 bg-gray-100 hover:bg-gray-200 text-gray-700 rounded-md text-sm font-medium"
+        >
+          <Square size={14} /> {nodeCount > 0 ? `Stop and keep ${nodeCount} nodes` : 'Cancel'}
+        </button>
+      </div>
+
+      <div className="flex-grow relative">
+        <ReactFlow
+          nodes={preview.nodes}
+          edges={preview.edges}
+          nodeTypes={NODE_TYPES}
+          edgeTypes={EDGE_TYPES}
+          nodesDraggable={false}
+          nodesConnectable={false}
+          elementsSelectable={false}
+          fitView
+          attributionPosition="bottom-right"
+        >
+          <Background color="#aaa" gap={16} />
+          <FitOnUpdate nodeCount={nodeCount} />
+          {nodeCount === 0 && (
+            <Panel position="top-center" className="text-gray-500 animate-pulse mt-24">
+              Waiting for the first nodes...
+            </Panel>
+          )}
+        </ReactFlow>
+      </div>
+    </div>
+  );
+};
+
+export default StreamingCanvas;
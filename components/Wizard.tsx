@@ -1,30 +1,114 @@
 import React from 'react';
 import { DiagramType, LayoutStyle } from '../types';
-import { ArrowRight, Activity, Database, Network, FileText, Users } from 'lucide-react';
+import { ArrowRight, Activity, Database, Network, FileText, Users, Paperclip, X, Loader2, Table, SlidersHorizontal, Trash2 } from 'lucide-react';
+import { getProviderLabel } from '../services/providers';
+import { BUILT_IN_PRESETS, customizePreset, getActivePreset, PromptPreset } from '../services/prompts';
+import { deletePreset, listPresets, savePreset } from '../services/storage';
+import { getSupportedLayouts } from '../utils/layout';
+import { DOCUMENT_ACCEPT, documentLength, extractDocument, SourceDocument } from '../utils/documents';
+import { STRUCTURED_DATA_ACCEPT } from '../utils/generators';
+import PresetEditor from './PresetEditor';
 
 interface WizardProps {
-  onSubmit: (type: DiagramType, desc: string, layout: LayoutStyle, data: string) => void;
+  onSubmit: (type: DiagramType, desc: string, layout: LayoutStyle, data: string, documents: SourceDocument[], preset: PromptPreset) => void;
+  onBuildFromData: (file: File) => void;
   loading: boolean;
 }
 
-const Wizard: React.FC<WizardProps> = ({ onSubmit, loading }) => {
+const Wizard: React.FC<WizardProps> = ({ onSubmit, onBuildFromData, loading }) => {
   const [step, setStep] = React.useState(1);
   const [selectedType, setSelectedType] = React.useState<DiagramType | null>(null);
   const [description, setDescription] = React.useState('');
   const [detailData, setDetailData] = React.useState('');
   const [selectedLayout, setSelectedLayout] = React.useState<LayoutStyle>(LayoutStyle.TREE);
+  const [documents, setDocuments] = React.useState<SourceDocument[]>([]);
+  const [extracting, setExtracting] = React.useState(false);
+  const fileInputRef = React.useRef<HTMLInputElement>(null);
+  const dataInputRef = React.useRef<HTMLInputElement>(null);
+  const [customPresets, setCustomPresets] = React.useState<PromptPreset[]>([]);
+  const [presetId, setPresetId] = React.useState(() => getActivePreset().id);
+  const [editingPreset, setEditingPreset] = React.useState(false);
+
+  const presets = [...BUILT_IN_PRESETS, ...customPresets];
+  const selectedPreset = presets.find(p => p.id === presetId) || BUILT_IN_PRESETS[0];
+
+  React.useEffect(() => {
+    listPresets()
+      .then(setCustomPresets)
+      .catch(err => console.error("Preset Error:", err));
+  }, []);
 
   const handleNext = () => {
-    if (step === 1 && selectedType) setStep(2);
+    if (step === 1 && selectedType) {
+      // Keep the layout choice valid for the chosen type
+      if (!getSupportedLayouts(selectedType).includes(selectedLayout)) setSelectedLayout(LayoutStyle.TREE);
+      setStep(2);
+    }
     else if (step === 2 && description) setStep(3);
   };
 
   const handleSubmit = () => {
     if (selectedType) {
-      onSubmit(selectedType, description, selectedLayout, detailData);
+      onSubmit(selectedType, description, selectedLayout, detailData, documents, selectedPreset);
+    }
+  };
+
+  const handleSavePreset = async (preset: ReturnType<typeof customizePreset>) => {
+    try {
+      const saved = await savePreset(preset);
+      setCustomPresets(prev => [...prev.filter(p => p.id !== saved.id), saved].sort((a, b) => a.name.localeCompare(b.name)));
+      setPresetId(saved.id);
+      setEditingPreset(false);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      alert(`Could not save preset: ${msg}`);
+      console.error("Preset Error:", err);
+    }
+  };
+
+  const handleDeletePreset = async () => {
+    if (!confirm(`Delete the preset "${selectedPreset.name}"?`)) return;
+    try {
+      await deletePreset(selectedPreset.id);
+      setCustomPresets(prev => prev.filter(p => p.id !== selectedPreset.id));
+      setPresetId(BUILT_IN_PRESETS[0].id);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      alert(`Could not delete preset: ${msg}`);
+      console.error("Preset Error:", err);
     }
   };
 
+  // Text is extracted in the browser; nothing is uploaded until generation
+  const handleAttach = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    setExtracting(true);
+    for (const file of files) {
+      try {
+        const doc = await extractDocument(file);
+        setDocuments(prev => [...prev.filter(d => d.name !== doc.name), doc]);
+      } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        alert(`Could not read ${file.name}: ${msg}`);
+        console.error("Document Error:", err);
+      }
+    }
+    setExtracting(false);
+  };
+
+  const handleDataChosen = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) onBuildFromData(file);
+  };
+
+  const describeDocument = (doc: SourceDocument) => {
+    const pages = doc.sections.filter(s => s.location).length;
+    const chars = `${Math.round(documentLength(doc) / 100) / 10}k characters`;
+    return pages ? `${pages} pages, ${chars}` : chars;
+  };
+
   const renderTypeCard = (type: DiagramType, icon: React.ReactNode, desc: string) => (
     <div
       onClick={() => setSelectedType(type)}
@@ -65,7 +149,7 @@ const Wizard: React.FC<WizardProps> = ({ onSubmit, loading }) => {
       {loading ? (
         <div className="flex flex-col items-center justify-center h-64 gap-4">
           <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin"></div>
-          <p className="text-gray-600 animate-pulse">Generating your diagram with Gemini 2.5...</p>
+          <p className="text-gray-600 animate-pulse">Generating your diagram with {getProviderLabel()}...</p>
         </div>
       ) : (
         <div className="bg-white rounded-2xl shadow-sm border border-gray-100 p-8 min-h-[400px]">
@@ -87,6 +171,24 @@ const Wizard: React.FC<WizardProps> = ({ onSubmit, loading }) => {
                   Next <ArrowRight size={18} />
                 </button>
               </div>
+              <div className="border-t pt-4 flex items-center justify-between gap-4 text-sm">
+                <p className="text-gray-500">
+                  Already structured? Build an Org Chart from a CSV with id and manager columns, or a Mindmap from JSON, YAML or an indented outline, without AI.
+                </p>
+                <button
+                  onClick={() => dataInputRef.current?.click()}
+                  className="flex items-center gap-2 shrink-0 border border-gray-300 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-50 transition-colors"
+                >
+                  <Table size={16} /> Build from data
+                </button>
+                <input
+                  ref={dataInputRef}
+                  type="file"
+                  accept={STRUCTURED_DATA_ACCEPT}
+                  onChange={handleDataChosen}
+                  className="hidden"
+                />
+              </div>
             </div>
           )}
 
@@ -111,10 +213,52 @@ const Wizard: React.FC<WizardProps> = ({ onSubmit, loading }) => {
                   onChange={(e) => setDetailData(e.target.value)}
                 />
               </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Source Documents (Optional)</label>
+                <p className="text-xs text-gray-500 mb-2">
+                  The diagram is generated from these files, and each node cites the passage it came from. PDF, DOCX, Markdown, text and CSV.
+                </p>
+                {documents.length > 0 && (
+                  <ul className="mb-2 divide-y border border-gray-200 rounded-lg">
+                    {documents.map(doc => (
+                      <li key={doc.name} className="flex items-center justify-between px-3 py-2 text-sm">
+                        <span className="flex items-center gap-2 text-gray-700 min-w-0">
+                          <FileText size={16} className="text-gray-400 shrink-0" />
+                          <span className="truncate">{doc.name}</span>
+                          <span className="text-xs text-gray-400 shrink-0">{describeDocument(doc)}</span>
+                        </span>
+                        <button
+                          onClick={() => setDocuments(prev => prev.filter(d => d !== doc))}
+                          title="Remove"
+                          className="p-1 rounded hover:bg-gray-100 text-gray-400 hover:text-gray-600"
+                        >
+                          <X size={14} />
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  disabled={extracting}
+                  className="flex items-center gap-2 text-sm text-blue-600 hover:text-blue-800 disabled:opacity-50"
+                >
+                  {extracting ? <Loader2 size={16} className="animate-spin" /> : <Paperclip size={16} />}
+                  {extracting ? 'Reading files...' : 'Attach files'}
+                </button>
+                <input
+                  ref={fileInputRef}
+                  type="file"
+                  multiple
+                  accept={DOCUMENT_ACCEPT}
+                  onChange={handleAttach}
+                  className="hidden"
+                />
+              </div>
               <div className="flex justify-between mt-6">
                 <button onClick={() => setStep(1)} className="text-gray-600 hover:text-gray-800 px-4">Back</button>
                 <button
-                  disabled={!description.trim()}
+                  disabled={!description.trim() || extracting}
                   onClick={handleNext}
                   className="flex items-center gap-2 bg-blue-600 text-white px-6 py-2 rounded-lg hover:bg-blue-700 disabled:opacity-50 transition-colors"
                 >
@@ -128,7 +272,7 @@ const Wizard: React.FC<WizardProps> = ({ onSubmit, loading }) => {
             <div className="space-y-6">
               <h2 className="text-xl font-semibold text-gray-800">Select Layout Style</h2>
               <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
-                {Object.values(LayoutStyle).map((layout) => (
+                {(selectedType ? getSupportedLayouts(selectedType) : Object.values(LayoutStyle)).map((layout) => (
                   <div
                     key={layout}
                     onClick={() => setSelectedLayout(layout)}
@@ -140,13 +284,44 @@ const Wizard: React.FC<WizardProps> = ({ onSubmit, loading }) => {
                   </div>
                 ))}
               </div>
-              
+
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">Prompt Style</label>
+                <div className="flex items-center gap-2">
+                  <select
+                    value={selectedPreset.id}
+                    onChange={(e) => setPresetId(e.target.value)}
+                    className="flex-grow p-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {presets.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+                  </select>
+                  <button
+                    onClick={() => setEditingPreset(true)}
+                    title="Customize prompts"
+                    className="flex items-center gap-2 border border-gray-300 text-gray-700 px-3 py-2 rounded-lg hover:bg-gray-50 text-sm"
+                  >
+                    <SlidersHorizontal size={16} /> Customize
+                  </button>
+                  {!selectedPreset.builtIn && (
+                    <button
+                      onClick={handleDeletePreset}
+                      title="Delete preset"
+                      className="p-2 border border-gray-300 rounded-lg text-gray-500 hover:bg-red-50 hover:text-red-600"
+                    >
+                      <Trash2 size={16} />
+                    </button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500 mt-1">{selectedPreset.description}</p>
+              </div>
+
               <div className="bg-blue-50 p-4 rounded-lg flex items-start gap-3 mt-4">
                 <FileText className="text-blue-600 shrink-0 mt-1" size={20} />
                 <div>
                   <h4 className="text-sm font-semibold text-blue-900">Summary</h4>
                   <p className="text-sm text-blue-700 mt-1">
-                    Creating a <strong>{selectedType}</strong> about "{description.slice(0, 30)}..." using <strong>{selectedLayout}</strong> layout.
+                    Creating a <strong>{selectedType}</strong> about "{description.slice(0, 30)}..." using <strong>{selectedLayout}</strong> layout and the <strong>{selectedPreset.name}</strong> prompts.
+                    {documents.length > 0 && <> Grounded in {documents.length === 1 ? documents[0].name : `${documents.length} documents`}.</>}
                   </p>
                 </div>
               </div>
@@ -164,6 +339,15 @@ const Wizard: React.FC<WizardProps> = ({ onSubmit, loading }) => {
           )}
         </div>
       )}
+
+      {editingPreset && selectedType && (
+        <PresetEditor
+          base={selectedPreset}
+          diagramType={selectedType}
+          onSave={handleSavePreset}
+          onClose={() => setEditingPreset(false)}
+        />
+      )}
     </div>
   );
 };
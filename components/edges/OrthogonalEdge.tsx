@@ -0,0 +1,122 @@
+import React from 'react';
+import { BaseEdge, EdgeLabelRenderer, EdgeProps, Node, Position, getSmoothStepPath, useStore } from 'reactflow';
+import { DiagramEdge } from '../../types';
+
+type Rect = { x: number; y: number; width: number; height: number };
+
+const toRect = (node: Node): Rect => ({
+  x: node.positionAbsolute?.x ?? node.position.x,
+  y: node.positionAbsolute?.y ?? node.position.y,
+  width: node.width ?? 0,
+  height: node.height ?? 0
+});
+
+const sidePoint = (rect: Rect, side: Position) => {
+  switch (side) {
+    case Position.Left: return { x: rect.x, y: rect.y + rect.height / 2 };
+    case Position.Right: return { x: rect.x + rect.width, y: rect.y + rect.height / 2 };
+    case Position.Top: return { x: rect.x + rect.width / 2, y: rect.y };
+    case Position.Bottom: return { x: rect.x + rect.width / 2, y: rect.y + rect.height };
+  }
+};
+
+// Where to print a multiplicity just outside the node, next to the edge end
+const END_LABEL_OFFSET = 14;
+const endLabelPoint = (point: { x: number; y: number }, side: Position) => {
+  switch (side) {
+    case Position.Left: return { x: point.x - END_LABEL_OFFSET, y: point.y - 9 };
+    case Position.Right: return { x: point.x + END_LABEL_OFFSET, y: point.y - 9 };
+    case Position.Top: return { x: point.x + 9, y: point.y - END_LABEL_OFFSET };
+    case Position.Bottom: return { x: point.x + 9, y: point.y + END_LABEL_OFFSET };
+  }
+};
+
+/**
+ * Picks the facing pair of sides: left/right when the tables are apart horizontally,
+ * top/bottom when they overlap horizontally (stacked).
+ */
+const nearestSides = (a: Rect, b: Rect): [Position, Position] => {
+  const gapX = Math.max(b.x - (a.x + a.width), a.x - (b.x + b.width));
+  const gapY = Math.max(b.y - (a.y + a.height), a.y - (b.y + b.height));
+  if (gapX >= gapY) {
+    return a.x + a.width / 2 <= b.x + b.width / 2 ? [Position.Right, Position.Left] : [Position.Left, Position.Right];
+  }
+  return a.y + a.height / 2 <= b.y + b.height / 2 ? [Position.Bottom, Position.Top] : [Position.Top, Position.Bottom];
+};
+
+/**
+ * Right-angled edge that attaches to whichever side of each node faces the other,
+ * ignoring the nodes' fixed handle positions. Used for ERD relationships. Edges attached
+ * to a column handle keep that row's height and leave from the left or right side.
+ * A cardinality in `data` is printed at each end (e.g. "N" at the source, "1" at the target).
+ */
+const OrthogonalEdge: React.FC<EdgeProps<DiagramEdge['data']>> = ({
+  id, source, target, sourceX, sourceY, targetX, targetY, sourcePosition, targetPosition, sourceHandleId, targetHandleId,
+  label, labelStyle, style, markerEnd, markerStart, interactionWidth, data
+}) => {
+  const sourceNode = useStore(s => s.nodeInternals.get(source));
+  const targetNode = useStore(s => s.nodeInternals.get(target));
+
+  let from = { x: sourceX, y: sourceY, side: sourcePosition };
+  let to = { x: targetX, y: targetY, side: targetPosition };
+  if (sourceNode?.width && targetNode?.width) {
+    const a = toRect(sourceNode);
+    const b = toRect(targetNode);
+    if (sourceHandleId || targetHandleId) {
+      const [sourceSide, targetSide] = a.x + a.width / 2 <= b.x + b.width / 2
+        ? [Position.Right, Position.Left]
+        : [Position.Left, Position.Right];
+      from = { x: sidePoint(a, sourceSide).x, y: sourceHandleId ? sourceY : a.y + a.height / 2, side: sourceSide };
+      to = { x: sidePoint(b, targetSide).x, y: targetHandleId ? targetY : b.y + b.height / 2, side: targetSide };
+    } else {
+      const [sourceSide, targetSide] = nearestSides(a, b);
+      from = { ...sidePoint(a, sourceSide), side: sourceSide };
+      to = { ...sidePoint(b, targetSide), side: targetSide };
+    }
+  }
+
+  const [path, labelX, labelY] = getSmoothStepPath({
+    sourceX: from.x,
+    sourceY: from.y,
+    sourcePosition: from.side,
+    targetX: to.x,
+    targetY: to.y,
+    targetPosition: to.side,
+    borderRadius: 6
+  });
+
+  const [sourceEnd, targetEnd] = data?.cardinality ? data.cardinality.split(':') : [];
+  const ends = sourceEnd ? [
+    { text: sourceEnd, at: endLabelPoint(from, from.side) },
+    { text: targetEnd, at: endLabelPoint(to, to.side) }
+  ] : [];
+
+  return (
+    <>
+      <BaseEdge id={id} path={path} style={style} markerEnd={markerEnd} markerStart={markerStart} interactionWidth={interactionWidth} />
+      {(label || ends.length > 0) && (
+        <EdgeLabelRenderer>
+          {label && (
+            <div
+              style={{ position: 'absolute', transform: `translate(-50%, -50%) translate(${labelX}px, ${labelY}px)`, ...labelStyle }}
+              className="nodrag nopan bg-white px-1 text-xs text-gray-600 rounded"
+            >
+              {label}
+            </div>
+          )}
+          {ends.map((end, idx) => (
+            <div
+              key={idx}
+              style={{ position: 'absolute', transform: `translate(-50%, -50%) translate(${end.at.x}px, ${end.at.y}px)` }}
+              className="nodrag nopan text-[11px] font-semibold text-slate-500"
+            >
+              {end.text}
+            </div>
+          ))}
+        </EdgeLabelRenderer>
+      )}
+    </>
+  );
+};
+
+export default OrthogonalEdge;
@@ -0,0 +1,4 @@
+import OrthogonalEdge from './OrthogonalEdge';
+
+// Keys match getEdgeType in utils/graph.ts; defined once so React Flow doesn't re-register them on every render
+export const EDGE_TYPES = { orthogonal: OrthogonalEdge };
@@ -0,0 +1,51 @@
+import React from 'react';
+import { Handle, NodeProps, Position } from 'reactflow';
+import { KeyRound, Link2 } from 'lucide-react';
+import { DiagramNode } from '../../types';
+import { getColumns } from '../../utils/erd';
+
+// Per-column handles are small so they don't crowd the rows
+const COLUMN_HANDLE_STYLE: React.CSSProperties = { width: 6, height: 6, background: '#94a3b8', border: 'none' };
+
+/**
+ * ERD entity rendered as a table: header with the entity name, then one row per column
+ * (from `columns`, or parsed from `details`) with PK/FK markers. Each row has its own left/right handles (id
+ * "col:<name>") so relationships can attach to the column they reference.
+ */
+const ErdTableNode: React.FC<NodeProps<DiagramNode['data']>> = ({ data, selected, sourcePosition = Position.Right, targetPosition = Position.Left }) => {
+  const columns = React.useMemo(() => getColumns(data), [data.columns, data.details]);
+
+  return (
+    <div
+      className={`bg-white text-xs min-w-[180px] shadow-[4px_4px_0px_rgba(0,0,0,0.1)] border ${selected ? 'border-blue-600 ring-1 ring-blue-600' : 'border-slate-500'}`}
+      style={{ fontFamily: "'Inter', sans-serif" }}
+    >
+      {/* Table-level handles come first so edges without a column handle attach here */}
+      <Handle type="target" position={targetPosition} />
+      <Handle type="source" position={sourcePosition} />
+
+      <div className="bg-slate-600 text-white font-semibold text-[13px] px-3 py-1.5">{data.label}</div>
+      {columns.length === 0 ? (
+        <div className="px-3 py-1.5 text-gray-400 italic">No attributes</div>
+      ) : (
+        <ul className="divide-y divide-slate-100">
+          {columns.map((column, idx) => (
+            <li key={`${column.name}-${idx}`} className="relative flex items-center gap-2 px-3 py-1">
+              <span className="w-3.5 shrink-0 flex justify-center">
+                {column.pk ? <KeyRound size={12} className="text-amber-500" /> : column.fk !== undefined ? <Link2 size={12} className="text-blue-500" /> : null}
+              </span>
+              <span className={`flex-1 truncate ${column.pk ? 'font-semibold text-slate-800' : 'text-slate-700'}`} title={column.fk ? `References ${column.fk}` : undefined}>
+                {column.name}{column.nullable && <span className="text-slate-400">?</span>}
+              </span>
+              {column.type && <span className="text-slate-400 font-mono text-[11px] truncate max-w-[110px]">{column.type}</span>}
+              <Handle type="target" position={Position.Left} id={`col:${column.name}`} style={COLUMN_HANDLE_STYLE} />
+              <Handle type="source" position={Position.Right} id={`col:${column.name}`} style={COLUMN_HANDLE_STYLE} />
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ErdTableNode;
@@ -0,0 +1,62 @@
+import React from 'react';
+import { Handle, NodeProps, Position } from 'reactflow';
+import { DiagramNode } from '../../types';
+import { FLOWCHART_SHAPE_COLORS, FlowchartShape, getFlowchartShape } from '../../utils/graph';
+
+// Outlines in a 100x100 box, stretched to the node's size
+const SHAPE_PATHS: Partial<Record<FlowchartShape, string>> = {
+  decision: 'M50,1 L99,50 L50,99 L1,50 Z',
+  io: 'M16,1 H99 L84,99 H1 Z',
+  document: 'M1,1 H99 V84 C75,68 25,100 1,84 Z',
+  database: 'M1,12 V88 A49,11 0 0 0 99,88 V12 A49,11 0 0 0 1,12 A49,11 0 0 0 99,12'
+};
+
+// Keeps the label clear of slanted and curved edges
+const SHAPE_PADDING: Record<FlowchartShape, string> = {
+  process: '10px 14px',
+  decision: '20px 28px',
+  terminator: '10px 22px',
+  io: '10px 28px',
+  document: '10px 14px 20px',
+  database: '24px 14px 16px'
+};
+
+/**
+ * Flowchart step drawn as its standard shape: rectangle (process), diamond (decision),
+ * pill (start/end), parallelogram (input/output), document and database cylinder.
+ */
+const FlowchartNode: React.FC<NodeProps<DiagramNode['data']>> = ({ data, selected, sourcePosition = Position.Bottom, targetPosition = Position.Top }) => {
+  const shape = getFlowchartShape(data.type);
+  const colors = FLOWCHART_SHAPE_COLORS[shape];
+  const path = SHAPE_PATHS[shape];
+  const stroke = selected ? '#1d4ed8' : colors.stroke;
+
+  return (
+    <div
+      className="relative flex items-center justify-center text-center text-[13px] font-medium text-slate-800 w-full h-full"
+      style={{
+        minWidth: 140,
+        minHeight: 44,
+        padding: SHAPE_PADDING[shape],
+        fontFamily: "'Inter', sans-serif",
+        ...(path ? {} : {
+          background: colors.fill,
+          border: `${selected ? 2 : 1.5}px solid ${stroke}`,
+          borderRadius: shape === 'terminator' ? 9999 : 4,
+          boxShadow: '0 2px 4px rgba(0,0,0,0.05)'
+        })
+      }}
+    >
+      {path && (
+        <svg className="absolute inset-0 w-full h-full overflow-visible" viewBox="0 0 100 100" preserveAspectRatio="none">
+          <path d={path} fill={colors.fill} stroke={stroke} strokeWidth={selected ? 2 : 1.5} vectorEffect="non-scaling-stroke" />
+        </svg>
+      )}
+      <span className="relative">{data.label}</span>
+      <Handle type="target" position={targetPosition} />
+      <Handle type="source" position={sourcePosition} />
+    </div>
+  );
+};
+
+export default FlowchartNode;
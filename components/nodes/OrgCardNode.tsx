@@ -0,0 +1,34 @@
+import React from 'react';
+import { Handle, NodeProps, Position } from 'reactflow';
+import { DiagramNode } from '../../types';
+import { splitPersonLabel } from '../../utils/graph';
+
+const initialsOf = (text: string) =>
+  text.split(/\s+/).filter(Boolean).slice(0, 2).map(word => word[0].toUpperCase()).join('');
+
+/**
+ * Org Chart person card: avatar initials, name and role. Nodes without a person's name
+ * (just a role or department) show the role as the title.
+ */
+const OrgCardNode: React.FC<NodeProps<DiagramNode['data']>> = ({ data, selected, sourcePosition = Position.Bottom, targetPosition = Position.Top }) => {
+  const { name, role } = splitPersonLabel(data.label);
+
+  return (
+    <div
+      className={`flex items-center gap-3 bg-white rounded-lg px-3 py-2 w-full shadow-sm border ${selected ? 'border-blue-600 ring-1 ring-blue-600' : 'border-slate-200'}`}
+      style={{ fontFamily: "'Inter', sans-serif" }}
+    >
+      <Handle type="target" position={targetPosition} />
+      <div className="w-9 h-9 rounded-full bg-blue-100 text-blue-700 text-xs font-semibold flex items-center justify-center shrink-0">
+        {initialsOf(name || role)}
+      </div>
+      <div className="min-w-0 text-left">
+        <p className="text-[13px] font-semibold text-slate-800 truncate">{name || role}</p>
+        {name && <p className="text-xs text-slate-500 truncate">{role}</p>}
+      </div>
+      <Handle type="source" position={sourcePosition} />
+    </div>
+  );
+};
+
+export default OrgCardNode;
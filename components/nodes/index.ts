@@ -0,0 +1,10 @@
+import ErdTableNode from './ErdTableNode';
+import FlowchartNode from './FlowchartNode';
+import OrgCardNode from './OrgCardNode';
+
+// Keys match getNodeType in utils/graph.ts
+export const NODE_TYPES = {
+  erdTable: ErdTableNode,
+  flowchart: FlowchartNode,
+  orgCard: OrgCardNode
+};
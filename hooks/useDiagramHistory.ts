@@ -0,0 +1,55 @@
+import { useCallback, useRef, useState } from 'react';
+import { DiagramNode, DiagramEdge, LayoutStyle } from '../types';
+
+export interface HistoryEntry {
+  id: number;
+  label: string;
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  layout: LayoutStyle; // Restored with the graph so the layout picker matches it
+  timestamp: number;
+}
+
+// Older entries are dropped beyond this many snapshots
+const MAX_HISTORY = 100;
+
+/**
+ * Snapshot-based undo/redo. Entry 0 is the opened diagram; every recorded action
+ * appends the resulting graph, and undo/redo/jump return the snapshot to restore.
+ */
+export const useDiagramHistory = (initialNodes: DiagramNode[], initialEdges: DiagramEdge[], initialLayout: LayoutStyle) => {
+  const nextId = useRef(1);
+  const [entries, setEntries] = useState<HistoryEntry[]>(() => [
+    { id: 0, label: 'Opened diagram', nodes: initialNodes, edges: initialEdges, layout: initialLayout, timestamp: Date.now() }
+  ]);
+  const [index, setIndex] = useState(0);
+
+  const record = useCallback((label: string, nodes: DiagramNode[], edges: DiagramEdge[], layout: LayoutStyle) => {
+    const entry: HistoryEntry = { id: nextId.current++, label, nodes, edges, layout, timestamp: Date.now() };
+    // Recording after an undo discards the redo branch
+    const kept = entries.slice(0, index + 1);
+    const next = [...kept, entry].slice(-MAX_HISTORY);
+    setEntries(next);
+    setIndex(next.length - 1);
+  }, [entries, index]);
+
+  const jumpTo = useCallback((target: number): HistoryEntry | null => {
+    if (target < 0 || target >= entries.length || target === index) return null;
+    setIndex(target);
+    return entries[target];
+  }, [entries, index]);
+
+  const undo = useCallback(() => jumpTo(index - 1), [jumpTo, index]);
+  const redo = useCallback(() => jumpTo(index + 1), [jumpTo, index]);
+
+  return {
+    entries,
+    index,
+    record,
+    undo,
+    redo,
+    jumpTo,
+    canUndo: index > 0,
+    canRedo: index < entries.length - 1
+  };
+};
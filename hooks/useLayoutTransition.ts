@@ -0,0 +1,51 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { DiagramNode } from '../types';
+
+const TRANSITION_MS = 450;
+
+const easeOutCubic = (t: number) => 1 - Math.pow(1 - t, 3);
+
+/**
+ * Animates nodes from their current positions to a new layout. Intermediate frames go
+ * straight to setNodes; onDone receives the final nodes so the caller can record them.
+ * Nodes without a starting position (newly added) appear at their target immediately.
+ */
+export const useLayoutTransition = (setNodes: (nodes: DiagramNode[]) => void) => {
+  const frame = useRef<number | null>(null);
+
+  const cancel = useCallback(() => {
+    if (frame.current !== null) cancelAnimationFrame(frame.current);
+    frame.current = null;
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const animateTo = useCallback((from: DiagramNode[], to: DiagramNode[], onDone: (nodes: DiagramNode[]) => void) => {
+    cancel();
+    if (window.matchMedia?.('(prefers-reduced-motion: reduce)').matches) {
+      onDone(to);
+      return;
+    }
+
+    const start = new Map(from.map(n => [n.id, n.position]));
+    const startTime = performance.now();
+    const step = (now: number) => {
+      const t = Math.min(1, (now - startTime) / TRANSITION_MS);
+      if (t >= 1) {
+        frame.current = null;
+        onDone(to);
+        return;
+      }
+      const k = easeOutCubic(t);
+      setNodes(to.map(n => {
+        const s = start.get(n.id);
+        if (!s) return n;
+        return { ...n, position: { x: s.x + (n.position.x - s.x) * k, y: s.y + (n.position.y - s.y) * k } };
+      }));
+      frame.current = requestAnimationFrame(step);
+    };
+    frame.current = requestAnimationFrame(step);
+  }, [cancel, setNodes]);
+
+  return { animateTo, cancel };
+};
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { DiagramType, GeneratedResponse, GraphData, LayoutStyle, ValidatedResponse } from '../types';
+import { generateDiagramStream } from '../services/gemini';
+import { validatePartialGraph } from '../utils/validation';
+import { SourceDocument } from '../utils/documents';
+import { toFlowGraph } from '../utils/graph';
+import { applyLayout } from '../utils/layout';
+
+// Nodes arrive faster than layouts are worth running; re-layout at most this often
+const LAYOUT_BATCH_MS = 400;
+
+/**
+ * Runs a streamed generation and keeps a laid-out preview of the partial graph. New nodes
+ * and edges are collected and laid out together in batches. cancel() stops the stream;
+ * start() then resolves with whatever had arrived, or null (see generateDiagramStream).
+ */
+export const useStreamingGeneration = () => {
+  const [preview, setPreview] = useState<GraphData | null>(null);
+  const controller = useRef<AbortController | null>(null);
+  const pending = useRef<GeneratedResponse | null>(null);
+  const timer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const clearTimer = () => {
+    if (timer.current !== null) clearTimeout(timer.current);
+    timer.current = null;
+  };
+
+  useEffect(() => () => {
+    clearTimer();
+    controller.current?.abort();
+  }, []);
+
+  const start = useCallback(async (
+    type: DiagramType,
+    description: string,
+    layout: LayoutStyle,
+    additionalData: string,
+    documents: SourceDocument[]
+  ): Promise<ValidatedResponse | null> => {
+    const abort = new AbortController();
+    controller.current = abort;
+    setPreview({ nodes: [], edges: [] });
+
+    const flush = () => {
+      timer.current = null;
+      const partial = pending.current;
+      if (!partial || abort.signal.aborted) return;
+      const { graph, fatal } = validatePartialGraph(partial, type);
+      if (fatal) return;
+      const { nodes, edges } = toFlowGraph(graph, type);
+      setPreview(applyLayout(nodes, edges, layout, type));
+    };
+
+    try {
+      return await generateDiagramStream(type, description, layout, additionalData, documents, partial => {
+        pending.current = partial;
+        if (timer.current === null) timer.current = setTimeout(flush, LAYOUT_BATCH_MS);
+      }, abort.signal);
+    } finally {
+      clearTimer();
+      pending.current = null;
+      controller.current = null;
+      setPreview(null);
+    }
+  }, []);
+
+  const cancel = useCallback(() => controller.current?.abort(), []);
+
+  return { preview, start, cancel };
+};
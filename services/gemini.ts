@@ -1,23 +1,18 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { DiagramType, LayoutStyle, GeneratedResponse, DrillDownResponse } from "../types";
-
-// Reverting to 2.5-flash as requested
-const MODEL_NAME = 'gemini-2.5-flash';
-
-// Lazy initialization to prevent crash if env vars are missing at startup
-let aiInstance: GoogleGenAI | null = null;
-
-const getAiClient = () => {
-  if (aiInstance) return aiInstance;
-  
-  const apiKey = process.env.API_KEY;
-  // Check for empty string as well, since we default to '' in vite.config.ts
-  if (apiKey && apiKey.length > 0) {
-    aiInstance = new GoogleGenAI({ apiKey });
-    return aiInstance;
-  }
-  return null;
-};
+import { Type } from "@google/genai";
+import { DiagramType, DiagramNode, DiagramEdge, LayoutStyle, GeneratedResponse, DrillDownResponse, ValidatedResponse, ChatMessage, DetailAngle, DetailDepth } from "../types";
+import { getProvider, AIRequest } from "./providers";
+import { parseAndValidate, validateGraph, validatePartialGraph } from "../utils/validation";
+import { createGraphStreamParser } from "../utils/jsonStream";
+import { SourceDocument } from "../utils/documents";
+import { attachCitations, chunkDocuments, formatPassages, Grounding, SourcePassage } from "../utils/grounding";
+import { CARDINALITIES } from "../utils/erd";
+import { NodeContext } from "../utils/drilldown";
+import { SELECTION_ACTIONS, SelectionAction, SelectionItem, SelectionResponse } from "../utils/selection";
+import { DETAIL_ANGLE_INSTRUCTIONS, DETAIL_DEPTH_INSTRUCTIONS, renderPrompt, SELECTION_INSTRUCTIONS } from "./prompts";
+import { applyPatch, PATCH_OPERATIONS } from "../utils/patch";
+
+// One corrective re-prompt when a response can't be repaired
+const MAX_REPAIR_ATTEMPTS = 1;
 
 const graphSchema = {
   type: Type.OBJECT,
@@ -29,7 +24,7 @@ const graphSchema = {
         properties: {
           id: { type: Type.STRING, description: "Unique short ID (e.g., 'n1')" },
           label: { type: Type.STRING, description: "Text to display on the node. Be specific." },
-          type: { type: Type.STRING, description: "Type of node (e.g., 'default', 'decision', 'process', 'entity')" },
+          type: { type: Type.STRING, description: "Type of node (e.g., 'default', 'process', 'decision', 'start', 'end', 'input', 'output', 'document', 'database', 'entity')" },
           details: { type: Type.STRING, description: "A detailed description or list of attributes for this node." }
         },
         required: ["id", "label"]
@@ -51,188 +46,542 @@ const graphSchema = {
   required: ["nodes", "edges"]
 };
 
-export const generateDiagram = async (
+const columnSchema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING, description: "Column name in snake_case" },
+    type: { type: Type.STRING, description: "SQL type, e.g. 'INTEGER', 'VARCHAR(255)', 'TIMESTAMP'" },
+    nullable: { type: Type.BOOLEAN },
+    pk: { type: Type.BOOLEAN, description: "Part of the primary key" },
+    unique: { type: Type.BOOLEAN, description: "Values are unique, e.g. an email column" },
+    fk: { type: Type.STRING, description: "For foreign keys, the referenced 'table.column'" }
+  },
+  required: ["name", "type"]
+};
+
+// ERDs also return typed columns per entity and a cardinality per relationship
+const erdGraphSchema = {
+  ...graphSchema,
+  properties: {
+    nodes: {
+      ...graphSchema.properties.nodes,
+      items: {
+        ...graphSchema.properties.nodes.items,
+        properties: {
+          ...graphSchema.properties.nodes.items.properties,
+          columns: { type: Type.ARRAY, items: columnSchema }
+        }
+      }
+    },
+    edges: {
+      ...graphSchema.properties.edges,
+      items: {
+        ...graphSchema.properties.edges.items,
+        properties: {
+          ...graphSchema.properties.edges.items.properties,
+          cardinality: { type: Type.STRING, enum: CARDINALITIES, description: "Cardinality from source to target, e.g. 'N:1' for a foreign key" }
+        }
+      }
+    }
+  }
+};
+
+const schemaFor = (type: DiagramType) => type === DiagramType.ERD ? erdGraphSchema : graphSchema;
+
+// Document-grounded generations also return the passage each node is drawn from
+const withCitationFields = (schema: typeof graphSchema) => ({
+  ...schema,
+  properties: {
+    ...schema.properties,
+    nodes: {
+      ...schema.properties.nodes,
+      items: {
+        ...schema.properties.nodes.items,
+        properties: {
+          ...schema.properties.nodes.items.properties,
+          sourceId: { type: Type.STRING, description: "Id of the source passage this node is drawn from, e.g. 'S3'" },
+          quote: { type: Type.STRING, description: "Short verbatim excerpt from that passage supporting the node" }
+        }
+      }
+    }
+  }
+});
+
+/**
+ * Runs a graph request through validation; if the result is unrecoverable, re-prompts
+ * the model with the problem before giving up. A response that was already received
+ * (e.g. streamed) can be passed in as the first attempt; the signal also cancels re-prompts.
+ */
+const generateValidatedGraph = async (request: AIRequest, type: DiagramType, firstResponse?: string, signal?: AbortSignal): Promise<ValidatedResponse> => {
+  let attempt = request;
+  for (let i = 0; ; i++) {
+    const text = i === 0 && firstResponse !== undefined ? firstResponse : await getProvider().generateJson(attempt, signal);
+    const result = parseAndValidate(text, type);
+    if (!result.fatal) {
+      return { ...result.graph, warnings: i > 0 ? ["The first response was invalid and was regenerated.", ...result.warnings] : result.warnings };
+    }
+    if (i >= MAX_REPAIR_ATTEMPTS) {
+      throw new Error(`The AI returned an unusable diagram: ${result.fatal}`);
+    }
+    console.warn("Invalid graph response, re-prompting:", result.fatal);
+    attempt = {
+      ...request,
+      prompt: `${request.prompt}
+
+    Your previous response could not be used: ${result.fatal}
+    Return a corrected response. Every edge must reference node ids that exist in "nodes", and ids must be unique.`
+    };
+  }
+};
+
+const sourcesPrompt = (passages: SourcePassage[]) => passages.length === 0 ? '' : `
+    Source Documents:
+    Base the diagram on the passages below rather than on general knowledge. Each passage starts with its id in brackets.
+    For every node, set 'sourceId' to the id of the passage it is drawn from and 'quote' to a short verbatim excerpt (under 30 words) from that passage.
+
+    ${formatPassages(passages)}
+  `;
+
+const buildGenerateRequest = (
   type: DiagramType,
   description: string,
   layout: LayoutStyle,
-  additionalData?: string
-): Promise<GeneratedResponse> => {
+  additionalData?: string,
+  passages: SourcePassage[] = []
+): AIRequest => {
+  const { prompt, systemInstruction } = renderPrompt('generate', type, {
+    type,
+    description,
+    layout,
+    additionalData: additionalData || "None",
+    sources: sourcesPrompt(passages)
+  });
 
-  const ai = getAiClient();
-  if (!ai) {
-    throw new Error("API Key is missing. Please create a .env file with API_KEY=your_key and restart the server.");
-  }
+  return {
+    operation: 'generate',
+    prompt,
+    schema: passages.length ? withCitationFields(schemaFor(type)) : schemaFor(type),
+    systemInstruction,
+    diagramType: type,
+    subject: description,
+    ...(passages.length ? { sources: passages } : {})
+  };
+};
 
-  const prompt = `
-    Create a highly detailed and exhaustive ${type} based on the following description: "${description}".
-    Layout Intention: ${layout}.
-    Additional Context: ${additionalData || "None"}.
-    
-    CRITICAL INSTRUCTIONS FOR COMPLETENESS:
-    1. **Exhaustive Breakdown**: Do not summarize. Break down every topic into granular sub-topics.
-    2. **Depth**: For Mindmaps, generate at least 4 levels of hierarchy (Root -> Main Branch -> Sub-branch -> Leaf Details).
-    3. **Quantity**: Aim for a high number of nodes (30+) to fully cover the subject.
-    4. **Details**: Populate the 'details' field for every node with specific attributes, examples, or data points.
-
-    Type Specific Rules:
-    - **Mindmap**: Central topic must branch into major categories, then into sub-categories, then into specific examples.
-    - **Flowchart**: Include all decision points (Yes/No), error handling steps, and specific process actions.
-    - **ERD**: Nodes must represent specific tables/entities. 'Details' field should list key attributes (PK, FK, etc).
-    - **Org Chart**: specific roles, not just departments.
-    
-    Return strictly JSON matching the schema.
-  `;
+// Turns the model's passage references into citations for a document-grounded result
+const withCitations = (result: ValidatedResponse, grounding: Grounding): ValidatedResponse => {
+  if (grounding.passages.length === 0) return result;
+  const cited = attachCitations(result, grounding.passages);
+  return { ...cited.graph, warnings: [...result.warnings, ...grounding.warnings, ...cited.warnings] };
+};
 
+export const generateDiagram = async (
+  type: DiagramType,
+  description: string,
+  layout: LayoutStyle,
+  additionalData?: string,
+  documents: SourceDocument[] = []
+): Promise<ValidatedResponse> => {
+  const grounding = chunkDocuments(documents);
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: graphSchema,
-        systemInstruction: "You are a meticulous Data Architect. You hate brevity. You love depth, nested structures, and comprehensive details. You always expand topics fully."
-      }
-    });
+    const result = await generateValidatedGraph(buildGenerateRequest(type, description, layout, additionalData, grounding.passages), type);
+    return withCitations(result, grounding);
+  } catch (error: any) {
+    console.error("Generation Error:", error);
+    throw new Error(error.message || "Unknown AI error");
+  }
+};
 
-    if (response.text) {
-      return JSON.parse(response.text) as GeneratedResponse;
-    }
-    throw new Error("No content generated from Gemini.");
+// Keeps the usable part of a cancelled stream
+const keepPartialGraph = (partial: GeneratedResponse, type: DiagramType): ValidatedResponse | null => {
+  if (partial.nodes.length === 0) return null;
+  const result = validatePartialGraph(partial, type);
+  return {
+    ...result.graph,
+    warnings: [`Generation was cancelled; kept the ${result.graph.nodes.length} nodes generated so far.`, ...result.warnings]
+  };
+};
+
+/**
+ * Streaming variant of generateDiagram. onPartial receives everything completed so far
+ * whenever a node or edge arrives. Aborting the signal resolves with that partial graph
+ * instead of rejecting (null if nothing had arrived); a finished response is validated
+ * (and re-prompted) as usual. Documents, if given, are chunked into cited passages.
+ */
+export const generateDiagramStream = async (
+  type: DiagramType,
+  description: string,
+  layout: LayoutStyle,
+  additionalData: string | undefined,
+  documents: SourceDocument[],
+  onPartial: (graph: GeneratedResponse) => void,
+  signal?: AbortSignal
+): Promise<ValidatedResponse | null> => {
+  const grounding = chunkDocuments(documents);
+  const request = buildGenerateRequest(type, description, layout, additionalData, grounding.passages);
+  const parser = createGraphStreamParser();
+
+  try {
+    const text = await getProvider().streamJson(request, chunk => {
+      const added = parser.push(chunk);
+      if (added.nodes || added.edges) onPartial(parser.graph());
+    }, signal);
+    return withCitations(await generateValidatedGraph(request, type, text, signal), grounding);
   } catch (error: any) {
+    if (signal?.aborted) {
+      const partial = keepPartialGraph(parser.graph(), type);
+      return partial && withCitations(partial, grounding);
+    }
     console.error("Generation Error:", error);
     throw new Error(error.message || "Unknown AI error");
   }
 };
 
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// The current graph as sent to the model: content only, no positions or styling
+const simplifyGraph = (currentNodes: DiagramNode[], currentEdges: DiagramEdge[]): GeneratedResponse => ({
+  nodes: currentNodes.map(n => ({ id: n.id, label: String(n.data.label), details: n.data.details, columns: n.data.columns })),
+  edges: currentEdges.map(e => ({ source: e.source, target: e.target, label: typeof e.label === 'string' ? e.label : undefined, cardinality: e.data?.cardinality }))
+});
+
+// One patch operation; which fields apply depends on 'op' (see PatchOperation in utils/patch)
+const patchOperationSchema = (type: DiagramType) => ({
+  type: Type.OBJECT,
+  properties: {
+    op: { type: Type.STRING, enum: PATCH_OPERATIONS },
+    id: { type: Type.STRING, description: "Node to add, remove, update or move" },
+    label: { type: Type.STRING, description: "Label of the new or updated node, or of a new edge" },
+    details: { type: Type.STRING },
+    type: { type: Type.STRING, description: "Type of a new node" },
+    parent: { type: Type.STRING, description: "Parent id for addNode and moveSubtree" },
+    source: { type: Type.STRING, description: "Edge source id for addEdge and removeEdge" },
+    target: { type: Type.STRING, description: "Edge target id for addEdge and removeEdge" },
+    ...(type === DiagramType.ERD ? {
+      columns: { type: Type.ARRAY, items: columnSchema },
+      cardinality: { type: Type.STRING, enum: CARDINALITIES }
+    } : {})
+  },
+  required: ["op"]
+});
+
+const patchSchema = (type: DiagramType) => ({
+  type: Type.OBJECT,
+  properties: {
+    operations: { type: Type.ARRAY, items: patchOperationSchema(type) }
+  },
+  required: ["operations"]
+});
+
+/**
+ * Applies the model's patch to the current graph and validates the result like any other
+ * AI graph (orphans, cycles, ...). Throws, leaving the graph untouched, when the response
+ * has no operations list, any operation fails, or the result is unusable.
+ */
+const applyPatchResponse = (graph: GeneratedResponse, operations: unknown, type: DiagramType): ValidatedResponse => {
+  if (!Array.isArray(operations)) throw new Error("The response has no 'operations' list.");
+  const result = validateGraph(applyPatch(graph, operations), type);
+  if (result.fatal) throw new Error(result.fatal);
+  return { ...result.graph, warnings: result.warnings };
+};
+
+const buildUpdateRequest = (graph: GeneratedResponse, instruction: string, diagramType: DiagramType): AIRequest => {
+  const { prompt, systemInstruction } = renderPrompt('update', diagramType, { type: diagramType, context: JSON.stringify(graph), instruction });
+  return {
+    operation: 'update',
+    prompt,
+    schema: patchSchema(diagramType),
+    systemInstruction,
+    diagramType,
+    subject: instruction,
+    graph
+  };
+};
+
+/**
+ * Fallback for a patch that can't be applied: asks for the whole updated graph instead.
+ */
+const rewriteGraph = async (request: AIRequest, reason: string, diagramType: DiagramType): Promise<ValidatedResponse> => {
+  console.warn("Patch could not be applied, requesting a full rewrite:", reason);
+  const result = await generateValidatedGraph({
+    ...request,
+    schema: schemaFor(diagramType),
+    prompt: `${request.prompt}
+
+    Your operations could not be applied: ${reason}
+    Instead, return the FULL updated structure in 'nodes' and 'edges'. PRESERVE existing IDs and keep everything the request doesn't touch.`
+  }, diagramType);
+  return { ...result, warnings: [`The AI's edit couldn't be applied as a patch (${reason}), so the whole diagram was regenerated.`, ...result.warnings] };
+};
+
+/**
+ * Asks for the operations that carry out the instruction and applies them to the current
+ * graph. Only when the patch fails to apply is the full graph requested instead.
+ */
 export const updateDiagram = async (
-  currentNodes: any[],
-  currentEdges: any[],
+  currentNodes: DiagramNode[],
+  currentEdges: DiagramEdge[],
   userPrompt: string,
   diagramType: DiagramType
-): Promise<GeneratedResponse> => {
-  const ai = getAiClient();
-  if (!ai) throw new Error("API Key missing");
-
-  // We send a simplified context but ask for a detailed update
-  const simplifiedNodes = currentNodes.map(n => ({ id: n.id, label: n.data.label, details: n.data.details }));
-  const simplifiedEdges = currentEdges.map(e => ({ source: e.source, target: e.target, label: e.label }));
-  
-  const context = JSON.stringify({ nodes: simplifiedNodes, edges: simplifiedEdges });
-
-  const prompt = `
-    You are updating an existing ${diagramType}.
-    
-    Current Structure (JSON):
-    ${context}
-
-    User Request: "${userPrompt}"
-
-    Instructions:
-    1. Analyze the User Request and the Current Structure.
-    2. Return a FULL updated JSON structure.
-    3. **Preserve Depth**: Do not simplify existing branches unless asked. 
-    4. **Add Detail**: If adding new nodes, ensure they are as detailed as the rest of the diagram.
-    5. PRESERVE existing IDs where possible.
-  `;
+): Promise<ValidatedResponse> => {
+  // We send a simplified context and get back only the changes
+  const graph = simplifyGraph(currentNodes, currentEdges);
+  const request = buildUpdateRequest(graph, userPrompt, diagramType);
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: graphSchema,
-        systemInstruction: "You are an intelligent diagram editor. You modify existing structures based on user intent while maintaining graph integrity and depth."
-      }
+    const text = await getProvider().generateJson(request);
+    try {
+      return applyPatchResponse(graph, JSON.parse(text)?.operations, diagramType);
+    } catch (patchError) {
+      return await rewriteGraph(request, errorMessage(patchError), diagramType);
+    }
+  } catch (error) {
+    console.error("Update Error:", error);
+    throw error;
+  }
+};
+
+// Earlier messages sent with each chat request; older ones are left out to keep prompts short
+const MAX_CHAT_HISTORY = 12;
+
+/**
+ * Answers a message in the diagram's chat thread. When the model also proposes an edit as
+ * patch operations, the patched graph comes back as 'proposal' for review. A patch that
+ * fails to apply falls back to a full rewrite; if that fails too, the reply is kept and
+ * the edit dropped with a warning.
+ */
+export const chatAboutDiagram = async (
+  currentNodes: DiagramNode[],
+  currentEdges: DiagramEdge[],
+  history: ChatMessage[],
+  message: string,
+  diagramType: DiagramType
+): Promise<{ reply: string; proposal?: ValidatedResponse; warnings: string[] }> => {
+  const graph = simplifyGraph(currentNodes, currentEdges);
+  const transcript = history.slice(-MAX_CHAT_HISTORY)
+    .map(m => `${m.role === 'user' ? 'User' : 'Assistant'}: ${m.text}${m.edit ? ` [proposed an edit, ${m.edit.status}]` : ''}`)
+    .join('\n');
+  const { prompt, systemInstruction } = renderPrompt('chat', diagramType, {
+    type: diagramType,
+    context: JSON.stringify(graph),
+    history: transcript || 'None',
+    message
+  });
+  try {
+    const text = await getProvider().generateJson({
+      operation: 'chat',
+      prompt,
+      schema: {
+        type: Type.OBJECT,
+        properties: { reply: { type: Type.STRING }, ...patchSchema(diagramType).properties },
+        required: ["reply"]
+      },
+      systemInstruction,
+      diagramType,
+      subject: message,
+      graph
     });
+    const data = JSON.parse(text);
+    const reply = typeof data.reply === 'string' ? data.reply.trim() : '';
+    if (!Array.isArray(data.operations) || data.operations.length === 0) return { reply, warnings: [] };
 
-    if (response.text) {
-      return JSON.parse(response.text) as GeneratedResponse;
+    try {
+      return { reply, proposal: applyPatchResponse(graph, data.operations, diagramType), warnings: [] };
+    } catch (patchError) {
+      try {
+        return { reply, proposal: await rewriteGraph(buildUpdateRequest(graph, message, diagramType), errorMessage(patchError), diagramType), warnings: [] };
+      } catch (rewriteError) {
+        return { reply, warnings: [`The proposed edit could not be used: ${errorMessage(rewriteError)}`] };
+      }
     }
-    throw new Error("No update generated");
   } catch (error) {
-    console.error("Update Error:", error);
+    console.error("Chat Error:", error);
     throw error;
   }
 };
 
+/**
+ * Asks for nodes to add below a node. The response keeps the model's own ids and edges;
+ * mergeDrillDown (utils/drilldown) fits it into the diagram.
+ */
 export const drillDownNode = async (
-  nodeLabel: string,
-  currentContext: string,
-  diagramType: DiagramType
+  node: { id: string; label: string; details?: string },
+  context: NodeContext,
+  diagramType: DiagramType,
+  options: { depth: number; count: number }
 ): Promise<DrillDownResponse> => {
-  const ai = getAiClient();
-  if (!ai) throw new Error("API Key missing");
-  
-  const prompt = `
-    The user wants to drill down into the node labeled: "${nodeLabel}" within a ${diagramType}.
-    Current context of the diagram: ${currentContext}.
-
-    Task:
-    1. Generate 8-12 granular sub-nodes related to "${nodeLabel}".
-    2. Include specific examples, attributes, or sub-process steps.
-    3. Return them as new nodes and edges connecting from "${nodeLabel}".
-  `;
+  const list = (labels: string[]) => labels.length ? labels.map(l => `"${l}"`).join(', ') : 'none';
+  const { prompt, systemInstruction } = renderPrompt('drillDown', diagramType, {
+    type: diagramType,
+    id: node.id,
+    label: node.label,
+    context: node.details || 'none',
+    path: [...context.path, node.label].join(' > '),
+    siblings: list(context.siblings),
+    children: list(context.children),
+    depth: String(options.depth),
+    count: String(options.count)
+  });
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: graphSchema,
-        systemInstruction: "You are an expert analyst expanding a diagram. Provide highly detailed sub-nodes."
-      }
+    const text = await getProvider().generateJson({
+      operation: 'drillDown',
+      prompt,
+      schema: schemaFor(diagramType),
+      systemInstruction,
+      diagramType,
+      subject: node.label,
+      graph: { nodes: [{ id: node.id, label: node.label }], edges: [] }
     });
-
-    if (response.text) {
-      const data = JSON.parse(response.text) as GeneratedResponse;
-      return {
-        newNodes: data.nodes,
-        newEdges: data.edges
-      };
-    }
-    throw new Error("No drill down content");
+    const data = JSON.parse(text) as GeneratedResponse;
+    return {
+      newNodes: Array.isArray(data.nodes) ? data.nodes : [],
+      newEdges: Array.isArray(data.edges) ? data.edges : []
+    };
   } catch (error) {
     console.error("Drill Down Error:", error);
     throw error;
   }
 };
 
-export const getNodeDetails = async (nodeLabel: string, context: string): Promise<string[]> => {
-  const ai = getAiClient();
-  if (!ai) return ["API Key missing. Cannot fetch details."];
-
-  const prompt = `
-    Provide 5-7 detailed, actionable bullet points explaining: "${nodeLabel}".
-    Context: ${context}.
-    Include technical details, pros/cons, or specific data points where applicable.
-  `;
+const labelledSchema = {
+  type: Type.OBJECT,
+  properties: {
+    label: { type: Type.STRING },
+    details: { type: Type.STRING }
+  },
+  required: ["label"]
+};
 
-  try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: {
-            type: Type.OBJECT,
-            properties: {
-                points: {
-                    type: Type.ARRAY,
-                    items: { type: Type.STRING }
-                }
-            }
+// Response schema per multi-select action (see SelectionResponse)
+const selectionSchemas: Record<SelectionAction, object> = {
+  summarize: labelledSchema,
+  merge: {
+    type: Type.OBJECT,
+    properties: {
+      groups: {
+        type: Type.ARRAY,
+        items: { ...labelledSchema, properties: { ...labelledSchema.properties, ids: { type: Type.ARRAY, items: { type: Type.STRING } } }, required: ["ids", "label"] }
+      }
+    },
+    required: ["groups"]
+  },
+  regroup: {
+    type: Type.OBJECT,
+    properties: {
+      categories: {
+        type: Type.ARRAY,
+        items: { ...labelledSchema, properties: { ...labelledSchema.properties, members: { type: Type.ARRAY, items: { type: Type.STRING } } }, required: ["label", "members"] }
+      }
+    },
+    required: ["categories"]
+  },
+  expandLeaves: {
+    type: Type.OBJECT,
+    properties: {
+      expansions: {
+        type: Type.ARRAY,
+        items: {
+          type: Type.OBJECT,
+          properties: { id: { type: Type.STRING }, children: { type: Type.ARRAY, items: labelledSchema } },
+          required: ["id", "children"]
         }
       }
+    },
+    required: ["expansions"]
+  },
+  rewriteLabels: {
+    type: Type.OBJECT,
+    properties: {
+      labels: {
+        type: Type.ARRAY,
+        items: { type: Type.OBJECT, properties: { id: { type: Type.STRING }, label: { type: Type.STRING } }, required: ["id", "label"] }
+      }
+    },
+    required: ["labels"]
+  }
+};
+
+/**
+ * Runs a multi-select action on the given nodes. The raw answer is turned into a diff by
+ * buildSelectionDiff (utils/selection).
+ */
+export const transformSelection = async (
+  action: SelectionAction,
+  items: SelectionItem[],
+  context: string,
+  diagramType: DiagramType
+): Promise<SelectionResponse> => {
+  const { prompt, systemInstruction } = renderPrompt('transform', diagramType, {
+    type: diagramType,
+    action: SELECTION_ACTIONS.find(a => a.id === action)!.label,
+    instructions: SELECTION_INSTRUCTIONS[action],
+    selection: JSON.stringify(items),
+    context
+  });
+
+  try {
+    const text = await getProvider().generateJson({
+      operation: 'transform',
+      prompt,
+      schema: selectionSchemas[action],
+      systemInstruction,
+      diagramType,
+      subject: action,
+      graph: { nodes: items.map(({ id, label, details }) => ({ id, label, details })), edges: [] }
     });
+    return JSON.parse(text) as SelectionResponse;
+  } catch (error) {
+    console.error("Selection Action Error:", error);
+    throw error;
+  }
+};
 
-    if (response.text) {
-        const res = JSON.parse(response.text);
-        return res.points || [];
-    }
-    return ["Could not generate details."];
+/**
+ * Explains a node in bullet points from the given angle and depth. Throws rather than
+ * returning placeholder points, since the result is saved on the node.
+ */
+export const getNodeDetails = async (
+  nodeLabel: string,
+  context: string,
+  diagramType?: DiagramType,
+  options: { angle: DetailAngle; depth: DetailDepth } = { angle: 'overview', depth: 'standard' }
+): Promise<string[]> => {
+  const provider = getProvider();
+  if (!provider.isConfigured()) throw new Error("API Key missing. Cannot fetch details.");
+
+  const { prompt, systemInstruction } = renderPrompt('details', diagramType, {
+    label: nodeLabel,
+    context,
+    angle: DETAIL_ANGLE_INSTRUCTIONS[options.angle],
+    depth: DETAIL_DEPTH_INSTRUCTIONS[options.depth]
+  });
+
+  let points: unknown;
+  try {
+    const text = await provider.generateJson({
+      operation: 'details',
+      prompt,
+      systemInstruction,
+      schema: {
+          type: Type.OBJECT,
+          properties: {
+              points: {
+                  type: Type.ARRAY,
+                  items: { type: Type.STRING }
+              }
+          }
+      },
+      diagramType,
+      subject: nodeLabel
+    });
+    points = text ? JSON.parse(text).points : undefined;
   } catch (error) {
-    return ["Error fetching details."];
+    console.error("Details Error:", error);
+    throw new Error("Error fetching details.");
   }
-};
\ No newline at end of file
+
+  const cleaned = Array.isArray(points) ? points.map(p => String(p).trim()).filter(Boolean) : [];
+  if (cleaned.length === 0) throw new Error("Could not generate details.");
+  return cleaned;
+};
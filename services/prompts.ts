@@ -0,0 +1,365 @@
+import { DetailAngle, DetailDepth, DiagramType } from "../types";
+import type { AIOperation } from "./providers";
+import type { SelectionAction } from "../utils/selection";
+import { getPreset } from "./storage";
+
+// A prompt with {{variable}} placeholders, plus the system instruction sent alongside it
+export interface PromptTemplate {
+  system?: string;
+  prompt: string;
+}
+
+// Templates for one operation: a fallback plus optional variants per DiagramType
+export type TemplateSet = Partial<Record<DiagramType | 'default', PromptTemplate>>;
+
+export interface PromptPreset {
+  id: string;
+  name: string;
+  description: string;
+  builtIn?: boolean;
+  // Operations a preset leaves out use the default preset's templates
+  templates: Partial<Record<AIOperation, TemplateSet>>;
+}
+
+// Variables each operation's templates can use, shown in the preset editor
+export const TEMPLATE_VARIABLES: Record<AIOperation, string[]> = {
+  generate: ['type', 'description', 'layout', 'additionalData', 'sources'],
+  update: ['type', 'context', 'instruction'],
+  drillDown: ['type', 'id', 'label', 'context', 'path', 'siblings', 'children', 'depth', 'count'],
+  details: ['label', 'context', 'angle', 'depth'],
+  transform: ['type', 'action', 'instructions', 'selection', 'context'],
+  chat: ['type', 'context', 'history', 'message']
+};
+
+// Task for each multi-select action, filled into the transform template as {{instructions}}
+export const SELECTION_INSTRUCTIONS: Record<SelectionAction, string> = {
+  summarize: "Summarise all selected nodes into ONE node. Return its 'label' (short) and 'details' (covering everything the selection said).",
+  merge: "Find selected nodes that mean the same thing. Return 'groups', each with the 'ids' of the duplicates and one 'label' and 'details' for the merged node. Leave out nodes without duplicates.",
+  regroup: "Organise the selected nodes under 2-6 new category nodes. Return 'categories', each with a 'label', 'details' and the 'members' (ids). Every selected node belongs to exactly one category.",
+  expandLeaves: "For every selected node, suggest 2-4 child nodes one level below it. Return 'expansions', each with the node's 'id' and its new 'children' (label and details). Don't repeat anything already in the selection.",
+  rewriteLabels: "Rewrite the labels so they are consistent in style, length, grammatical form and capitalisation, keeping their meaning. Return 'labels' with the 'id' and new 'label' of each node."
+};
+
+// Filled into the details template as {{angle}} and {{depth}}; 'standard' keeps the preset's own count
+export const DETAIL_ANGLE_INSTRUCTIONS: Record<DetailAngle, string> = {
+  overview: "Include technical details, pros/cons, or specific data points where applicable.",
+  prosCons: "Focus on advantages and drawbacks. Start each point with 'Pro:' or 'Con:' and cover both sides.",
+  examples: "Focus on concrete, real-world examples, each with a short note on what it shows.",
+  technical: "Focus on how it works technically: mechanisms, specifications, implementation details and figures."
+};
+
+export const DETAIL_DEPTH_INSTRUCTIONS: Record<DetailDepth, string> = {
+  brief: "Whatever the count above, give only 3 short points.",
+  standard: "",
+  deep: "Whatever the count above, give 8-10 thorough points that go beyond the basics."
+};
+
+const TYPE_RULES: Record<DiagramType, string> = {
+  [DiagramType.MINDMAP]: "Central topic must branch into major categories, then into sub-categories, then into specific examples.",
+  [DiagramType.FLOWCHART]: "Include all decision points (Yes/No), error handling steps, and specific process actions.",
+  [DiagramType.ERD]: "Nodes must represent specific tables/entities with a short description in 'details'. Fill 'columns' with every column (name, SQL type, nullable, pk, and fk as 'table.column'). Each edge goes from the table holding the foreign key to the referenced table, with its cardinality (usually 'N:1').",
+  [DiagramType.ORG_CHART]: "specific roles, not just departments. Label people as 'Name — Role' when names are known."
+};
+
+// The patch operations understood by updates and chat edits (see utils/patch)
+const PATCH_INSTRUCTIONS = `
+      - addNode: a new unique 'id', 'label', 'details', optional 'type', and the 'parent' id it hangs off.
+      - removeNode: 'id'. Its connections are removed with it.
+      - updateNode: 'id' plus the new 'label' and/or 'details'.
+      - addEdge / removeEdge: 'source' and 'target' ids ('label' is optional when adding).
+      - moveSubtree: 'id' of the node to move and its new 'parent'; everything below it moves along.
+      For ERDs, new or updated entities may carry 'columns' and new edges a 'cardinality'.`;
+
+const formatRule = (type: DiagramType) => `- **${type}**: ${TYPE_RULES[type]}`;
+
+/**
+ * Builds the generate templates for a preset: one per DiagramType carrying only that
+ * type's rules, and a fallback listing all of them.
+ */
+const generateTemplates = (system: string, task: string, instructions: string): TemplateSet => {
+  const make = (rules: string): PromptTemplate => ({
+    system,
+    prompt: `
+    ${task}
+    Layout Intention: {{layout}}.
+    Additional Context: {{additionalData}}.
+    ${instructions}
+
+    Type Specific Rules:
+    ${rules}
+    {{sources}}
+    Return strictly JSON matching the schema.
+  `
+  });
+  const types = Object.values(DiagramType);
+  return {
+    default: make(types.map(formatRule).join('\n    ')),
+    ...Object.fromEntries(types.map(type => [type, make(formatRule(type))]))
+  };
+};
+
+const drillDownTemplate = (system: string, focus: string): TemplateSet => ({
+  default: {
+    system,
+    prompt: `
+    The user wants to drill down into the node labeled: "{{label}}" (id "{{id}}") within a {{type}}.
+    Path from the root: {{path}}.
+    Node details: {{context}}.
+    Sibling nodes, covered elsewhere in the diagram: {{siblings}}.
+    Existing children, already in the diagram: {{children}}.
+
+    Task:
+    1. Generate about {{count}} granular new nodes below "{{label}}", nested up to {{depth}} level(s) deep.
+    2. ${focus}
+    3. Do not repeat the siblings, the existing children, or anything on the path.
+    4. Give each new node its own id. Connect top-level new nodes from "{{id}}" and deeper nodes from their parent among the new nodes.
+  `
+  }
+});
+
+const detailsTemplate = (instruction: string): TemplateSet => ({
+  default: {
+    prompt: `
+    ${instruction} "{{label}}".
+    Context: {{context}}.
+    {{angle}}
+    {{depth}}
+  `
+  }
+});
+
+const DEFAULT_PRESET: PromptPreset = {
+  id: 'exhaustive',
+  name: 'Exhaustive (default)',
+  description: 'Deep hierarchies with 30+ nodes and details on every node.',
+  builtIn: true,
+  templates: {
+    generate: generateTemplates(
+      "You are a meticulous Data Architect. You hate brevity. You love depth, nested structures, and comprehensive details. You always expand topics fully.",
+      'Create a highly detailed and exhaustive {{type}} based on the following description: "{{description}}".',
+      `
+    CRITICAL INSTRUCTIONS FOR COMPLETENESS:
+    1. **Exhaustive Breakdown**: Do not summarize. Break down every topic into granular sub-topics.
+    2. **Depth**: For Mindmaps, generate at least 4 levels of hierarchy (Root -> Main Branch -> Sub-branch -> Leaf Details).
+    3. **Quantity**: Aim for a high number of nodes (30+) to fully cover the subject.
+    4. **Details**: Populate the 'details' field for every node with specific attributes, examples, or data points.`
+    ),
+    update: {
+      default: {
+        system: "You are an intelligent diagram editor. You modify existing structures based on user intent while maintaining graph integrity and depth.",
+        prompt: `
+    You are updating an existing {{type}}.
+
+    Current Structure (JSON):
+    {{context}}
+
+    User Request: "{{instruction}}"
+
+    Instructions:
+    1. Analyze the User Request and the Current Structure.
+    2. Return ONLY the edits that carry out the request, in order, as 'operations'. Everything you don't touch stays as it is.
+    3. Available operations:${PATCH_INSTRUCTIONS}
+    4. Refer to existing nodes by their IDs.
+    5. **Preserve Depth**: Do not remove or simplify existing branches unless asked.
+    6. **Add Detail**: If adding new nodes, ensure they are as detailed as the rest of the diagram.
+  `
+      }
+    },
+    drillDown: drillDownTemplate(
+      "You are an expert analyst expanding a diagram. Provide highly detailed sub-nodes.",
+      'Include specific examples, attributes, or sub-process steps.'
+    ),
+    details: detailsTemplate('Provide 5-7 detailed, actionable bullet points explaining:'),
+    transform: {
+      default: {
+        system: "You are an intelligent diagram editor. You restructure parts of a diagram precisely, changing only what the action asks for.",
+        prompt: `
+    You are editing selected nodes of a {{type}} ({{context}}).
+    Action: {{action}}.
+
+    Selected nodes (JSON; 'parent' is the label of each node's parent):
+    {{selection}}
+
+    Task:
+    {{instructions}}
+    Refer to existing nodes only by the ids given above.
+  `
+      }
+    },
+    chat: {
+      default: {
+        system: "You are a helpful assistant discussing a diagram with its author. You answer questions about it plainly and edit it only when asked.",
+        prompt: `
+    You are discussing an existing {{type}} with the user.
+
+    Current Structure (JSON):
+    {{context}}
+
+    Conversation so far:
+    {{history}}
+
+    User: "{{message}}"
+
+    Instructions:
+    1. Answer in 'reply' as plain text, briefly. Questions about the diagram (what is missing, unclear or wrong) need only a reply.
+    2. Only when the user asks for a change, or agrees to one you suggested, also return the edits as 'operations', referring to existing nodes by their IDs. Available operations:${PATCH_INSTRUCTIONS}
+    3. Otherwise leave 'operations' out.
+  `
+      }
+    }
+  }
+};
+
+export const BUILT_IN_PRESETS: PromptPreset[] = [
+  DEFAULT_PRESET,
+  {
+    id: 'concise',
+    name: 'Concise overview',
+    description: 'The essentials only: 10-20 nodes, 2-3 levels, one-sentence details.',
+    builtIn: true,
+    templates: {
+      generate: generateTemplates(
+        "You are a clear communicator. You distil any subject to its essentials and leave out everything secondary.",
+        'Create a concise overview {{type}} based on the following description: "{{description}}".',
+        `
+    INSTRUCTIONS:
+    1. **Essentials Only**: Cover the main ideas; skip minor sub-topics and edge cases.
+    2. **Depth**: Use 2-3 levels of hierarchy at most.
+    3. **Quantity**: Aim for 10-20 nodes.
+    4. **Details**: Give each node a single plain sentence in 'details'.`
+      ),
+      drillDown: drillDownTemplate(
+        "You are an analyst expanding a diagram. Keep sub-nodes short and to the point.",
+        'Cover only the most important aspects.'
+      ),
+      details: detailsTemplate('Provide 3 short, plain-language bullet points explaining:')
+    }
+  },
+  {
+    id: 'study-guide',
+    name: 'Exhaustive study guide',
+    description: 'For learning: definitions, examples, key facts and common misconceptions.',
+    builtIn: true,
+    templates: {
+      generate: generateTemplates(
+        "You are an expert teacher preparing revision material. You are thorough, precise, and you explain with examples.",
+        'Create an exhaustive study-guide {{type}} for learning the following subject: "{{description}}".',
+        `
+    INSTRUCTIONS FOR A STUDY GUIDE:
+    1. **Full Coverage**: Include every concept a learner is expected to know, organised from fundamentals to advanced topics.
+    2. **Depth**: Use at least 4 levels of hierarchy (Subject -> Topic -> Concept -> Facts and Examples).
+    3. **Quantity**: Aim for 40+ nodes.
+    4. **Details**: In 'details', give a definition, a worked example or key fact, and any common misconception.`
+      ),
+      drillDown: drillDownTemplate(
+        "You are an expert teacher expanding a study guide. Provide precise, example-rich sub-topics.",
+        'Include definitions, examples, formulas or dates, and common mistakes.'
+      ),
+      details: detailsTemplate('Provide 5-7 study notes (definition, example, key fact, common misconception) explaining:')
+    }
+  },
+  {
+    id: 'architecture',
+    name: 'Technical architecture',
+    description: 'Components, data stores, interfaces and non-functional concerns.',
+    builtIn: true,
+    templates: {
+      generate: generateTemplates(
+        "You are a senior software architect. You describe systems precisely in terms of components, responsibilities, interfaces and trade-offs.",
+        'Create a technical architecture {{type}} for the following system: "{{description}}".',
+        `
+    INSTRUCTIONS FOR AN ARCHITECTURE VIEW:
+    1. **Components**: Break the system into services, modules, data stores, queues and external integrations.
+    2. **Interfaces**: Name the protocols and APIs between components (REST, gRPC, events, SQL).
+    3. **Cross-cutting Concerns**: Cover security, scalability, observability and failure handling.
+    4. **Details**: In 'details', give each component's responsibility and suggested technologies.`
+      ),
+      drillDown: drillDownTemplate(
+        "You are a senior software architect expanding an architecture diagram.",
+        'Include sub-components, interfaces, data flows and technology choices.'
+      ),
+      details: detailsTemplate('Provide 5-7 technical bullet points (responsibility, interfaces, technologies, risks) explaining:')
+    }
+  }
+];
+
+let activePreset: PromptPreset = DEFAULT_PRESET;
+
+export const getActivePreset = () => activePreset;
+
+// The preset used by every AI operation until changed; set from the Wizard and when a diagram opens
+export const setActivePreset = (preset: PromptPreset) => {
+  activePreset = preset;
+};
+
+/**
+ * Finds a built-in or saved preset by id, falling back to the default (e.g. once deleted).
+ */
+export const findPreset = async (id?: string): Promise<PromptPreset> => {
+  if (!id) return DEFAULT_PRESET;
+  const builtIn = BUILT_IN_PRESETS.find(p => p.id === id);
+  if (builtIn) return builtIn;
+  try {
+    return (await getPreset(id)) || DEFAULT_PRESET;
+  } catch (err) {
+    console.error("Preset Error:", err);
+    return DEFAULT_PRESET;
+  }
+};
+
+/**
+ * Picks the template for an operation: the preset's variant for the DiagramType, then its
+ * fallback, then the same from the default preset.
+ */
+export const resolveTemplate = (preset: PromptPreset, operation: AIOperation, diagramType?: DiagramType): PromptTemplate => {
+  const lookup = (set?: TemplateSet) => set && ((diagramType && set[diagramType]) || set.default);
+  return lookup(preset.templates[operation]) || lookup(DEFAULT_PRESET.templates[operation])!;
+};
+
+// Unknown variables render empty
+export const fillTemplate = (template: string, variables: Record<string, string>) =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) => variables[name] ?? '');
+
+/**
+ * Renders the active preset's template for an operation.
+ */
+export const renderPrompt = (
+  operation: AIOperation,
+  diagramType: DiagramType | undefined,
+  variables: Record<string, string>
+): { prompt: string; systemInstruction?: string } => {
+  const template = resolveTemplate(activePreset, operation, diagramType);
+  return {
+    prompt: fillTemplate(template.prompt, variables),
+    ...(template.system ? { systemInstruction: fillTemplate(template.system, variables) } : {})
+  };
+};
+
+/**
+ * Builds a custom preset from an existing one. Edited templates are stored for the given
+ * DiagramType; everything else is inherited from the base preset.
+ */
+export const customizePreset = (
+  base: PromptPreset,
+  name: string,
+  diagramType: DiagramType,
+  drafts: Record<AIOperation, PromptTemplate>
+): Omit<PromptPreset, 'id'> & { id?: string } => {
+  const templates: PromptPreset['templates'] = { ...base.templates };
+  (Object.keys(drafts) as AIOperation[]).forEach(operation => {
+    const original = resolveTemplate(base, operation, diagramType);
+    const draft = drafts[operation];
+    if (draft.prompt === original.prompt && (draft.system || '') === (original.system || '')) return;
+    templates[operation] = {
+      ...(base.templates[operation] || DEFAULT_PRESET.templates[operation]),
+      [diagramType]: draft.system?.trim() ? draft : { prompt: draft.prompt }
+    };
+  });
+  return {
+    // Editing a custom preset updates it in place
+    ...(base.builtIn ? {} : { id: base.id }),
+    name,
+    description: base.builtIn ? `Customized from ${base.name}.` : base.description,
+    templates
+  };
+};
@@ -0,0 +1,195 @@
+import { DiagramType, GeneratedResponse } from "../../types";
+import type { SourcePassage } from "../../utils/grounding";
+import type { PatchOperation } from "../../utils/patch";
+import { createIdGenerator } from "../../utils/graph";
+
+/**
+ * Deterministic fixture graphs used by the mock provider.
+ * The subject only changes labels, never the shape, so flows are reproducible.
+ */
+const mindmapFixture = (subject: string): GeneratedResponse => ({
+  nodes: [
+    { id: 'n1', label: subject, details: 'Central topic' },
+    { id: 'n2', label: 'Goals', details: 'What success looks like' },
+    { id: 'n3', label: 'Short term', details: 'Next 3 months' },
+    { id: 'n4', label: 'Long term', details: 'Next 2 years' },
+    { id: 'n5', label: 'Resources', details: 'People, budget and tools' },
+    { id: 'n6', label: 'Team', details: 'Who is involved' },
+    { id: 'n7', label: 'Budget', details: 'Expected spend' },
+    { id: 'n8', label: 'Risks', details: 'What could go wrong' },
+    { id: 'n9', label: 'Technical', details: 'Tooling and integration risks' },
+    { id: 'n10', label: 'Market', details: 'Competition and demand' }
+  ],
+  edges: [
+    { source: 'n1', target: 'n2' },
+    { source: 'n2', target: 'n3' },
+    { source: 'n2', target: 'n4' },
+    { source: 'n1', target: 'n5' },
+    { source: 'n5', target: 'n6' },
+    { source: 'n5', target: 'n7' },
+    { source: 'n1', target: 'n8' },
+    { source: 'n8', target: 'n9' },
+    { source: 'n8', target: 'n10' }
+  ]
+});
+
+const flowchartFixture = (subject: string): GeneratedResponse => ({
+  nodes: [
+    { id: 'n1', label: 'Start', type: 'start' },
+    { id: 'n2', label: `Receive ${subject}`, type: 'process', details: 'Capture the incoming request' },
+    { id: 'n3', label: 'Is input valid?', type: 'decision' },
+    { id: 'n4', label: 'Process request', type: 'process', details: 'Apply business rules' },
+    { id: 'n5', label: 'Report error', type: 'process', details: 'Notify the requester' },
+    { id: 'n6', label: 'End', type: 'end' }
+  ],
+  edges: [
+    { source: 'n1', target: 'n2' },
+    { source: 'n2', target: 'n3' },
+    { source: 'n3', target: 'n4', label: 'Yes' },
+    { source: 'n3', target: 'n5', label: 'No' },
+    { source: 'n4', target: 'n6' },
+    { source: 'n5', target: 'n6' }
+  ]
+});
+
+const erdFixture = (subject: string): GeneratedResponse => ({
+  nodes: [
+    {
+      id: 'n1', label: 'users', type: 'entity', details: 'Registered accounts',
+      columns: [
+        { name: 'id', type: 'INTEGER', pk: true, nullable: false },
+        { name: 'email', type: 'VARCHAR(255)', nullable: false },
+        { name: 'created_at', type: 'TIMESTAMP', nullable: false }
+      ]
+    },
+    {
+      id: 'n2', label: 'projects', type: 'entity', details: subject,
+      columns: [
+        { name: 'id', type: 'INTEGER', pk: true, nullable: false },
+        { name: 'owner_id', type: 'INTEGER', nullable: false, fk: 'users.id' },
+        { name: 'name', type: 'VARCHAR(255)', nullable: false }
+      ]
+    },
+    {
+      id: 'n3', label: 'tasks', type: 'entity', details: 'Work items within a project',
+      columns: [
+        { name: 'id', type: 'INTEGER', pk: true, nullable: false },
+        { name: 'project_id', type: 'INTEGER', nullable: false, fk: 'projects.id' },
+        { name: 'title', type: 'VARCHAR(255)', nullable: false },
+        { name: 'status', type: 'VARCHAR(32)', nullable: true }
+      ]
+    }
+  ],
+  edges: [
+    { source: 'n2', target: 'n1', label: 'owned by', cardinality: 'N:1' },
+    { source: 'n3', target: 'n2', label: 'belongs to', cardinality: 'N:1' }
+  ]
+});
+
+const orgChartFixture = (subject: string): GeneratedResponse => ({
+  nodes: [
+    { id: 'n1', label: 'Chief Executive Officer', details: subject },
+    { id: 'n2', label: 'Chief Technology Officer' },
+    { id: 'n3', label: 'Engineering Manager' },
+    { id: 'n4', label: 'Chief Operating Officer' },
+    { id: 'n5', label: 'Operations Lead' }
+  ],
+  edges: [
+    { source: 'n1', target: 'n2' },
+    { source: 'n2', target: 'n3' },
+    { source: 'n1', target: 'n4' },
+    { source: 'n4', target: 'n5' }
+  ]
+});
+
+export const getGenerateFixture = (type: DiagramType | undefined, subject: string): GeneratedResponse => {
+  switch (type) {
+    case DiagramType.FLOWCHART: return flowchartFixture(subject);
+    case DiagramType.ERD: return erdFixture(subject);
+    case DiagramType.ORG_CHART: return orgChartFixture(subject);
+    default: return mindmapFixture(subject);
+  }
+};
+
+/**
+ * Cites the passages round-robin, quoting each one's first sentence, as a grounded response would.
+ */
+export const citeFixture = (graph: GeneratedResponse, sources: SourcePassage[]) => ({
+  ...graph,
+  nodes: graph.nodes.map((n, idx) => {
+    const source = sources[idx % sources.length];
+    return { ...n, sourceId: source.id, quote: source.text.split(/(?<=[.!?])\s/)[0].slice(0, 160) };
+  })
+});
+
+/**
+ * Adds one node recording the instruction, attached to the root. Answers with both the patch
+ * operations and the resulting full graph, so it also serves the full-rewrite fallback.
+ */
+export const getUpdateFixture = (graph: GeneratedResponse | undefined, instruction: string): GeneratedResponse & { operations: PatchOperation[] } => {
+  const nodes = graph ? [...graph.nodes] : [];
+  const edges = graph ? [...graph.edges] : [];
+  const id = createIdGenerator(nodes.map(n => n.id))('mock');
+  const targets = new Set(edges.map(e => e.target));
+  const root = nodes.find(n => !targets.has(n.id));
+
+  const added: PatchOperation = { op: 'addNode', id, label: instruction, details: 'Added by the mock provider', ...(root ? { parent: root.id } : {}) };
+  nodes.push({ id, label: instruction, details: 'Added by the mock provider' });
+  if (root) edges.push({ source: root.id, target: id });
+
+  return { operations: [added], nodes, edges };
+};
+
+/**
+ * Replies to a chat message; messages that read like an edit request also get the update fixture.
+ */
+export const getChatFixture = (graph: GeneratedResponse | undefined, message: string): unknown => {
+  const count = graph?.nodes.length ?? 0;
+  if (/\b(add|remove|delete|rename|change|move|include)\b/i.test(message)) {
+    return { reply: `Sure — here is the diagram with "${message}" added.`, operations: getUpdateFixture(graph, message).operations };
+  }
+  return { reply: `The mock provider can't judge "${message}", but the diagram has ${count} ${count === 1 ? 'node' : 'nodes'}.` };
+};
+
+// Two aspects of the node, each with an example below it
+export const getDrillDownFixture = (label: string, parentId = 'parent'): GeneratedResponse => ({
+  nodes: [
+    ...[1, 2].map(i => ({ id: `d${i}`, label: `${label} – aspect ${i}`, details: `Detail ${i} of ${label}` })),
+    ...[1, 2].map(i => ({ id: `d${i + 2}`, label: `Example of aspect ${i}`, details: `Illustrates aspect ${i} of ${label}` }))
+  ],
+  edges: [
+    { source: parentId, target: 'd1' },
+    { source: parentId, target: 'd2' },
+    { source: 'd1', target: 'd3' },
+    { source: 'd2', target: 'd4' }
+  ]
+});
+
+export const getDetailsFixture = (label: string): string[] => [
+  `${label} is described here by the mock provider.`,
+  'First supporting point with a concrete example.',
+  'Second supporting point covering trade-offs.',
+  'Third supporting point with a data point.',
+  'Suggested next step.'
+];
+
+/**
+ * Answers a multi-select action (its id is the request subject) in the shape the action expects.
+ */
+export const getTransformFixture = (action: string, nodes: GeneratedResponse['nodes']): unknown => {
+  const ids = nodes.map(n => n.id);
+  switch (action) {
+    case 'summarize':
+      return { label: `Summary of ${nodes.length} nodes`, details: nodes.map(n => n.label).join('; ') };
+    case 'merge':
+      return { groups: ids.length >= 2 ? [{ ids: ids.slice(0, 2), label: `${nodes[0].label} / ${nodes[1].label}` }] : [] };
+    case 'regroup': {
+      const half = Math.ceil(ids.length / 2);
+      return { categories: [{ label: 'Group A', members: ids.slice(0, half) }, { label: 'Group B', members: ids.slice(half) }] };
+    }
+    case 'expandLeaves':
+      return { expansions: nodes.map(n => ({ id: n.id, children: [1, 2].map(i => ({ label: `${n.label} – part ${i}` })) })) };
+    default:
+      return { labels: nodes.map(n => ({ id: n.id, label: n.label.charAt(0).toUpperCase() + n.label.slice(1).toLowerCase() })) };
+  }
+};
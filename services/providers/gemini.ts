@@ -0,0 +1,73 @@
+import { GoogleGenAI } from "@google/genai";
+import { AIProvider, AIRequest } from "./types";
+
+// Reverting to 2.5-flash as requested
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+// Lazy initialization to prevent crash if env vars are missing at startup
+let aiInstance: GoogleGenAI | null = null;
+
+const getAiClient = () => {
+  if (aiInstance) return aiInstance;
+
+  const apiKey = process.env.API_KEY;
+  // Check for empty string as well, since we default to '' in vite.config.ts
+  if (apiKey && apiKey.length > 0) {
+    aiInstance = new GoogleGenAI({ apiKey });
+    return aiInstance;
+  }
+  return null;
+};
+
+const requireAiClient = () => {
+  const ai = getAiClient();
+  if (!ai) {
+    throw new Error("API Key is missing. Please create a .env file with API_KEY=your_key and restart the server.");
+  }
+  return ai;
+};
+
+const toParams = (request: AIRequest, signal?: AbortSignal) => ({
+  model: process.env.AI_MODEL || DEFAULT_MODEL,
+  contents: request.prompt,
+  config: {
+    responseMimeType: "application/json",
+    responseSchema: request.schema,
+    systemInstruction: request.systemInstruction,
+    abortSignal: signal
+  }
+});
+
+export const createGeminiProvider = (): AIProvider => ({
+  id: 'gemini',
+  label: 'Google Gemini',
+  isConfigured: () => getAiClient() !== null,
+  generateJson: async (request: AIRequest, signal?: AbortSignal) => {
+    const response = await requireAiClient().models.generateContent(toParams(request, signal));
+    if (signal?.aborted) throw new DOMException("Generation was cancelled.", "AbortError");
+
+    if (!response.text) {
+      throw new Error("No content generated from Gemini.");
+    }
+    return response.text;
+  },
+  streamJson: async (request, onChunk, signal) => {
+    const stream = await requireAiClient().models.generateContentStream(toParams(request, signal));
+
+    let text = '';
+    for await (const chunk of stream) {
+      // The SDK stops reading but doesn't always throw once the signal fires
+      if (signal?.aborted) throw new DOMException("Generation was cancelled.", "AbortError");
+      if (!chunk.text) continue;
+      text += chunk.text;
+      onChunk(chunk.text);
+    }
+    // The stream can also just end early when aborted
+    if (signal?.aborted) throw new DOMException("Generation was cancelled.", "AbortError");
+
+    if (!text) {
+      throw new Error("No content generated from Gemini.");
+    }
+    return text;
+  }
+});
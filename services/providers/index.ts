@@ -0,0 +1,47 @@
+import { AIProvider, ProviderId } from "./types";
+import { createGeminiProvider } from "./gemini";
+import { createOpenAIProvider } from "./openai";
+import { createMockProvider } from "./mock";
+
+export type { AIProvider, AIRequest, AIOperation, ProviderId } from "./types";
+
+const factories: Record<ProviderId, () => AIProvider> = {
+  gemini: createGeminiProvider,
+  openai: createOpenAIProvider,
+  mock: createMockProvider
+};
+
+let activeProvider: AIProvider | null = null;
+
+const isProviderId = (value: string): value is ProviderId => Object.prototype.hasOwnProperty.call(factories, value);
+
+/**
+ * Returns the provider selected by AI_PROVIDER (defaults to Gemini).
+ */
+export const getProvider = (): AIProvider => {
+  if (activeProvider) return activeProvider;
+
+  const configured = (process.env.AI_PROVIDER || 'gemini').toLowerCase();
+  if (!isProviderId(configured)) {
+    throw new Error(`Unknown AI_PROVIDER "${configured}". Use one of: ${Object.keys(factories).join(', ')}.`);
+  }
+  activeProvider = factories[configured]();
+  return activeProvider;
+};
+
+/**
+ * The active provider's name for display. Safe to call while rendering: a misconfigured
+ * AI_PROVIDER only surfaces when a request is made.
+ */
+export const getProviderLabel = (): string => {
+  try {
+    return getProvider().label;
+  } catch {
+    return 'the AI provider';
+  }
+};
+
+// Swap providers at runtime, e.g. to force the mock in development
+export const setProvider = (id: ProviderId) => {
+  activeProvider = factories[id]();
+};
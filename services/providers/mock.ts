@@ -0,0 +1,56 @@
+import { AIProvider, AIRequest } from "./types";
+import { citeFixture, getChatFixture, getDetailsFixture, getDrillDownFixture, getGenerateFixture, getTransformFixture, getUpdateFixture } from "./fixtures";
+
+// Small delay so loading states are visible during development
+const MOCK_LATENCY_MS = 300;
+
+// Streams pretty-printed JSON in small slices so partial rendering is easy to watch
+const MOCK_CHUNK_SIZE = 48;
+const MOCK_CHUNK_DELAY_MS = 40;
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const respond = (request: AIRequest): unknown => {
+  const subject = request.subject || 'Untitled';
+
+  switch (request.operation) {
+    case 'generate': {
+      const graph = getGenerateFixture(request.diagramType, subject);
+      return request.sources?.length ? citeFixture(graph, request.sources) : graph;
+    }
+    case 'update':
+      return getUpdateFixture(request.graph, subject);
+    case 'drillDown':
+      return getDrillDownFixture(subject, request.graph?.nodes[0]?.id);
+    case 'details':
+      return { points: getDetailsFixture(subject) };
+    case 'transform':
+      return getTransformFixture(subject, request.graph?.nodes || []);
+    case 'chat':
+      return getChatFixture(request.graph, subject);
+  }
+};
+
+/**
+ * Offline stand-in that answers every operation with fixture JSON. Needs no key and no network.
+ */
+export const createMockProvider = (): AIProvider => ({
+  id: 'mock',
+  label: 'Mock (offline)',
+  isConfigured: () => true,
+  generateJson: async (request: AIRequest, signal?: AbortSignal) => {
+    await delay(MOCK_LATENCY_MS);
+    if (signal?.aborted) throw new DOMException("Generation was cancelled.", "AbortError");
+    return JSON.stringify(respond(request));
+  },
+  streamJson: async (request, onChunk, signal) => {
+    const text = JSON.stringify(respond(request), null, 2);
+    await delay(MOCK_LATENCY_MS);
+    for (let i = 0; i < text.length; i += MOCK_CHUNK_SIZE) {
+      if (signal?.aborted) throw new DOMException("Generation was cancelled.", "AbortError");
+      onChunk(text.slice(i, i + MOCK_CHUNK_SIZE));
+      await delay(MOCK_CHUNK_DELAY_MS);
+    }
+    return text;
+  }
+});
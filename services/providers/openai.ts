@@ -0,0 +1,119 @@
+import type { Schema } from "@google/genai";
+import { AIProvider, AIRequest } from "./types";
+
+// Ollama's OpenAI-compatible endpoint; llama.cpp's server listens on :8080/v1
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+
+/**
+ * Converts a Gemini response schema (upper-case OpenAPI types) into plain JSON Schema.
+ */
+export const toJsonSchema = (schema: Schema): Record<string, unknown> => {
+  const result: Record<string, unknown> = {};
+  if (schema.type) result.type = schema.type.toLowerCase();
+  if (schema.description) result.description = schema.description;
+  if (schema.enum) result.enum = schema.enum;
+  if (schema.items) result.items = toJsonSchema(schema.items);
+  if (schema.properties) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).map(([key, value]) => [key, toJsonSchema(value)])
+    );
+  }
+  if (schema.required) result.required = schema.required;
+  return result;
+};
+
+/**
+ * Reads an OpenAI-style server-sent event stream, passing each content delta to onChunk.
+ */
+const readEventStream = async (body: ReadableStream<Uint8Array>, onChunk: (chunk: string) => void): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let text = '';
+
+  const handleLine = (line: string) => {
+    if (!line.startsWith('data:')) return;
+    const payload = line.slice(5).trim();
+    if (!payload || payload === '[DONE]') return;
+    const delta: string | undefined = JSON.parse(payload)?.choices?.[0]?.delta?.content;
+    if (!delta) return;
+    text += delta;
+    onChunk(delta);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    // Events can be split across reads, so only handle complete lines
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    lines.forEach(handleLine);
+  }
+  handleLine(buffered + decoder.decode());
+  return text;
+};
+
+export const createOpenAIProvider = (): AIProvider => {
+  const baseUrl = (process.env.AI_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+  const apiKey = process.env.AI_API_KEY;
+
+  const postCompletion = async (request: AIRequest, stream: boolean, signal?: AbortSignal) => {
+    const messages = [];
+    if (request.systemInstruction) {
+      messages.push({ role: 'system', content: request.systemInstruction });
+    }
+    messages.push({ role: 'user', content: request.prompt });
+
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model: process.env.AI_MODEL || DEFAULT_MODEL,
+        messages,
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: request.operation, schema: toJsonSchema(request.schema) }
+        },
+        ...(stream ? { stream: true } : {})
+      }),
+      signal
+    });
+
+    if (!res.ok) {
+      throw new Error(`OpenAI-compatible endpoint returned ${res.status}: ${await res.text()}`);
+    }
+    return res;
+  };
+
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    // Local servers usually need no key, so a base URL is all we require
+    isConfigured: () => baseUrl.length > 0,
+    generateJson: async (request: AIRequest, signal?: AbortSignal) => {
+      const res = await postCompletion(request, false, signal);
+      const body = await res.json();
+      const text: string | undefined = body?.choices?.[0]?.message?.content;
+      if (!text) {
+        throw new Error("No content generated from the OpenAI-compatible endpoint.");
+      }
+      return text;
+    },
+    streamJson: async (request, onChunk, signal) => {
+      const res = await postCompletion(request, true, signal);
+      if (!res.body) {
+        throw new Error("The OpenAI-compatible endpoint did not return a stream.");
+      }
+      const text = await readEventStream(res.body, onChunk);
+      if (!text) {
+        throw new Error("No content generated from the OpenAI-compatible endpoint.");
+      }
+      return text;
+    }
+  };
+};
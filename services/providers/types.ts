@@ -0,0 +1,31 @@
+import type { Schema } from "@google/genai";
+import { DiagramType, GeneratedResponse } from "../../types";
+import type { SourcePassage } from "../../utils/grounding";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+// The operations exposed by services/gemini.ts ('transform' runs an action on selected nodes,
+// 'chat' answers a message in the diagram's conversation)
+export type AIOperation = 'generate' | 'update' | 'drillDown' | 'details' | 'transform' | 'chat';
+
+export interface AIRequest {
+  operation: AIOperation;
+  prompt: string;
+  schema: Schema;
+  systemInstruction?: string;
+  // Structured context, used by providers that don't read the prompt (e.g. the mock)
+  diagramType?: DiagramType;
+  subject?: string; // Description, node label, user instruction, selection action or chat message
+  graph?: GeneratedResponse; // Current graph for updates, selected nodes for transforms
+  sources?: SourcePassage[]; // Document passages a generation is grounded in
+}
+
+export interface AIProvider {
+  id: ProviderId;
+  label: string;
+  isConfigured: () => boolean;
+  // Resolves with the raw JSON text returned by the model. Rejects if the signal aborts.
+  generateJson: (request: AIRequest, signal?: AbortSignal) => Promise<string>;
+  // Same, but hands each text chunk to onChunk as it arrives. Rejects if the signal aborts.
+  streamJson: (request: AIRequest, onChunk: (chunk: string) => void, signal?: AbortSignal) => Promise<string>;
+}
@@ -0,0 +1,156 @@
+import { DiagramEdge, DiagramNode, DiagramType, LayoutStyle, SavedDiagram, SavedDiagramSummary } from "../types";
+import type { PromptPreset } from "./prompts";
+
+const DB_NAME = 'mindgenius';
+const DB_VERSION = 2;
+const STORE = 'diagrams';
+// Custom prompt presets (version 2)
+const PRESET_STORE = 'presets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error("IndexedDB is not available in this browser."));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE)) {
+        const store = db.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(PRESET_STORE)) {
+        db.createObjectStore(PRESET_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+  // Allow a retry after a failed open
+  dbPromise.catch(() => { dbPromise = null; });
+  return dbPromise;
+};
+
+// Wraps a single-store transaction in a promise that settles when the transaction completes
+const withStore = async <T>(
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>,
+  storeName: string = STORE
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+const newId = () =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `d-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * Drops React Flow runtime state (selection, drag, measured sizes) before persisting.
+ */
+const toStoredNodes = (nodes: DiagramNode[]): DiagramNode[] =>
+  nodes.map(({ selected, dragging, positionAbsolute, ...rest }) => rest);
+
+const toStoredEdges = (edges: DiagramEdge[]): DiagramEdge[] =>
+  edges.map(({ selected, ...rest }) => rest);
+
+export const titleFromPrompt = (prompt: string) => {
+  const firstLine = prompt.trim().split('\n')[0] || 'Untitled diagram';
+  return firstLine.length > 60 ? `${firstLine.slice(0, 57)}...` : firstLine;
+};
+
+export const listDiagrams = async (): Promise<SavedDiagramSummary[]> => {
+  const all = await withStore<SavedDiagram[]>('readonly', store => store.getAll());
+  return all
+    .sort((a, b) => b.updatedAt - a.updatedAt)
+    .map(d => ({ id: d.id, title: d.title, type: d.type, prompt: d.prompt, updatedAt: d.updatedAt, nodeCount: d.nodes.length }));
+};
+
+export const getDiagram = async (id: string): Promise<SavedDiagram | undefined> =>
+  withStore<SavedDiagram | undefined>('readonly', store => store.get(id));
+
+export const createDiagram = async (input: {
+  title: string;
+  type: DiagramType;
+  prompt: string;
+  layout: LayoutStyle;
+  presetId?: string;
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}): Promise<SavedDiagram> => {
+  const now = Date.now();
+  const diagram: SavedDiagram = {
+    ...input,
+    id: newId(),
+    nodes: toStoredNodes(input.nodes),
+    edges: toStoredEdges(input.edges),
+    createdAt: now,
+    updatedAt: now
+  };
+  await withStore('readwrite', store => store.put(diagram));
+  return diagram;
+};
+
+/**
+ * Merges the given fields into a stored diagram and bumps its updatedAt.
+ */
+export const saveDiagram = async (id: string, changes: Partial<Omit<SavedDiagram, 'id' | 'createdAt'>>): Promise<SavedDiagram> => {
+  const existing = await getDiagram(id);
+  if (!existing) throw new Error(`Diagram ${id} not found.`);
+
+  const updated: SavedDiagram = {
+    ...existing,
+    ...changes,
+    nodes: changes.nodes ? toStoredNodes(changes.nodes) : existing.nodes,
+    edges: changes.edges ? toStoredEdges(changes.edges) : existing.edges,
+    updatedAt: Date.now()
+  };
+  await withStore('readwrite', store => store.put(updated));
+  return updated;
+};
+
+export const renameDiagram = (id: string, title: string) => saveDiagram(id, { title });
+
+export const duplicateDiagram = async (id: string): Promise<SavedDiagram> => {
+  const existing = await getDiagram(id);
+  if (!existing) throw new Error(`Diagram ${id} not found.`);
+  const { id: _id, createdAt, updatedAt, ...rest } = existing;
+  return createDiagram({ ...rest, title: `${existing.title} (copy)` });
+};
+
+export const deleteDiagram = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id));
+};
+
+export const listPresets = async (): Promise<PromptPreset[]> => {
+  const all = await withStore<PromptPreset[]>('readonly', store => store.getAll(), PRESET_STORE);
+  return all.sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export const getPreset = async (id: string): Promise<PromptPreset | undefined> =>
+  withStore<PromptPreset | undefined>('readonly', store => store.get(id), PRESET_STORE);
+
+/**
+ * Stores a custom preset, assigning an id to new ones.
+ */
+export const savePreset = async (preset: Omit<PromptPreset, 'id'> & { id?: string }): Promise<PromptPreset> => {
+  const saved: PromptPreset = { ...preset, id: preset.id || newId(), builtIn: false };
+  await withStore('readwrite', store => store.put(saved), PRESET_STORE);
+  return saved;
+};
+
+export const deletePreset = async (id: string): Promise<void> => {
+  await withStore('readwrite', store => store.delete(id), PRESET_STORE);
+};
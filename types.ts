@@ -19,9 +19,45 @@ export type DiagramNode = Node<{
   label: string;
   details?: string;
   type?: string; // e.g., 'decision', 'process', 'entity'
+  pinned?: boolean; // Kept in place when the diagram is re-laid out
+  columns?: ErdColumn[]; // ERD entities only; older diagrams list attributes in details instead
+  citation?: Citation; // Set when the diagram was generated from uploaded documents
+  detailPoints?: DetailPoints; // Bullet points from the Details panel, kept so they needn't be fetched again
 }>;
 
-export type DiagramEdge = Edge;
+// What generated detail points concentrate on, and how many there are
+export type DetailAngle = 'overview' | 'prosCons' | 'examples' | 'technical';
+export type DetailDepth = 'brief' | 'standard' | 'deep';
+
+export interface DetailPoints {
+  points: string[];
+  angle: DetailAngle;
+  depth: DetailDepth;
+  edited?: boolean; // Changed by hand since they were generated
+}
+
+// The source passage a document-grounded node was drawn from
+export interface Citation {
+  document: string; // File name
+  location?: string; // e.g. 'page 4' for PDFs
+  quote: string; // Supporting excerpt
+}
+
+// A column of an ERD entity
+export interface ErdColumn {
+  name: string;
+  type?: string; // SQL type as written, e.g. 'VARCHAR(255)'
+  nullable?: boolean;
+  pk?: boolean;
+  unique?: boolean; // Unique on its own (a column-level UNIQUE or single-column constraint)
+  fk?: string; // Referenced "table" or "table.column"; empty when the target is unknown
+}
+
+// Relationship cardinality read from source to target, e.g. 'N:1' = many sources per target
+export type Cardinality = '1:1' | '1:N' | 'N:1' | 'N:M';
+
+// ERD edges carry their cardinality in data
+export type DiagramEdge = Edge<{ cardinality?: Cardinality }>;
 
 export interface GraphData {
   nodes: DiagramNode[];
@@ -35,15 +71,55 @@ export interface GeneratedNode {
   type?: string; // For shape logic
   details?: string; // Initial short details
   parentId?: string; // To help link back
+  columns?: ErdColumn[]; // ERD entities
+  citation?: Citation;
 }
 
 export interface GeneratedResponse {
   nodes: GeneratedNode[];
-  edges: { source: string; target: string; label?: string }[];
+  edges: { source: string; target: string; label?: string; cardinality?: Cardinality }[];
+}
+
+// Response after validation/repair, with a note for every repair made
+export interface ValidatedResponse extends GeneratedResponse {
+  warnings: string[];
 }
 
 export interface DrillDownResponse {
   newNodes: GeneratedNode[];
   newEdges: { source: string; target: string; label?: string }[];
   context?: string;
-}
\ No newline at end of file
+}
+
+// A message in a diagram's chat thread. Assistant messages that proposed an edit keep
+// a record of it, so the thread shows what each answer changed.
+export interface ChatMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  text: string;
+  timestamp: number;
+  edit?: {
+    status: 'pending' | 'applied' | 'rejected';
+    changes: string[]; // Descriptions of the proposed changes; the accepted ones once applied
+    nodeIds: string[]; // Nodes added or changed by the applied edit
+  };
+}
+
+// Persisted Library Types
+export interface SavedDiagram {
+  id: string;
+  title: string;
+  type: DiagramType;
+  prompt: string; // Original wizard description
+  layout: LayoutStyle;
+  presetId?: string; // Prompt preset used for AI operations on this diagram
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+  chat?: ChatMessage[]; // Conversation with the AI about this diagram
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SavedDiagramSummary = Pick<SavedDiagram, 'id' | 'title' | 'type' | 'prompt' | 'updatedAt'> & {
+  nodeCount: number;
+};
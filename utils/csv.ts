@@ -0,0 +1,52 @@
+// Candidate delimiters, picked by whichever appears most in the header line
+const DELIMITERS = [',', ';', '\t'];
+
+const detectDelimiter = (text: string) => {
+  const header = text.slice(0, text.search(/\r?\n|$/));
+  return DELIMITERS.reduce((best, d) => header.split(d).length > header.split(best).length ? d : best, DELIMITERS[0]);
+};
+
+/**
+ * Parses CSV (RFC 4180 quoting, CRLF or LF line breaks) into rows of cells.
+ * Comma, semicolon and tab delimiters are detected from the header line. Blank lines are skipped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const delimiter = detectDelimiter(text);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0].trim()) rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"' && cell === '') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell || row.length) endRow();
+  return rows;
+};
@@ -0,0 +1,254 @@
+import { Cardinality, DiagramNode, DiagramEdge, ErdColumn, GeneratedNode, GeneratedResponse } from '../types';
+import { relabelNode } from './graph';
+
+// Changes sharing a group only make sense together and are accepted or rejected as one
+export type GraphChange = (
+  | { id: string; kind: 'addNode'; node: GeneratedNode }
+  | { id: string; kind: 'removeNode'; nodeId: string; label: string }
+  | { id: string; kind: 'updateNode'; nodeId: string; fromLabel: string; toLabel: string; details?: string; columns?: ErdColumn[] }
+  | { id: string; kind: 'addEdge'; source: string; target: string; label?: string; cardinality?: Cardinality }
+  | { id: string; kind: 'removeEdge'; edgeId: string; source: string; target: string }
+) & { group?: string };
+
+export interface GraphDiff {
+  changes: GraphChange[];
+}
+
+const normalize = (label: string) => label.trim().toLowerCase();
+const edgeKey = (source: string, target: string) => `${source}->${target}`;
+
+/**
+ * Structural diff between the current canvas and a proposed full graph.
+ * Proposed nodes are matched to current ones by id first, then by (case-insensitive) label;
+ * edges are compared after translating proposed ids into current ids.
+ */
+export const computeGraphDiff = (
+  currentNodes: DiagramNode[],
+  currentEdges: DiagramEdge[],
+  proposed: GeneratedResponse
+): GraphDiff => {
+  const changes: GraphChange[] = [];
+  const currentById = new Map(currentNodes.map(n => [n.id, n]));
+  const matched = new Set<string>(); // Current node ids that have a counterpart
+  const idMap = new Map<string, string>(); // Proposed id -> current id
+
+  // Pass 1: id matches
+  proposed.nodes.forEach(p => {
+    if (currentById.has(p.id) && !matched.has(p.id)) {
+      matched.add(p.id);
+      idMap.set(p.id, p.id);
+    }
+  });
+
+  // Pass 2: label matches among the remaining nodes
+  const unmatchedByLabel = new Map<string, DiagramNode[]>();
+  currentNodes.filter(n => !matched.has(n.id)).forEach(n => {
+    const key = normalize(String(n.data.label));
+    unmatchedByLabel.set(key, [...(unmatchedByLabel.get(key) || []), n]);
+  });
+  proposed.nodes.forEach(p => {
+    if (idMap.has(p.id)) return;
+    const candidate = unmatchedByLabel.get(normalize(p.label))?.shift();
+    if (candidate) {
+      matched.add(candidate.id);
+      idMap.set(p.id, candidate.id);
+    }
+  });
+
+  proposed.nodes.forEach(p => {
+    const currentId = idMap.get(p.id);
+    if (!currentId) {
+      // Keep proposed ids for new nodes unless they would collide with an existing node
+      const id = currentById.has(p.id) ? `${p.id}-new` : p.id;
+      idMap.set(p.id, id);
+      changes.push({ id: `add:${id}`, kind: 'addNode', node: { ...p, id } });
+      return;
+    }
+    const current = currentById.get(currentId)!;
+    const labelChanged = String(current.data.label) !== p.label;
+    const detailsChanged = p.details !== undefined && p.details !== current.data.details;
+    const columnsChanged = p.columns !== undefined && JSON.stringify(p.columns) !== JSON.stringify(current.data.columns);
+    if (labelChanged || detailsChanged || columnsChanged) {
+      changes.push({
+        id: `update:${currentId}`,
+        kind: 'updateNode',
+        nodeId: currentId,
+        fromLabel: String(current.data.label),
+        toLabel: p.label,
+        details: detailsChanged ? p.details : undefined,
+        columns: columnsChanged ? p.columns : undefined
+      });
+    }
+  });
+
+  currentNodes.filter(n => !matched.has(n.id)).forEach(n => {
+    changes.push({ id: `remove:${n.id}`, kind: 'removeNode', nodeId: n.id, label: String(n.data.label) });
+  });
+
+  const currentEdgeKeys = new Set(currentEdges.map(e => edgeKey(e.source, e.target)));
+  const proposedEdgeKeys = new Set<string>();
+  proposed.edges.forEach(e => {
+    const source = idMap.get(e.source);
+    const target = idMap.get(e.target);
+    if (!source || !target) return; // Points at a node the model didn't return
+    const key = edgeKey(source, target);
+    if (proposedEdgeKeys.has(key)) return;
+    proposedEdgeKeys.add(key);
+    if (!currentEdgeKeys.has(key)) {
+      changes.push({ id: `add-edge:${key}`, kind: 'addEdge', source, target, label: e.label, cardinality: e.cardinality });
+    }
+  });
+
+  currentEdges.forEach(e => {
+    const key = edgeKey(e.source, e.target);
+    if (!proposedEdgeKeys.has(key)) {
+      changes.push({ id: `remove-edge:${e.id}`, kind: 'removeEdge', edgeId: e.id, source: e.source, target: e.target });
+    }
+  });
+
+  return { changes };
+};
+
+/**
+ * The change and every change grouped with it.
+ */
+export const getLinkedChangeIds = (diff: GraphDiff, changeId: string): string[] => {
+  const group = diff.changes.find(c => c.id === changeId)?.group;
+  return group ? diff.changes.filter(c => c.group === group).map(c => c.id) : [changeId];
+};
+
+/**
+ * Applies the accepted subset of a diff. New nodes/edges are returned bare so the caller can
+ * style them; edges whose endpoints end up missing are dropped.
+ */
+export const applyGraphDiff = (
+  currentNodes: DiagramNode[],
+  currentEdges: DiagramEdge[],
+  diff: GraphDiff,
+  accepted: Set<string>
+): { nodes: DiagramNode[]; edges: DiagramEdge[]; addedNodes: GeneratedNode[]; addedEdges: GeneratedResponse['edges'] } => {
+  const take = diff.changes.filter(c => accepted.has(c.id));
+
+  const removedNodes = new Set(take.flatMap(c => c.kind === 'removeNode' ? [c.nodeId] : []));
+  const removedEdges = new Set(take.flatMap(c => c.kind === 'removeEdge' ? [c.edgeId] : []));
+  const updates = new Map(take.flatMap(c => c.kind === 'updateNode' ? [[c.nodeId, c] as const] : []));
+
+  const nodes = currentNodes
+    .filter(n => !removedNodes.has(n.id))
+    .map(n => {
+      const update = updates.get(n.id);
+      if (!update) return n;
+      return { ...n, data: { ...relabelNode(n.data, update.toLabel), details: update.details ?? n.data.details, columns: update.columns ?? n.data.columns } };
+    });
+
+  const addedNodes = take.flatMap(c => c.kind === 'addNode' ? [c.node] : []);
+  const existingIds = new Set([...nodes.map(n => n.id), ...addedNodes.map(n => n.id)]);
+
+  const edges = currentEdges.filter(e =>
+    !removedEdges.has(e.id) && existingIds.has(e.source) && existingIds.has(e.target)
+  );
+  const addedEdges = take.flatMap(c =>
+    c.kind === 'addEdge' && existingIds.has(c.source) && existingIds.has(c.target)
+      ? [{ source: c.source, target: c.target, label: c.label, cardinality: c.cardinality }]
+      : []
+  );
+
+  return { nodes, edges, addedNodes, addedEdges };
+};
+
+const PREVIEW_COLORS = {
+  add: { stroke: '#16a34a', fill: '#f0fdf4' },
+  remove: { stroke: '#dc2626', fill: '#fef2f2' },
+  update: { stroke: '#d97706', fill: '#fffbeb' }
+};
+
+/**
+ * Union of the current graph and every proposed change, coloured by change kind
+ * (green added, red removed, amber relabelled). Unaccepted changes are faded.
+ */
+export const buildDiffPreview = (
+  currentNodes: DiagramNode[],
+  currentEdges: DiagramEdge[],
+  diff: GraphDiff,
+  accepted: Set<string>,
+  styleNewNode: (node: GeneratedNode) => DiagramNode['style'],
+  newNodeType = 'default'
+): { nodes: DiagramNode[]; edges: DiagramEdge[] } => {
+  const nodeChange = new Map<string, GraphChange>();
+  const edgeChange = new Map<string, GraphChange>();
+  diff.changes.forEach(c => {
+    if (c.kind === 'removeNode' || c.kind === 'updateNode') nodeChange.set(c.nodeId, c);
+    if (c.kind === 'addNode') nodeChange.set(c.node.id, c);
+    if (c.kind === 'removeEdge') edgeChange.set(c.edgeId, c);
+  });
+
+  const highlight = (style: DiagramNode['style'], colors: { stroke: string; fill: string }, dashed: boolean, isAccepted: boolean) => ({
+    ...style,
+    border: `2px ${dashed ? 'dashed' : 'solid'} ${colors.stroke}`,
+    background: colors.fill,
+    borderRadius: '8px',
+    opacity: isAccepted ? 1 : 0.35
+  });
+
+  const nodes: DiagramNode[] = currentNodes.map(n => {
+    const change = nodeChange.get(n.id);
+    if (!change) return { ...n, selected: false };
+    const isAccepted = accepted.has(change.id);
+    if (change.kind === 'updateNode') {
+      return {
+        ...n,
+        selected: false,
+        data: { ...n.data, label: change.fromLabel === change.toLabel ? change.toLabel : `${change.fromLabel} → ${change.toLabel}` },
+        style: highlight(n.style, PREVIEW_COLORS.update, false, isAccepted)
+      };
+    }
+    return { ...n, selected: false, style: highlight(n.style, PREVIEW_COLORS.remove, true, isAccepted) };
+  });
+
+  diff.changes.forEach(c => {
+    if (c.kind !== 'addNode') return;
+    nodes.push({
+      id: c.node.id,
+      type: newNodeType,
+      position: { x: 0, y: 0 },
+      data: { label: c.node.label, details: c.node.details, type: c.node.type, columns: c.node.columns },
+      style: highlight(styleNewNode(c.node), PREVIEW_COLORS.add, false, accepted.has(c.id))
+    });
+  });
+
+  const edges: DiagramEdge[] = currentEdges.map(e => {
+    const change = edgeChange.get(e.id);
+    if (!change) return { ...e, selected: false };
+    return {
+      ...e,
+      selected: false,
+      style: { ...e.style, stroke: PREVIEW_COLORS.remove.stroke, strokeDasharray: '6 4', opacity: accepted.has(change.id) ? 1 : 0.35 }
+    };
+  });
+
+  diff.changes.forEach(c => {
+    if (c.kind !== 'addEdge') return;
+    edges.push({
+      id: c.id,
+      source: c.source,
+      target: c.target,
+      label: c.label,
+      style: { stroke: PREVIEW_COLORS.add.stroke, strokeWidth: 2, opacity: accepted.has(c.id) ? 1 : 0.35 }
+    });
+  });
+
+  return { nodes, edges };
+};
+
+export const describeChange = (change: GraphChange, labelOf: (id: string) => string): string => {
+  switch (change.kind) {
+    case 'addNode': return `Add "${change.node.label}"`;
+    case 'removeNode': return `Remove "${change.label}"`;
+    case 'updateNode':
+      return change.fromLabel !== change.toLabel
+        ? `Rename "${change.fromLabel}" to "${change.toLabel}"`
+        : `Update details of "${change.toLabel}"`;
+    case 'addEdge': return `Connect "${labelOf(change.source)}" → "${labelOf(change.target)}"`;
+    case 'removeEdge': return `Disconnect "${labelOf(change.source)}" → "${labelOf(change.target)}"`;
+  }
+};
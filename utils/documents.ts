@@ -0,0 +1,80 @@
+import { parseCsv } from './csv';
+
+// File types whose text can be extracted in the browser
+export const DOCUMENT_ACCEPT = '.pdf,.md,.markdown,.txt,.csv,.docx';
+
+// Text extracted from an uploaded file. PDFs keep one section per page so citations can name the page.
+export interface SourceDocument {
+  name: string;
+  sections: { location?: string; text: string }[];
+}
+
+const extension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+const extractPdf = async (data: ArrayBuffer): Promise<SourceDocument['sections']> => {
+  // pdf.js is large, so it's only loaded once a PDF is attached
+  const [pdfjs, worker] = await Promise.all([import('pdfjs-dist'), import('pdfjs-dist/build/pdf.worker.min.mjs?url')]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+
+  const pdf = await pdfjs.getDocument({ data }).promise;
+  try {
+    const sections: SourceDocument['sections'] = [];
+    for (let i = 1; i <= pdf.numPages; i++) {
+      const page = await pdf.getPage(i);
+      const content = await page.getTextContent();
+      const text = content.items.map(item => 'str' in item ? item.str + (item.hasEOL ? '\n' : '') : '').join('');
+      if (text.trim()) sections.push({ location: `page ${i}`, text });
+    }
+    return sections;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+const extractDocx = async (data: ArrayBuffer): Promise<SourceDocument['sections']> => {
+  const mammoth = await import('mammoth');
+  const result = await mammoth.extractRawText({ arrayBuffer: data });
+  return [{ text: result.value }];
+};
+
+// Rows become "header: value" lines so each passage keeps its column names
+const csvToText = (text: string) => {
+  const [header = [], ...rows] = parseCsv(text);
+  return rows
+    .map((row, idx) => `Row ${idx + 1}: ${row.map((cell, col) => `${header[col] || `column ${col + 1}`}: ${cell}`).join('; ')}`)
+    .join('\n');
+};
+
+/**
+ * Extracts the text of an uploaded PDF, DOCX, Markdown, plain text or CSV file, locally.
+ */
+export const extractDocument = async (file: File): Promise<SourceDocument> => {
+  const ext = extension(file.name);
+  let sections: SourceDocument['sections'];
+  switch (ext) {
+    case 'pdf':
+      sections = await extractPdf(await file.arrayBuffer());
+      break;
+    case 'docx':
+      sections = await extractDocx(await file.arrayBuffer());
+      break;
+    case 'csv':
+      sections = [{ text: csvToText(await file.text()) }];
+      break;
+    case 'md':
+    case 'markdown':
+    case 'txt':
+      sections = [{ text: await file.text() }];
+      break;
+    default:
+      throw new Error(`Unsupported file type ".${ext}". Use a PDF, DOCX, Markdown, text or CSV file.`);
+  }
+
+  sections = sections.filter(s => s.text.trim());
+  if (sections.length === 0) {
+    throw new Error(ext === 'pdf' ? "No text found. Scanned PDFs need OCR first." : "The file contains no text.");
+  }
+  return { name: file.name, sections };
+};
+
+export const documentLength = (doc: SourceDocument) => doc.sections.reduce((sum, s) => sum + s.text.length, 0);
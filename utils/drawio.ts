@@ -0,0 +1,220 @@
+import { Position } from 'reactflow';
+import { Cardinality, DiagramEdge, DiagramNode, DiagramType } from '../types';
+import { FLOWCHART_SHAPE_COLORS, FlowchartShape, getFlowchartShape } from './graph';
+import { ERD_HEADER_HEIGHT, ERD_ROW_HEIGHT, getNodeSize } from './layout';
+import { formatColumns, getColumns } from './erd';
+
+// We prefix IDs with "node_" and "edge_" to avoid collisions with Draw.io reserved IDs '0' and '1'
+// (the importer strips them again)
+export const DRAWIO_NODE_PREFIX = 'node_';
+export const DRAWIO_EDGE_PREFIX = 'edge_';
+
+export interface DrawIOPage {
+  name: string;
+  diagramType: DiagramType;
+  nodes: DiagramNode[];
+  edges: DiagramEdge[];
+}
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\n/g, '&#10;');
+
+// Labels are HTML in draw.io (html=1), so escape them once as HTML before the XML attribute escaping
+const toHtmlLabel = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/\n/g, '<br>');
+
+const toStyle = (entries: Record<string, string | number | undefined>) =>
+  Object.entries(entries).filter(([, v]) => v !== undefined).map(([k, v]) => v === '' ? `${k};` : `${k}=${v};`).join('');
+
+const parsePx = (value: unknown) => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(n) ? n : undefined;
+};
+
+const hexColor = (value: unknown) => {
+  if (typeof value !== 'string') return undefined;
+  const hex = value.match(/#[0-9a-fA-F]{6}\b|#[0-9a-fA-F]{3}\b/)?.[0];
+  return hex && hex.length === 4 ? '#' + hex.slice(1).split('').map(c => c + c).join('') : hex;
+};
+
+const FLOWCHART_STYLES: Record<FlowchartShape, Record<string, string | number>> = {
+  process: { rounded: 1, arcSize: 5 },
+  decision: { rhombus: '' },
+  terminator: { rounded: 1, arcSize: 50 },
+  io: { shape: 'parallelogram', perimeter: 'parallelogramPerimeter', fixedSize: 1, size: 16 },
+  document: { shape: 'document', boundedLbl: 1, size: 0.16 },
+  database: { shape: 'cylinder3', boundedLbl: 1, backgroundOutline: 1, size: 10 }
+};
+
+const COMMON_VERTEX = { whiteSpace: 'wrap', html: 1, fontFamily: 'Inter', fontSize: 13, fontColor: '#1e293b' };
+
+/**
+ * draw.io style string for a node: flowchart shapes from data.type, ERD tables, org cards,
+ * and everything else (Mindmap topics) from the node's own CSS style.
+ */
+export const getDrawIOVertexStyle = (node: DiagramNode, diagramType: DiagramType): string => {
+  if (diagramType === DiagramType.FLOWCHART) {
+    const shape = getFlowchartShape(node.data.type);
+    const { fill, stroke } = FLOWCHART_SHAPE_COLORS[shape];
+    return toStyle({ ...FLOWCHART_STYLES[shape], ...COMMON_VERTEX, fillColor: fill, strokeColor: stroke, strokeWidth: 1.5 });
+  }
+  if (diagramType === DiagramType.ERD) {
+    return toStyle({
+      swimlane: '', fontStyle: 1, childLayout: 'stackLayout', horizontal: 1, startSize: ERD_HEADER_HEIGHT,
+      horizontalStack: 0, resizeParent: 1, resizeLast: 0, collapsible: 0, marginBottom: 0, html: 1,
+      fontFamily: 'Inter', fontSize: 13, fillColor: '#475569', swimlaneFillColor: '#ffffff', fontColor: '#ffffff',
+      strokeColor: '#64748b', align: 'left', spacingLeft: 12
+    });
+  }
+  if (diagramType === DiagramType.ORG_CHART) {
+    return toStyle({ rounded: 1, arcSize: 8, ...COMMON_VERTEX, fillColor: '#ffffff', strokeColor: '#e2e8f0', shadow: 1 });
+  }
+
+  const style = (node.style || {}) as Record<string, unknown>;
+  const fill = hexColor(style.backgroundColor) ?? hexColor(style.background);
+  const border = typeof style.border === 'string' && !/none/.test(style.border) ? style.border : undefined;
+  const radius = parsePx(style.borderRadius) ?? 0;
+  const { height } = getNodeSize(node);
+  return toStyle({
+    rounded: radius > 0 ? 1 : 0,
+    arcSize: radius > 0 ? Math.min(50, Math.round((radius / height) * 100)) : undefined,
+    ...COMMON_VERTEX,
+    fontSize: parsePx(style.fontSize) ?? 13,
+    fontStyle: (parsePx(style.fontWeight) ?? 400) >= 600 ? 1 : undefined,
+    fillColor: fill || 'none',
+    strokeColor: border ? hexColor(border) || '#cbd5e1' : 'none',
+    strokeWidth: border ? parsePx(border) : undefined
+  });
+};
+
+// Where React Flow handles sit, as draw.io connection constraints
+const CONSTRAINTS: Record<Position, { x: number; y: number }> = {
+  [Position.Top]: { x: 0.5, y: 0 },
+  [Position.Bottom]: { x: 0.5, y: 1 },
+  [Position.Left]: { x: 0, y: 0.5 },
+  [Position.Right]: { x: 1, y: 0.5 }
+};
+
+// draw.io's crow's-foot arrows for each end of a cardinality
+const ER_ARROW: Record<string, string> = { '1': 'ERmandOne', N: 'ERmany', M: 'ERmany' };
+
+/**
+ * draw.io style string for an edge: stroke colour/width/dash from the edge style, routing from the
+ * edge type (curved for bezier, orthogonal otherwise), fixed ends where the app has fixed handles,
+ * and crow's-foot ends for ERD cardinalities.
+ */
+export const getDrawIOEdgeStyle = (edge: DiagramEdge, source?: DiagramNode, target?: DiagramNode): string => {
+  const style = (edge.style || {}) as Record<string, unknown>;
+  const isBezier = edge.type === 'default' || edge.type === undefined;
+  const isOrthogonal = edge.type === 'orthogonal';
+  const cardinality = edge.data?.cardinality as Cardinality | undefined;
+  const [sourceEnd, targetEnd] = cardinality ? cardinality.split(':') : [];
+  // Nearest-side ERD edges float; the others leave and enter where the layout put the handles
+  const exit = !isOrthogonal && source?.sourcePosition ? CONSTRAINTS[source.sourcePosition] : undefined;
+  const entry = !isOrthogonal && target?.targetPosition ? CONSTRAINTS[target.targetPosition] : undefined;
+
+  return toStyle({
+    edgeStyle: isOrthogonal ? 'entityRelationEdgeStyle' : 'orthogonalEdgeStyle',
+    curved: isBezier ? 1 : undefined,
+    rounded: isBezier ? undefined : 1,
+    orthogonalLoop: 1,
+    jettySize: 'auto',
+    html: 1,
+    strokeColor: hexColor(style.stroke) || '#64748b',
+    strokeWidth: parsePx(style.strokeWidth) ?? 1,
+    dashed: style.strokeDasharray ? 1 : undefined,
+    startArrow: sourceEnd ? ER_ARROW[sourceEnd] : 'none',
+    endArrow: targetEnd ? ER_ARROW[targetEnd] : edge.markerEnd ? 'block' : 'none',
+    endFill: targetEnd ? undefined : 1,
+    exitX: exit?.x, exitY: exit?.y, exitDx: exit ? 0 : undefined, exitDy: exit ? 0 : undefined,
+    entryX: entry?.x, entryY: entry?.y, entryDx: entry ? 0 : undefined, entryDy: entry ? 0 : undefined,
+    fontSize: 11,
+    fontColor: '#4b5563',
+    labelBackgroundColor: '#ffffff'
+  });
+};
+
+// <UserObject> carries the label plus our own attributes (details as the tooltip, type, pin) through draw.io
+const userObject = (id: string, label: string, attrs: Record<string, string | undefined>, cell: string) => {
+  const extra = Object.entries(attrs).filter(([, v]) => v).map(([k, v]) => ` ${k}="${escapeXml(v!)}"`).join('');
+  return `<UserObject id="${escapeXml(id)}" label="${escapeXml(label)}"${extra}>${cell}</UserObject>`;
+};
+
+const pageModel = ({ diagramType, nodes, edges }: DrawIOPage): string => {
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const cells: string[] = [
+    // Diagram-level data lives on the root cell, where draw.io's "Edit Data" keeps it
+    `<UserObject id="0" label="" diagramType="${escapeXml(diagramType)}"><mxCell /></UserObject>`,
+    '<mxCell id="1" parent="0" />'
+  ];
+
+  nodes.forEach(node => {
+    const id = `${DRAWIO_NODE_PREFIX}${node.id}`;
+    const { width, height } = getNodeSize(node);
+    const columns = diagramType === DiagramType.ERD ? getColumns(node.data) : [];
+    const tableHeight = ERD_HEADER_HEIGHT + Math.max(1, columns.length) * ERD_ROW_HEIGHT;
+    const geometry = `<mxGeometry x="${node.position.x}" y="${node.position.y}" width="${width}" height="${diagramType === DiagramType.ERD ? Math.max(height, tableHeight) : height}" as="geometry" />`;
+    cells.push(userObject(id, toHtmlLabel(String(node.data.label)), {
+      tooltip: diagramType === DiagramType.ERD ? undefined : node.data.details,
+      nodeType: node.data.type,
+      pinned: node.data.pinned ? '1' : undefined
+    }, `<mxCell style="${escapeXml(getDrawIOVertexStyle(node, diagramType))}" vertex="1" parent="1">${geometry}</mxCell>`));
+
+    // ERD columns are rows inside the table (the importer folds them back into details)
+    formatColumns(columns).split('\n').filter(Boolean).forEach((row, idx) => {
+      const rowStyle = toStyle({
+        text: '', strokeColor: 'none', fillColor: 'none', align: 'left', verticalAlign: 'middle', spacingLeft: 12,
+        overflow: 'hidden', rotatable: 0, points: '[[0,0.5],[1,0.5]]', portConstraint: 'eastwest', html: 1,
+        fontFamily: 'Inter', fontSize: 12, fontColor: '#334155', fontStyle: columns[idx].pk ? 1 : undefined
+      });
+      cells.push(`<mxCell id="${escapeXml(`${id}_col_${idx}`)}" value="${escapeXml(toHtmlLabel(row))}" style="${escapeXml(rowStyle)}" vertex="1" parent="${escapeXml(id)}"><mxGeometry y="${ERD_HEADER_HEIGHT + idx * ERD_ROW_HEIGHT}" width="${width}" height="${ERD_ROW_HEIGHT}" as="geometry" /></mxCell>`);
+    });
+  });
+
+  // ERD edges attached to a column handle attach to that row
+  const endpoint = (nodeId: string, handle?: string | null) => {
+    const node = nodeById.get(nodeId);
+    if (node && handle?.startsWith('col:')) {
+      const idx = getColumns(node.data).findIndex(c => c.name === handle.slice(4));
+      if (idx >= 0) return `${DRAWIO_NODE_PREFIX}${nodeId}_col_${idx}`;
+    }
+    return `${DRAWIO_NODE_PREFIX}${nodeId}`;
+  };
+
+  edges.forEach(edge => {
+    const style = getDrawIOEdgeStyle(edge, nodeById.get(edge.source), nodeById.get(edge.target));
+    const cell = `<mxCell style="${escapeXml(style)}" edge="1" parent="1" source="${escapeXml(endpoint(edge.source, edge.sourceHandle))}" target="${escapeXml(endpoint(edge.target, edge.targetHandle))}"><mxGeometry relative="1" as="geometry" /></mxCell>`;
+    cells.push(userObject(`${DRAWIO_EDGE_PREFIX}${edge.id}`, toHtmlLabel(String(edge.label || '')), {
+      cardinality: edge.data?.cardinality
+    }, cell));
+  });
+
+  return `<mxGraphModel grid="1" gridSize="10" guides="1" tooltips="1" connect="1" arrows="1" fold="1" page="0" pageScale="1" math="0" shadow="0"><root>${cells.join('')}</root></mxGraphModel>`;
+};
+
+/**
+ * Compressed pages store base64(deflate-raw(encodeURIComponent(xml))), the inverse of inflateDrawIODiagram.
+ */
+export const deflateDrawIODiagram = async (xml: string): Promise<string> => {
+  const stream = new Blob([encodeURIComponent(xml)]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+  const bytes = new Uint8Array(await new Response(stream).arrayBuffer());
+  let binary = '';
+  // Chunked so large diagrams don't overflow the argument list
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+/**
+ * Builds a compressed .drawio file with one page per entry.
+ */
+export const toDrawIO = async (pages: DrawIOPage[]): Promise<string> => {
+  const diagrams = await Promise.all(pages.map(async (page, idx) =>
+    `  <diagram id="page-${idx + 1}" name="${escapeXml(page.name)}">${await deflateDrawIODiagram(pageModel(page))}</diagram>`
+  ));
+  return [
+    `<mxfile host="app.diagrams.net" modified="${new Date().toISOString()}" agent="MindGenius AI" type="device" compressed="true" pages="${pages.length}">`,
+    ...diagrams,
+    '</mxfile>',
+    ''
+  ].join('\n');
+};
@@ -0,0 +1,128 @@
+import { DiagramEdge, DiagramNode, DrillDownResponse, GeneratedResponse } from '../types';
+import { createIdGenerator } from './graph';
+
+// Where a node sits in the diagram, sent with drill-down requests so results don't repeat existing branches
+export interface NodeContext {
+  path: string[]; // Labels from the root down to the node's parent
+  siblings: string[];
+  children: string[];
+}
+
+const normalizeLabel = (label: unknown) => String(label ?? '').trim().toLowerCase();
+
+/**
+ * Collects a node's ancestor path (following each node's first incoming edge), siblings and children.
+ */
+export const getNodeContext = (nodes: DiagramNode[], edges: DiagramEdge[], nodeId: string): NodeContext => {
+  const labelOf = new Map(nodes.map(n => [n.id, String(n.data.label)]));
+  const parentOf = new Map<string, string>();
+  edges.forEach(e => {
+    if (!parentOf.has(e.target)) parentOf.set(e.target, e.source);
+  });
+  const childrenOf = (id: string) => edges.filter(e => e.source === id).map(e => e.target);
+
+  const path: string[] = [];
+  const visited = new Set([nodeId]);
+  for (let id = parentOf.get(nodeId); id && !visited.has(id); id = parentOf.get(id)) {
+    visited.add(id);
+    path.unshift(labelOf.get(id) ?? id);
+  }
+
+  const parentId = parentOf.get(nodeId);
+  const siblings = parentId ? childrenOf(parentId).filter(id => id !== nodeId) : [];
+  return {
+    path,
+    siblings: siblings.map(id => labelOf.get(id) ?? id),
+    children: childrenOf(nodeId).map(id => labelOf.get(id) ?? id)
+  };
+};
+
+/**
+ * Turns a drill-down response into nodes and edges that can be added under parentId:
+ * - returned ids are replaced with ids unique in the diagram ('<parentId>-1', ...)
+ * - returned edges between new nodes are kept, so sub-hierarchies survive
+ * - new nodes nobody points to hang off the parent
+ * - nodes repeating an existing child are merged into it, and nodes deeper than maxDepth are dropped
+ */
+export const mergeDrillDown = (
+  nodes: DiagramNode[],
+  edges: DiagramEdge[],
+  parentId: string,
+  response: DrillDownResponse,
+  maxDepth: number
+): { added: GeneratedResponse; warnings: string[] } => {
+  const parent = nodes.find(n => n.id === parentId);
+  if (!parent) throw new Error(`Node ${parentId} not found.`);
+
+  const nextId = createIdGenerator(nodes.map(n => n.id));
+
+  // Model id -> diagram id; repeats of existing children map onto those children
+  const existingChildren = new Map(edges
+    .filter(e => e.source === parentId)
+    .map(e => [normalizeLabel(nodes.find(n => n.id === e.target)?.data.label), e.target]));
+  const idMap = new Map<string, string>([[parentId, parentId]]);
+  const added: GeneratedResponse['nodes'] = [];
+  let merged = 0;
+  response.newNodes.forEach(n => {
+    // Nodes without an id can't be referenced by edges but are still kept
+    const ref = String(n?.id ?? '');
+    if (!n || !String(n.label ?? '').trim() || (ref && idMap.has(ref))) return;
+    const existing = existingChildren.get(normalizeLabel(n.label));
+    if (existing) {
+      if (ref) idMap.set(ref, existing);
+      merged++;
+      return;
+    }
+    const id = nextId(parentId);
+    if (ref) idMap.set(ref, id);
+    added.push({ ...n, id, label: String(n.label).trim() });
+  });
+
+  // Models sometimes name the parent by its label rather than its id
+  const parentLabel = normalizeLabel(parent.data.label);
+  const resolve = (ref: string) => idMap.get(ref) ?? (normalizeLabel(ref) === parentLabel ? parentId : undefined);
+
+  const addedIds = new Set(added.map(n => n.id));
+  const seen = new Set(edges.map(e => `${e.source}->${e.target}`));
+  const newEdges: GeneratedResponse['edges'] = [];
+  response.newEdges.forEach(e => {
+    const source = resolve(String(e.source));
+    const target = resolve(String(e.target));
+    // Edges must lead to a new node; existing nodes keep their connections
+    if (!source || !target || source === target || !addedIds.has(target)) return;
+    const key = `${source}->${target}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    newEdges.push({ source, target, ...(e.label ? { label: e.label } : {}) });
+  });
+
+  const targets = new Set(newEdges.map(e => e.target));
+  added.forEach(n => {
+    if (!targets.has(n.id)) newEdges.push({ source: parentId, target: n.id });
+  });
+
+  // Depth below the parent, following the new edges breadth-first
+  const depth = new Map<string, number>();
+  let frontier = [...new Set([parentId, ...existingChildren.values()])];
+  frontier.forEach(id => depth.set(id, id === parentId ? 0 : 1));
+  while (frontier.length > 0) {
+    const next: string[] = [];
+    frontier.forEach(id => newEdges.filter(e => e.source === id && !depth.has(e.target)).forEach(e => {
+      depth.set(e.target, depth.get(id)! + 1);
+      next.push(e.target);
+    }));
+    frontier = next;
+  }
+  // New nodes only reachable through a cycle count as too deep
+  const kept = added.filter(n => (depth.get(n.id) ?? Infinity) <= maxDepth);
+  const keptIds = new Set([...nodes.map(n => n.id), ...kept.map(n => n.id)]);
+
+  const warnings: string[] = [];
+  if (merged) warnings.push(`${merged} suggested ${merged === 1 ? 'node repeats an existing child and was' : 'nodes repeat existing children and were'} merged into ${merged === 1 ? 'it' : 'them'}.`);
+  const dropped = added.length - kept.length;
+  if (dropped) warnings.push(`Left out ${dropped} ${dropped === 1 ? 'node' : 'nodes'} nested deeper than ${maxDepth} ${maxDepth === 1 ? 'level' : 'levels'}.`);
+  return {
+    added: { nodes: kept, edges: newEdges.filter(e => keptIds.has(e.source) && keptIds.has(e.target)) },
+    warnings
+  };
+};
@@ -0,0 +1,136 @@
+import { Cardinality, DiagramEdge, DiagramNode, ErdColumn } from '../types';
+
+const PK_PATTERN = /\(?\b(?:PK|primary\s+key)\b\)?/i;
+// "FK -> ?" (written by formatColumns) is a foreign key whose target is unknown
+const FK_PATTERN = /\(?\b(?:FK|foreign\s+key)\b(?:\s*(?:->|→|to|references|refs?)?\s*([A-Za-z_][\w.]*(?:\([\w]+\))?|\?))?\)?/i;
+const NOT_NULL_PATTERN = /\bNOT\s+NULL\b/i;
+const UNIQUE_PATTERN = /\bUNIQUE\b/i;
+const REFERENCES_PATTERN = /\breferences\s+([A-Za-z_][\w.]*(?:\([\w]+\))?)/i;
+
+// Splits on commas outside parentheses, so "DECIMAL(10,2)" stays one item
+const splitTopLevel = (text: string) => {
+  const items: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of text) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth = Math.max(0, depth - 1);
+    if (ch === ',' && depth === 0) {
+      items.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  items.push(current);
+  return items;
+};
+
+// "orders(id)" / "orders.id" -> "orders.id"
+const normalizeReference = (ref: string) => ref.replace(/\((\w+)\)$/, '.$1');
+
+/**
+ * Reads an entity's attribute list from free-text details. Accepts one attribute per line
+ * (optionally bulleted) or a comma-separated list, with PK/FK markers in any common notation:
+ * "id INT PK", "user_id (FK -> users)", "- email: VARCHAR(255)", "org_id references orgs(id)".
+ * NOT NULL and UNIQUE become flags, so formatColumns output reads back unchanged.
+ */
+export const parseColumns = (details?: string): ErdColumn[] => {
+  if (!details?.trim()) return [];
+  const lines = details.split('\n').map(l => l.trim()).filter(Boolean);
+  const items = (lines.length > 1 ? lines : splitTopLevel(lines[0]))
+    .map(item => item.replace(/^[-*•]\s*/, '').replace(/^(?:key\s+)?attributes?:\s*/i, '').trim())
+    .filter(Boolean);
+
+  return items.flatMap(item => {
+    const nameMatch = item.match(/^[`"[]?([A-Za-z_][\w]*)[`"\]]?/);
+    if (!nameMatch) return [];
+    const rest = item.slice(nameMatch[0].length);
+
+    const pk = PK_PATTERN.test(rest);
+    const fkMatch = rest.match(REFERENCES_PATTERN) || rest.match(FK_PATTERN);
+    const fk = fkMatch && fkMatch[1] !== '?' ? normalizeReference(fkMatch[1] || '') : undefined;
+    const notNull = NOT_NULL_PATTERN.test(rest);
+    const unique = UNIQUE_PATTERN.test(rest);
+
+    const type = rest
+      .replace(REFERENCES_PATTERN, '')
+      .replace(FK_PATTERN, '')
+      .replace(PK_PATTERN, '')
+      .replace(NOT_NULL_PATTERN, '')
+      .replace(UNIQUE_PATTERN, '')
+      .replace(/^\s*[:\-–]\s*/, '')
+      .replace(/\(\s*,?\s*\)/g, '')
+      .replace(/\s+/g, ' ')
+      .replace(/^[\s,;]+|[\s,;]+$/g, '');
+
+    const column: ErdColumn = { name: nameMatch[1] };
+    if (type) column.type = type;
+    if (pk) column.pk = true;
+    if (notNull) column.nullable = false;
+    if (unique) column.unique = true;
+    if (fkMatch) column.fk = fk || '';
+    return [column];
+  });
+};
+
+export const CARDINALITIES: Cardinality[] = ['1:1', '1:N', 'N:1', 'N:M'];
+
+/**
+ * An entity's columns: the typed model when present, otherwise parsed from its details.
+ */
+export const getColumns = (data: DiagramNode['data']): ErdColumn[] =>
+  data.columns?.length ? data.columns : parseColumns(data.details);
+
+/**
+ * One attribute per line in the notation parseColumns reads back.
+ */
+export const formatColumns = (columns: ErdColumn[]): string =>
+  columns.map(c => [
+    c.name,
+    c.type,
+    c.pk ? 'PK' : '',
+    c.fk !== undefined ? `FK -> ${c.fk || '?'}` : '',
+    c.nullable === false && !c.pk ? 'NOT NULL' : '',
+    c.unique && !c.pk ? 'UNIQUE' : ''
+  ].filter(Boolean).join(' ')).join('\n');
+
+// "orders.id" -> { table: "orders", column: "id" }
+export const splitReference = (fk: string): { table: string; column?: string } => {
+  const dot = fk.lastIndexOf('.');
+  return dot > 0 ? { table: fk.slice(0, dot), column: fk.slice(dot + 1) } : { table: fk };
+};
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Attaches ERD relationship edges to the column handles of ErdTableNode: the foreign-key
+ * column on the referencing table and the referenced (or primary-key) column on the other.
+ * Edges whose tables don't declare a matching foreign key stay table-to-table.
+ */
+export const linkColumnHandles = (nodes: DiagramNode[], edges: DiagramEdge[]): DiagramEdge[] => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+
+  // With several keys to the same table, the edge label names the foreign-key column
+  const findLink = (from: DiagramNode, to: DiagramNode, label?: string) => {
+    const candidates = getColumns(from.data).filter(c => c.fk && sameName(splitReference(c.fk).table, String(to.data.label)));
+    const fkColumn = candidates.find(c => label && sameName(c.name, label)) || candidates[0];
+    if (!fkColumn) return null;
+    const targetColumns = getColumns(to.data);
+    const refName = splitReference(fkColumn.fk!).column;
+    const refColumn = (refName && targetColumns.find(c => sameName(c.name, refName))) || targetColumns.find(c => c.pk);
+    return refColumn ? { fk: fkColumn.name, ref: refColumn.name } : null;
+  };
+
+  return edges.map(e => {
+    const source = byId.get(e.source);
+    const target = byId.get(e.target);
+    if (!source || !target || e.sourceHandle || e.targetHandle) return e;
+    const label = typeof e.label === 'string' ? e.label : undefined;
+    const forward = findLink(source, target, label);
+    if (forward) return { ...e, sourceHandle: `col:${forward.fk}`, targetHandle: `col:${forward.ref}` };
+    const backward = findLink(target, source, label);
+    if (backward) return { ...e, sourceHandle: `col:${backward.ref}`, targetHandle: `col:${backward.fk}` };
+    return e;
+  });
+};
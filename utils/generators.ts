@@ -0,0 +1,248 @@
+import { parse as parseYaml } from 'yaml';
+import { DiagramType, GeneratedNode, GeneratedResponse } from '../types';
+import { parseCsv } from './csv';
+import { validateGraph } from './validation';
+
+export const STRUCTURED_DATA_ACCEPT = '.csv,.tsv,.json,.yaml,.yml,.txt';
+
+export interface StructuredDiagram {
+  title: string;
+  type: DiagramType;
+  structure: GeneratedResponse;
+  warnings: string[];
+}
+
+// Large documents are cut off here; bigger diagrams aren't readable anyway
+const MAX_NODES = 500;
+// Longer values are shortened on the node and kept whole in its details
+const MAX_LABEL_LENGTH = 80;
+
+// Header names, compared lower-case without punctuation
+const ID_COLUMNS = ['id', 'employeeid', 'empid', 'personid', 'staffid', 'userid', 'key'];
+const PARENT_COLUMNS = ['parentid', 'parent', 'managerid', 'manager', 'reportsto', 'reportstoid', 'supervisorid', 'supervisor', 'linemanager'];
+const NAME_COLUMNS = ['name', 'fullname', 'employeename', 'employee', 'person', 'displayname'];
+const ROLE_COLUMNS = ['title', 'jobtitle', 'role', 'position'];
+// Object fields that name a JSON/YAML array item
+const LABEL_FIELDS = ['name', 'title', 'label', 'id', 'key'];
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+/**
+ * Collects nodes and tree edges, stopping at MAX_NODES.
+ */
+const createTreeBuilder = () => {
+  const nodes: GeneratedNode[] = [];
+  const edges: GeneratedResponse['edges'] = [];
+  let truncated = false;
+
+  const add = (label: string, parentId?: string, details?: string): string | null => {
+    if (nodes.length >= MAX_NODES) {
+      truncated = true;
+      return null;
+    }
+    const id = `n${nodes.length + 1}`;
+    const short = label.length > MAX_LABEL_LENGTH ? `${label.slice(0, MAX_LABEL_LENGTH - 1)}…` : label;
+    const fullDetails = short !== label ? [label, details].filter(Boolean).join('\n') : details;
+    nodes.push({ id, label: short, ...(fullDetails ? { details: fullDetails } : {}) });
+    if (parentId) link(parentId, id);
+    return id;
+  };
+
+  const link = (source: string, target: string) => {
+    edges.push({ source, target });
+  };
+
+  // Several top-level items hang off a shared root
+  const result = (rootLabel: string): { structure: GeneratedResponse; warnings: string[] } => {
+    const targets = new Set(edges.map(e => e.target));
+    const roots = nodes.filter(n => !targets.has(n.id));
+    if (roots.length > 1) {
+      nodes.unshift({ id: 'n0', label: rootLabel });
+      roots.forEach(r => edges.push({ source: 'n0', target: r.id }));
+    }
+    return { structure: { nodes, edges }, warnings: truncated ? [`Stopped at ${MAX_NODES} nodes; the rest of the data was left out.`] : [] };
+  };
+
+  return { add, link, result };
+};
+
+/**
+ * Builds an Org Chart from CSV rows with an id column and a parent/manager column. Parents
+ * may be given by id or by name. People are labelled 'Name — Role' when both columns exist;
+ * the remaining columns become details.
+ */
+export const orgChartFromCsv = (content: string, rootLabel: string): { structure: GeneratedResponse; warnings: string[] } => {
+  const [header, ...rows] = parseCsv(content);
+  if (!header || rows.length === 0) throw new Error("The CSV file has no data rows.");
+
+  const keys = header.map(normalizeHeader);
+  const findColumn = (names: string[]) => names.map(name => keys.indexOf(name)).find(idx => idx >= 0) ?? -1;
+  const nameCol = findColumn(NAME_COLUMNS);
+  const roleCol = findColumn(ROLE_COLUMNS);
+  const idCol = findColumn(ID_COLUMNS) >= 0 ? findColumn(ID_COLUMNS) : nameCol;
+  const parentCol = findColumn(PARENT_COLUMNS);
+  if (idCol < 0 || parentCol < 0) {
+    throw new Error("Couldn't find id and parent columns. Name them e.g. 'id' and 'parent_id' (or 'manager_id').");
+  }
+
+  const cell = (row: string[], col: number) => (col >= 0 ? row[col] ?? '' : '').trim();
+  const builder = createTreeBuilder();
+  const idByKey = new Map<string, string>();
+  const idByName = new Map<string, string>();
+  const people: { id: string; parent: string }[] = [];
+
+  rows.forEach(row => {
+    const key = cell(row, idCol);
+    const name = cell(row, nameCol);
+    const role = cell(row, roleCol);
+    const label = name && role ? `${name} — ${role}` : name || role || key;
+    const details = header
+      .map((h, col) => [idCol, parentCol, nameCol, roleCol].includes(col) || !cell(row, col) ? '' : `${h.trim()}: ${cell(row, col)}`)
+      .filter(Boolean)
+      .join('\n');
+    const id = builder.add(label || `Row ${people.length + 1}`, undefined, details || undefined);
+    if (!id) return;
+    if (key) idByKey.set(key, id);
+    if (name) idByName.set(name.toLowerCase(), id);
+    people.push({ id, parent: cell(row, parentCol) });
+  });
+
+  // Link once every row is known, since managers can appear after their reports
+  let unknown = 0;
+  people.forEach(p => {
+    if (!p.parent) return;
+    const parentId = idByKey.get(p.parent) ?? idByName.get(p.parent.toLowerCase());
+    if (parentId) builder.link(parentId, p.id);
+    else unknown++;
+  });
+
+  const built = builder.result(rootLabel);
+  if (unknown) {
+    built.warnings.push(`${plural(unknown, 'row')} named a manager that isn't in the file and ${unknown === 1 ? 'was' : 'were'} placed at the top.`);
+  }
+  return built;
+};
+
+const isBranch = (value: unknown): value is object => typeof value === 'object' && value !== null;
+
+const formatScalar = (value: unknown) => value === null ? 'null' : String(value);
+
+/**
+ * Builds a Mindmap from parsed JSON/YAML. Objects branch by key, arrays by item, and scalar
+ * values become 'key: value' leaves. Array items that are objects are named by their
+ * name/title/label/id field when they have one.
+ */
+export const mindmapFromData = (data: unknown, rootLabel: string): { structure: GeneratedResponse; warnings: string[] } => {
+  const builder = createTreeBuilder();
+
+  // A document with a single top-level key is named by it
+  const entries = isBranch(data) && !Array.isArray(data) ? Object.entries(data) : [];
+  const [label, body] = entries.length === 1 && isBranch(entries[0][1]) ? entries[0] : [rootLabel, data];
+  const rootId = builder.add(label)!;
+
+  const walk = (value: unknown, parentId: string) => {
+    if (Array.isArray(value)) {
+      value.forEach((item, idx) => {
+        if (!isBranch(item)) {
+          builder.add(formatScalar(item), parentId);
+          return;
+        }
+        const fields = Array.isArray(item) ? [] : Object.entries(item);
+        const named = fields.find(([k, v]) => LABEL_FIELDS.includes(k.toLowerCase()) && !isBranch(v) && String(v ?? '').trim());
+        const id = builder.add(named ? formatScalar(named[1]) : `Item ${idx + 1}`, parentId);
+        if (!id) return;
+        walk(named ? Object.fromEntries(fields.filter(f => f !== named)) : item, id);
+      });
+      return;
+    }
+    if (isBranch(value)) {
+      Object.entries(value).forEach(([key, child]) => {
+        if (!isBranch(child)) {
+          builder.add(`${key}: ${formatScalar(child)}`, parentId);
+          return;
+        }
+        const id = builder.add(key, parentId);
+        if (id) walk(child, id);
+      });
+      return;
+    }
+    builder.add(formatScalar(value), parentId);
+  };
+
+  walk(body, rootId);
+  return builder.result(rootLabel);
+};
+
+// Indentation, including `tree` output's "│   ", "├── " and ASCII "|-- " / "`-- " prefixes
+const TREE_PREFIX = /^(?:[├└`+|][─-]{2}\s?|[ \t│|])*/;
+const BULLET = /^(?:[-*+•]|\d+[.)])\s+/;
+// `tree`'s closing summary line
+const TREE_SUMMARY = /^\d+ director(?:y|ies)(?:, \d+ files?)?$/;
+
+/**
+ * Builds a Mindmap from an indented outline: any consistent indentation, optional bullets,
+ * and `tree`-style directory listings all nest by their leading width.
+ */
+export const mindmapFromOutline = (content: string, rootLabel: string): { structure: GeneratedResponse; warnings: string[] } => {
+  const builder = createTreeBuilder();
+  const stack: { indent: number; id: string }[] = [];
+
+  content.split(/\r?\n/).forEach(raw => {
+    const prefix = raw.match(TREE_PREFIX)![0];
+    const text = raw.slice(prefix.length).replace(BULLET, '').trim();
+    if (!text || TREE_SUMMARY.test(text)) return;
+
+    const indent = prefix.replace(/\t/g, '    ').length;
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    // `tree` prints the listed directory as "."
+    const id = builder.add(text === '.' ? rootLabel : text, stack[stack.length - 1]?.id);
+    if (id) stack.push({ indent, id });
+  });
+
+  if (stack.length === 0) throw new Error("The outline is empty.");
+  return builder.result(rootLabel);
+};
+
+/**
+ * Turns structured data into a diagram without the AI: CSV becomes an Org Chart, JSON and
+ * YAML become Mindmaps, and anything else is read as an indented outline. The structure is
+ * run through validateGraph so it gets the same repairs as generated diagrams.
+ */
+export const buildFromStructuredData = (fileName: string, content: string): StructuredDiagram => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  const title = baseName(fileName);
+  const trimmed = content.trim();
+
+  let type = DiagramType.MINDMAP;
+  let built: { structure: GeneratedResponse; warnings: string[] };
+  if (ext === 'csv' || ext === 'tsv') {
+    type = DiagramType.ORG_CHART;
+    built = orgChartFromCsv(content, title);
+  } else if (ext === 'json' || (ext !== 'yaml' && ext !== 'yml' && /^[[{]/.test(trimmed))) {
+    let data: unknown;
+    try {
+      data = JSON.parse(content);
+    } catch {
+      throw new Error("The file is not valid JSON.");
+    }
+    built = mindmapFromData(data, title);
+  } else if (ext === 'yaml' || ext === 'yml') {
+    let data: unknown;
+    try {
+      data = parseYaml(content);
+    } catch (err) {
+      throw new Error(`The file is not valid YAML: ${err instanceof Error ? err.message : String(err)}`);
+    }
+    built = mindmapFromData(data, title);
+  } else {
+    built = mindmapFromOutline(content, title);
+  }
+
+  const result = validateGraph(built.structure, type);
+  if (result.fatal) throw new Error(result.fatal);
+  return { title, type, structure: result.graph, warnings: [...built.warnings, ...result.warnings] };
+};
@@ -0,0 +1,197 @@
+import { MarkerType } from 'reactflow';
+import { DiagramType, DiagramNode, DiagramEdge, GeneratedResponse, GraphData } from '../types';
+import { linkColumnHandles } from './erd';
+
+/**
+ * Base node styling per DiagramType. Root and branch colours are applied on top of this.
+ */
+export const getNodeStyle = (type: string | undefined, diagramType: DiagramType) => {
+  const baseStyle = {
+      background: '#fff',
+      border: '1px solid #cbd5e1', // Slate-300
+      borderRadius: '8px',
+      padding: '10px 14px',
+      boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.05), 0 2px 4px -1px rgba(0, 0, 0, 0.03)',
+      minWidth: '120px',
+      fontSize: '13px',
+      color: '#1e293b',
+      textAlign: 'center' as const,
+      fontFamily: "'Inter', sans-serif"
+  };
+
+  // Flowchart shapes, ERD tables and Org Chart cards draw themselves (see components/nodes)
+  if (diagramType === DiagramType.FLOWCHART) {
+      // Decisions need room for the label inside the diamond
+      return getFlowchartShape(type) === 'decision' ? { width: 170, height: 100 } : {};
+  }
+
+  if (diagramType === DiagramType.ERD) {
+      return {};
+  }
+
+  if (diagramType === DiagramType.ORG_CHART) {
+      return { width: 220 };
+  }
+
+  // Mindmap Styling (Transparent for branches, Root override handles itself later)
+  if (diagramType === DiagramType.MINDMAP) {
+      return {
+          ...baseStyle,
+          background: 'transparent',
+          border: 'none',
+          borderRadius: '0',
+          boxShadow: 'none',
+          padding: '8px', // Minimal padding to allow selection but minimize clutter
+          fontWeight: '500',
+          minWidth: 'auto', // Let text define width
+      };
+  }
+
+  return baseStyle;
+};
+
+// Registered node component per DiagramType (see components/nodes); Mindmaps use React Flow's default node
+export const getNodeType = (diagramType: DiagramType) => {
+  switch (diagramType) {
+    case DiagramType.ERD: return 'erdTable';
+    case DiagramType.FLOWCHART: return 'flowchart';
+    case DiagramType.ORG_CHART: return 'orgCard';
+    default: return 'default';
+  }
+};
+
+export type FlowchartShape = 'process' | 'decision' | 'terminator' | 'io' | 'document' | 'database';
+
+// Shared by the flowchart node component and the vector exports
+export const FLOWCHART_SHAPE_COLORS: Record<FlowchartShape, { fill: string; stroke: string }> = {
+  process: { fill: '#ffffff', stroke: '#3b82f6' },
+  decision: { fill: '#fff0f0', stroke: '#e53e3e' },
+  terminator: { fill: '#f0fff4', stroke: '#38a169' },
+  io: { fill: '#eff6ff', stroke: '#2563eb' },
+  document: { fill: '#fffbeb', stroke: '#d97706' },
+  database: { fill: '#f5f3ff', stroke: '#7c3aed' }
+};
+
+/**
+ * Maps a node's free-text type (as returned by the model or inferred on import) to a flowchart shape.
+ */
+export const getFlowchartShape = (type?: string): FlowchartShape => {
+  const t = type?.toLowerCase() || '';
+  if (/decision|condition|question|\bbranch\b/.test(t)) return 'decision';
+  if (/\b(start|end|terminator|terminal|begin|stop)\b/.test(t)) return 'terminator';
+  if (/\b(database|db|storage|store|datastore)\b/.test(t)) return 'database';
+  if (/\b(input|output|i\/?o|data)\b/.test(t)) return 'io';
+  if (/\b(document|report|form)\b/.test(t)) return 'document';
+  return 'process';
+};
+
+/**
+ * Splits an Org Chart label into a person's name and role. Understands "Name (Role)",
+ * "Name — Role", "Name - Role" and "Role: Name"; anything else is treated as a role alone.
+ */
+export const splitPersonLabel = (label: string): { name?: string; role: string } => {
+  const paren = label.match(/^(.+?)\s*\((.+)\)$/);
+  if (paren) return { name: paren[1].trim(), role: paren[2].trim() };
+  const dash = label.match(/^(.+?)\s+[—–\-|]\s+(.+)$/);
+  if (dash) return { name: dash[1].trim(), role: dash[2].trim() };
+  const colon = label.match(/^(.+?):\s*(.+)$/);
+  if (colon) return { name: colon[2].trim(), role: colon[1].trim() };
+  return { role: label.trim() };
+};
+
+// Determine Edge Type: 'default' (Bezier) for Mindmaps for organic look, 'smoothstep' for technical diagrams,
+// and 'orthogonal' (nearest-side routing, see components/edges) for ERD relationships
+export const getEdgeType = (diagramType: DiagramType) => {
+  if (diagramType === DiagramType.MINDMAP || diagramType === DiagramType.ORG_CHART) return 'default';
+  return diagramType === DiagramType.ERD ? 'orthogonal' : 'smoothstep';
+};
+
+// Special styling for Root node in Mindmaps (Add Box Back)
+export const MINDMAP_ROOT_STYLE = {
+  backgroundColor: '#fff',
+  border: '2px solid #3b82f6',
+  borderRadius: '30px',
+  boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)',
+  fontSize: '15px',
+  fontWeight: '700',
+  padding: '16px 32px'
+};
+
+/**
+ * Returns a function that hands out ids ('<base>-1', '<base>-2', ...) not used by any existing node.
+ */
+export const createIdGenerator = (existingIds: Iterable<string>) => {
+  const taken = new Set(existingIds);
+  return (base: string) => {
+    let id: string;
+    let counter = 0;
+    do id = `${base}-${++counter}`; while (taken.has(id));
+    taken.add(id);
+    return id;
+  };
+};
+
+/**
+ * Node data with a new label. Generated detail points describe the old label, so they're
+ * dropped; points the user edited are kept.
+ */
+export const relabelNode = (data: DiagramNode['data'], label: string): DiagramNode['data'] => {
+  const stale = data.detailPoints && !data.detailPoints.edited && label !== data.label;
+  return { ...data, label, ...(stale ? { detailPoints: undefined } : {}) };
+};
+
+/**
+ * Collects a node and every node below it.
+ */
+export const getSubtreeIds = (edges: Pick<DiagramEdge, 'source' | 'target'>[], rootId: string): Set<string> => {
+  const ids = new Set([rootId]);
+  for (let frontier = [rootId]; frontier.length > 0;) {
+    frontier = edges.filter(e => frontier.includes(e.source) && !ids.has(e.target)).map(e => e.target);
+    frontier.forEach(id => ids.add(id));
+  }
+  return ids;
+};
+
+export const toFlowEdge = (e: GeneratedResponse['edges'][number], id: string, diagramType: DiagramType): DiagramEdge => ({
+  id,
+  source: e.source,
+  target: e.target,
+  label: e.label,
+  ...(e.cardinality ? { data: { cardinality: e.cardinality } } : {}),
+  type: getEdgeType(diagramType),
+  markerEnd: {
+    type: MarkerType.ArrowClosed,
+  },
+  animated: false,
+  style: { strokeWidth: 2 }
+});
+
+/**
+ * Transforms an API response into styled React Flow nodes/edges (positions are left to applyLayout).
+ */
+export const toFlowGraph = (response: GeneratedResponse, diagramType: DiagramType): GraphData => {
+  const nodes: DiagramNode[] = response.nodes.map(n => ({
+    id: n.id,
+    type: getNodeType(diagramType),
+    position: { x: 0, y: 0 },
+    data: {
+      label: n.label,
+      details: n.details,
+      type: n.type,
+      ...(n.columns ? { columns: n.columns } : {}),
+      ...(n.citation ? { citation: n.citation } : {})
+    },
+    style: getNodeStyle(n.type, diagramType)
+  }));
+
+  if (diagramType === DiagramType.MINDMAP && nodes.length > 0) {
+    nodes[0].style = { ...nodes[0].style, ...MINDMAP_ROOT_STYLE };
+  }
+
+  const edges = response.edges.map((e, idx) => toFlowEdge(e, `e${idx}`, diagramType));
+
+  if (diagramType === DiagramType.ERD) {
+    return { nodes, edges: linkColumnHandles(nodes, edges) };
+  }
+  return { nodes, edges };
+};
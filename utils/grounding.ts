@@ -0,0 +1,114 @@
+import { GeneratedResponse } from '../types';
+import { SourceDocument } from './documents';
+
+// A chunk of an uploaded document, cited by its id (e.g. 'S3')
+export interface SourcePassage {
+  id: string;
+  document: string;
+  location?: string;
+  text: string;
+}
+
+export interface Grounding {
+  passages: SourcePassage[];
+  warnings: string[];
+}
+
+// Passages are packed from whole paragraphs up to this size
+const PASSAGE_CHARS = 1500;
+// Roughly 50k tokens of source text per prompt; longer documents are sampled evenly
+const MAX_SOURCE_CHARS = 200000;
+// Fallback quote length when the model cites a passage without quoting it
+const QUOTE_CHARS = 200;
+
+/**
+ * Breaks text into pieces no longer than PASSAGE_CHARS, preferring paragraph, then line,
+ * then sentence boundaries.
+ */
+const splitText = (text: string): string[] => {
+  const pieces: string[] = [];
+  const split = (part: string, separators: RegExp[]) => {
+    if (part.length <= PASSAGE_CHARS) {
+      if (part.trim()) pieces.push(part.trim());
+      return;
+    }
+    const [separator, ...rest] = separators;
+    if (!separator) {
+      for (let i = 0; i < part.length; i += PASSAGE_CHARS) pieces.push(part.slice(i, i + PASSAGE_CHARS));
+      return;
+    }
+    part.split(separator).forEach(p => split(p, rest));
+  };
+  split(text, [/\n\s*\n/, /\n/, /(?<=[.!?])\s+/]);
+  return pieces;
+};
+
+/**
+ * Chunks documents into numbered passages (S1, S2, ...) that never span two PDF pages.
+ * If the total exceeds MAX_SOURCE_CHARS, passages are kept evenly across the documents.
+ */
+export const chunkDocuments = (documents: SourceDocument[]): Grounding => {
+  const all: Omit<SourcePassage, 'id'>[] = [];
+  documents.forEach(doc => doc.sections.forEach(section => {
+    let current = '';
+    const flush = () => {
+      if (current) all.push({ document: doc.name, location: section.location, text: current });
+      current = '';
+    };
+    splitText(section.text).forEach(piece => {
+      if (current && current.length + piece.length + 2 > PASSAGE_CHARS) flush();
+      current = current ? `${current}\n\n${piece}` : piece;
+    });
+    flush();
+  }));
+
+  const warnings: string[] = [];
+  const total = all.reduce((sum, p) => sum + p.text.length, 0);
+  let kept = all;
+  if (total > MAX_SOURCE_CHARS) {
+    const keepEvery = Math.ceil(total / MAX_SOURCE_CHARS);
+    kept = all.filter((_, idx) => idx % keepEvery === 0);
+    warnings.push(`The documents are long, so the diagram is based on ${kept.length} of ${all.length} passages spread across them.`);
+  }
+  return { passages: kept.map((p, idx) => ({ id: `S${idx + 1}`, ...p })), warnings };
+};
+
+/**
+ * Formats passages for the prompt, each headed by its id and where it came from.
+ */
+export const formatPassages = (passages: SourcePassage[]) =>
+  passages.map(p => `[${p.id}] ${p.document}${p.location ? `, ${p.location}` : ''}\n${p.text}`).join('\n\n');
+
+type CitedNode = GeneratedResponse['nodes'][number] & { sourceId?: unknown; quote?: unknown };
+
+// Compared ignoring case, whitespace, and the quote marks or ellipses models wrap excerpts in
+const normalizeQuote = (text: string) =>
+  text.replace(/\s+/g, ' ').trim().replace(/^["'“”‘’]+|["'“”‘’]+$/g, '').replace(/^(\.\.\.|…)\s*|\s*(\.\.\.|…)$/g, '').toLowerCase();
+
+/**
+ * Replaces the model's sourceId/quote fields with a citation naming the document and page.
+ * Quotes that don't appear in the cited passage are replaced by the passage's opening.
+ */
+export const attachCitations = (graph: GeneratedResponse, passages: SourcePassage[]): { graph: GeneratedResponse; warnings: string[] } => {
+  const byId = new Map(passages.map(p => [p.id.toLowerCase(), p]));
+  let uncited = 0;
+  let misquoted = 0;
+
+  const nodes = graph.nodes.map(n => {
+    const { sourceId, quote, ...node } = n as CitedNode;
+    const passage = typeof sourceId === 'string' ? byId.get(sourceId.replace(/[[\]\s]/g, '').toLowerCase()) : undefined;
+    if (!passage) {
+      uncited++;
+      return node;
+    }
+    const quoted = typeof quote === 'string' ? normalizeQuote(quote) : '';
+    const verbatim = quoted !== '' && normalizeQuote(passage.text).includes(quoted);
+    if (quoted && !verbatim) misquoted++;
+    const excerpt = verbatim ? (quote as string).trim() : passage.text.slice(0, QUOTE_CHARS);
+    return { ...node, citation: { document: passage.document, ...(passage.location ? { location: passage.location } : {}), quote: excerpt } };
+  });
+
+  const warnings = uncited ? [`${uncited} of ${nodes.length} nodes don't cite a source passage.`] : [];
+  if (misquoted) warnings.push(`${misquoted} of ${nodes.length} quotes weren't found in the cited passage and show its opening instead.`);
+  return { graph: { nodes, edges: graph.edges }, warnings };
+};
@@ -0,0 +1,454 @@
+import { DiagramType, DiagramNode, DiagramEdge, GeneratedResponse, GeneratedNode, GraphData } from '../types';
+import { getNodeStyle, getNodeType, MINDMAP_ROOT_STYLE, toFlowEdge, toFlowGraph } from './graph';
+import { parseDDL } from './sql';
+import { parseMermaid } from './mermaid';
+import { DRAWIO_EDGE_PREFIX, DRAWIO_NODE_PREFIX } from './drawio';
+import { CARDINALITIES, linkColumnHandles, parseColumns } from './erd';
+import { OUTLINE_TYPE_COMMENT, OUTLINE_VIA_COMMENT, parseFreeMind, parseOPML, parseOutlineCrossLinks } from './outline';
+
+export interface ImportedDiagram {
+  title: string;
+  type: DiagramType | null; // null when the file doesn't say; the caller picks one
+  // Either a ready-made graph (keeps geometry) or a bare structure that still needs styling and layout
+  graph?: GraphData;
+  structure?: GeneratedResponse;
+}
+
+const DIAGRAM_TYPES = Object.values(DiagramType) as string[];
+
+const asDiagramType = (value: unknown): DiagramType | null =>
+  typeof value === 'string' && DIAGRAM_TYPES.includes(value) ? value as DiagramType : null;
+
+// Optional front matter and %% comments, then a diagram keyword alone on its line
+const MERMAID_HEADER = /^(---[\s\S]*?---\s*)?(%%.*\n\s*)*((flowchart|graph)(\s+(TB|TD|BT|RL|LR))?|mindmap|erDiagram)\s*(\n|$)/;
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '');
+
+/**
+ * Dispatches on file extension (falling back to content sniffing) to the matching parser.
+ * Resolves with one diagram per page; only draw.io files have more than one.
+ */
+export const parseDiagramFile = async (fileName: string, content: string): Promise<ImportedDiagram[]> => {
+  const ext = fileName.split('.').pop()?.toLowerCase();
+  const trimmed = content.trim();
+
+  if (ext === 'json' || trimmed.startsWith('{')) return [parseJSONExport(content, baseName(fileName))];
+  if (ext === 'opml' || /^(<\?xml[^>]*>\s*)?<opml\b/.test(trimmed)) return [parseOutlineXml(content, baseName(fileName), parseOPML, null)];
+  if (ext === 'mm' || /^(<\?xml[^>]*>\s*)?<map\b/.test(trimmed)) return [parseOutlineXml(content, baseName(fileName), parseFreeMind, DiagramType.MINDMAP)];
+  // Our Markdown outlines start with an HTML comment, which isn't draw.io XML
+  if (ext === 'drawio' || ext === 'xml' || (trimmed.startsWith('<') && !trimmed.startsWith('<!--'))) return parseDrawIO(content, baseName(fileName));
+  if (ext === 'sql' || /^(CREATE|ALTER)\s+TABLE\b/i.test(trimmed)) {
+    return [{ title: baseName(fileName), type: DiagramType.ERD, structure: parseDDL(content) }];
+  }
+  // Mermaid files, or Markdown whose diagram is a ```mermaid block
+  if (ext === 'mmd' || ext === 'mermaid' || MERMAID_HEADER.test(trimmed) || /```mermaid\s*\n/.test(content)) {
+    const { title, type, structure } = parseMermaid(content);
+    return [{ title: title || baseName(fileName), type, structure }];
+  }
+  if (ext === 'md' || ext === 'markdown' || ext === 'txt') return [parseMarkdown(content, baseName(fileName))];
+
+  throw new Error(`Unsupported file type ".${ext}". Use a .json, .drawio, .md, .mmd, .opml, .mm or .sql file.`);
+};
+
+// --- JSON ---
+
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === 'object' && !Array.isArray(value) ? value as Record<string, unknown> : {};
+
+const isPosition = (value: unknown): value is { x: number; y: number } => {
+  const position = asRecord(value);
+  return typeof position.x === 'number' && typeof position.y === 'number';
+};
+
+/**
+ * Reads the file written by DiagramView's "Download Code (JSON)".
+ */
+export const parseJSONExport = (content: string, fallbackTitle: string): ImportedDiagram => {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    throw new Error("The file is not valid JSON.");
+  }
+  const file = asRecord(data);
+  if (!Array.isArray(file.nodes) || !Array.isArray(file.edges)) {
+    throw new Error("JSON file has no nodes/edges arrays.");
+  }
+
+  const type = asDiagramType(file.type);
+  // Everything else on a node or edge is React Flow state written by the app, kept as is
+  const nodes: DiagramNode[] = file.nodes.map((raw: unknown, idx) => {
+    const n = asRecord(raw);
+    const data = asRecord(n.data);
+    return {
+      ...(n as Partial<DiagramNode>),
+      id: String(n.id ?? `n${idx}`),
+      position: isPosition(n.position) ? n.position : { x: 0, y: 0 },
+      data: { ...(data as Partial<DiagramNode['data']>), label: String(data.label ?? n.label ?? '') }
+    };
+  });
+  const edges: DiagramEdge[] = file.edges.map((raw: unknown, idx) => {
+    const e = asRecord(raw);
+    return {
+      ...(e as Partial<DiagramEdge>),
+      id: String(e.id ?? `e${idx}`),
+      source: String(e.source),
+      target: String(e.target)
+    };
+  });
+
+  return { title: typeof file.title === 'string' && file.title ? file.title : fallbackTitle, type, graph: { nodes, edges } };
+};
+
+// --- draw.io ---
+
+const stripHtml = (html: string) => {
+  if (!/[<&]/.test(html)) return html;
+  const doc = new DOMParser().parseFromString(html.replace(/<br\s*\/?>/gi, '\n'), 'text/html');
+  return doc.body.textContent || '';
+};
+
+/**
+ * Compressed .drawio pages store base64(deflate-raw(encodeURIComponent(xml))).
+ */
+export const inflateDrawIODiagram = async (encoded: string): Promise<string> => {
+  const bytes = Uint8Array.from(atob(encoded.trim()), c => c.charCodeAt(0));
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  const text = await new Response(stream).text();
+  return decodeURIComponent(text);
+};
+
+/**
+ * The graph model of every page, with the page name. Files without <diagram> pages hold a single bare model.
+ */
+const getGraphModels = async (doc: Document): Promise<{ name: string | null; model: Element }[]> => {
+  const pages = Array.from(doc.querySelectorAll('diagram'));
+  if (pages.length === 0) {
+    const model = doc.querySelector('mxGraphModel');
+    if (!model) throw new Error("No mxGraphModel found in the draw.io file.");
+    return [{ name: null, model }];
+  }
+
+  const models: { name: string | null; model: Element }[] = [];
+  for (const page of pages) {
+    let model = page.querySelector('mxGraphModel');
+    if (!model && page.textContent?.trim()) {
+      const inner = new DOMParser().parseFromString(await inflateDrawIODiagram(page.textContent), 'application/xml');
+      model = inner.querySelector('mxGraphModel');
+    }
+    // Empty pages have nothing to import
+    if (model) models.push({ name: page.getAttribute('name'), model });
+  }
+  if (models.length === 0) throw new Error("No mxGraphModel found in the draw.io file.");
+  return models;
+};
+
+const inferTypeFromStyle = (style: string): string | undefined => {
+  if (style.includes('rhombus')) return 'decision';
+  if (style.includes('cylinder')) return 'database';
+  if (style.includes('swimlane') || style.includes('shape=table')) return 'entity';
+  if (style.includes('parallelogram')) return 'io';
+  if (style.includes('shape=document')) return 'document';
+  if (style.includes('ellipse') || style.includes('arcSize=50')) return 'terminator';
+  return undefined;
+};
+
+const styleValue = (style: string, key: string) => style.match(new RegExp(`(?:^|;)${key}=([^;]*)`))?.[1];
+
+/**
+ * Parses an uncompressed or compressed .drawio file, one diagram per page (the library's
+ * "export all" writes a page per saved diagram). Vertices become nodes (keeping geometry),
+ * edges become edges; rows nested inside tables/swimlanes are folded into the parent's details.
+ */
+export const parseDrawIO = async (content: string, fallbackTitle: string): Promise<ImportedDiagram[]> => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error("The file is not valid XML.");
+
+  const models = await getGraphModels(doc);
+  return models.map(({ name, model }, idx) =>
+    parseGraphModel(model, name || (models.length > 1 ? `${fallbackTitle} (page ${idx + 1})` : fallbackTitle)));
+};
+
+const parseGraphModel = (model: Element, title: string): ImportedDiagram => {
+  const rootData = model.querySelector('root > [id="0"]');
+
+  // Cells may be bare <mxCell> or wrapped in <UserObject>/<object> that carries id/label
+  const cells = Array.from(model.querySelectorAll('mxCell')).map(cell => {
+    const wrapper = cell.parentElement && cell.parentElement.tagName !== 'root' ? cell.parentElement : null;
+    return {
+      id: wrapper?.getAttribute('id') || cell.getAttribute('id') || '',
+      value: wrapper?.getAttribute('label') ?? cell.getAttribute('value') ?? '',
+      tooltip: wrapper?.getAttribute('tooltip') || undefined,
+      // Written by our exporter (utils/drawio.ts)
+      nodeType: wrapper?.getAttribute('nodeType') || undefined,
+      pinned: wrapper?.getAttribute('pinned') === '1',
+      cardinality: CARDINALITIES.find(c => c === wrapper?.getAttribute('cardinality')),
+      style: cell.getAttribute('style') || '',
+      parent: cell.getAttribute('parent') || '',
+      isVertex: cell.getAttribute('vertex') === '1',
+      isEdge: cell.getAttribute('edge') === '1',
+      source: cell.getAttribute('source') || '',
+      target: cell.getAttribute('target') || '',
+      geometry: cell.querySelector('mxGeometry')
+    };
+  });
+
+  const vertexById = new Map(cells.filter(c => c.isVertex).map(c => [c.id, c]));
+  const stripId = (id: string, prefix: string) => id.startsWith(prefix) ? id.slice(prefix.length) : id;
+
+  const num = (el: Element | null, attr: string, fallback = 0) => {
+    const v = parseFloat(el?.getAttribute(attr) || '');
+    return Number.isFinite(v) ? v : fallback;
+  };
+
+  // Absolute position: child geometry is relative to its parent vertex
+  const absolutePosition = (id: string): { x: number; y: number } => {
+    const cell = vertexById.get(id);
+    if (!cell) return { x: 0, y: 0 };
+    const own = { x: num(cell.geometry, 'x'), y: num(cell.geometry, 'y') };
+    if (!vertexById.has(cell.parent)) return own;
+    const parentPos = absolutePosition(cell.parent);
+    return { x: parentPos.x + own.x, y: parentPos.y + own.y };
+  };
+
+  const isRowContainer = (style: string) => style.includes('swimlane') || style.includes('shape=table');
+  const rowsByParent = new Map<string, string[]>();
+  const topLevel = [];
+  for (const cell of vertexById.values()) {
+    const parent = vertexById.get(cell.parent);
+    if (parent && isRowContainer(parent.style)) {
+      if (!rowsByParent.has(parent.id)) rowsByParent.set(parent.id, []);
+      rowsByParent.get(parent.id)!.push(stripHtml(cell.value));
+    } else {
+      topLevel.push(cell);
+    }
+  }
+
+  const importedIds = new Set<string>();
+  const nodes: DiagramNode[] = topLevel.map(cell => {
+    const id = stripId(cell.id, DRAWIO_NODE_PREFIX);
+    importedIds.add(cell.id);
+    const rows = rowsByParent.get(cell.id);
+    const type = cell.nodeType ?? inferTypeFromStyle(cell.style);
+    // Table rows are columns, in the notation formatColumns writes them in
+    const columns = rows && type === 'entity' ? parseColumns(rows.join('\n')) : [];
+    return {
+      id,
+      type: 'default',
+      position: absolutePosition(cell.id),
+      data: {
+        label: stripHtml(cell.value),
+        details: rows ? rows.join('\n') : cell.tooltip,
+        type,
+        ...(columns.length > 0 ? { columns } : {}),
+        ...(cell.pinned ? { pinned: true } : {})
+      },
+      style: {
+        width: num(cell.geometry, 'width', 150),
+        height: rows ? undefined : num(cell.geometry, 'height', 60)
+      }
+    };
+  });
+
+  // Edges attached to a table row are re-attached to the table itself
+  const owningNode = (id: string) => {
+    const cell = vertexById.get(id);
+    if (!cell) return null;
+    if (importedIds.has(id)) return stripId(id, DRAWIO_NODE_PREFIX);
+    return importedIds.has(cell.parent) ? stripId(cell.parent, DRAWIO_NODE_PREFIX) : null;
+  };
+
+  const edges: DiagramEdge[] = [];
+  cells.filter(c => c.isEdge).forEach((cell, idx) => {
+    const source = owningNode(cell.source);
+    const target = owningNode(cell.target);
+    if (!source || !target) return; // Dangling edges have nothing to attach to
+    const stroke = styleValue(cell.style, 'strokeColor');
+    edges.push({
+      id: stripId(cell.id, DRAWIO_EDGE_PREFIX) || `e${idx}`,
+      source,
+      target,
+      label: stripHtml(cell.value) || undefined,
+      ...(cell.cardinality ? { data: { cardinality: cell.cardinality } } : {}),
+      ...(stroke && stroke !== 'none' && stroke !== 'default' ? { style: { stroke } } : {})
+    });
+  });
+
+  return { title, type: asDiagramType(rootData?.getAttribute('diagramType')), graph: { nodes, edges } };
+};
+
+/**
+ * Applies the app's node/edge styling to a graph that came from a foreign format, keeping positions.
+ */
+export const styleImportedGraph = (graph: GraphData, diagramType: DiagramType): GraphData => {
+  const targets = new Set(graph.edges.map(e => e.target));
+  const nodes = graph.nodes.map(n => ({
+    ...n,
+    type: getNodeType(diagramType),
+    style: {
+      ...getNodeStyle(n.data.type, diagramType),
+      // The Mindmap root keeps its bubble
+      ...(diagramType === DiagramType.MINDMAP && !targets.has(n.id) ? MINDMAP_ROOT_STYLE : {}),
+      ...(n.style?.width ? { width: n.style.width } : {})
+    }
+  }));
+  const edges = graph.edges.map(e => {
+    const edge = toFlowEdge({ source: e.source, target: e.target, label: e.label as string | undefined, cardinality: e.data?.cardinality }, e.id, diagramType);
+    return {
+      ...edge,
+      // Keep stroke colours (e.g. Mindmap branch colours) that came with the file
+      style: e.style?.stroke ? { ...edge.style, stroke: e.style.stroke } : edge.style,
+      sourceHandle: e.sourceHandle,
+      targetHandle: e.targetHandle
+    };
+  });
+  return diagramType === DiagramType.ERD ? { nodes, edges: linkColumnHandles(nodes, edges) } : { nodes, edges };
+};
+
+// --- Markdown ---
+
+const FLAT_EXPORT_MARKER = '**Connects to:**';
+
+/**
+ * Parses either our flat "## label / Connects to" export or any nested heading/bullet outline.
+ */
+export const parseMarkdown = (content: string, fallbackTitle: string): ImportedDiagram => {
+  const titleMatch = content.match(/^#\s+(.+?)\s*$/m);
+  // Older flat exports start with "# <DiagramType> Export"; outline exports carry a type comment
+  const exportedType = titleMatch ? asDiagramType(titleMatch[1].replace(/\s+Export$/, '')) : null;
+  const outlineType = asDiagramType(content.match(OUTLINE_TYPE_COMMENT)?.[1]);
+  if (outlineType) {
+    const structure = parseMarkdownOutline(content, fallbackTitle);
+    if (structure.nodes.length === 0) throw new Error("No outline items found in the Markdown file.");
+    structure.edges.push(...parseOutlineCrossLinks(content, structure.nodes));
+    return { title: titleMatch?.[1] || fallbackTitle, type: outlineType, structure };
+  }
+
+  const structure = content.includes(FLAT_EXPORT_MARKER)
+    ? parseFlatMarkdownExport(content)
+    : parseMarkdownOutline(content, exportedType ? fallbackTitle : titleMatch?.[1] || fallbackTitle);
+
+  if (structure.nodes.length === 0) throw new Error("No outline items found in the Markdown file.");
+  return { title: exportedType ? fallbackTitle : titleMatch?.[1] || fallbackTitle, type: exportedType, structure };
+};
+
+const parseFlatMarkdownExport = (content: string): GeneratedResponse => {
+  const nodes: GeneratedNode[] = [];
+  const pendingEdges: { source: string; targetLabel: string; label?: string }[] = [];
+  let current: GeneratedNode | null = null;
+  let inConnections = false;
+
+  content.split('\n').forEach(raw => {
+    const line = raw.trim();
+    const heading = line.match(/^##\s+(.+)$/);
+    if (heading) {
+      current = { id: `n${nodes.length + 1}`, label: heading[1].trim() };
+      nodes.push(current);
+      inConnections = false;
+      return;
+    }
+    if (!current) return;
+    if (line === FLAT_EXPORT_MARKER) {
+      inConnections = true;
+      return;
+    }
+    const bullet = line.match(/^-\s+(.+)$/);
+    if (!bullet) return;
+    if (inConnections) {
+      // "- Target (edge label)"
+      const m = bullet[1].trim().match(/^(.*?)(?:\s+\(([^)]*)\))?$/);
+      pendingEdges.push({ source: current.id, targetLabel: (m?.[1] || bullet[1]).trim(), label: m?.[2] });
+    } else {
+      current.details = current.details ? `${current.details}\n${bullet[1]}` : bullet[1];
+    }
+  });
+
+  const idByLabel = new Map(nodes.map(n => [n.label, n.id]));
+  const edges = pendingEdges
+    .filter(e => idByLabel.has(e.targetLabel))
+    .map(e => ({ source: e.source, target: idByLabel.get(e.targetLabel)!, label: e.label }));
+
+  return { nodes, edges };
+};
+
+/**
+ * Headings nest by level and bullets nest by indentation beneath the closest heading.
+ * Plain paragraphs become the details of the item above them.
+ */
+export const parseMarkdownOutline = (content: string, rootLabel: string): GeneratedResponse => {
+  const nodes: GeneratedNode[] = [];
+  const edges: GeneratedResponse['edges'] = [];
+  // Stack of open items by depth; headings use 0-5, bullets continue below the current heading
+  const stack: { depth: number; id: string }[] = [];
+  let headingDepth = -1;
+
+  const addItem = (text: string, depth: number) => {
+    while (stack.length > 0 && stack[stack.length - 1].depth >= depth) stack.pop();
+    const id = `n${nodes.length + 1}`;
+    const parent = stack[stack.length - 1];
+    // Outline exports note the edge label from the parent as a trailing comment
+    const via = text.match(OUTLINE_VIA_COMMENT);
+    const label = via ? text.slice(0, via.index).trim() : text;
+    nodes.push({ id, label, parentId: parent?.id });
+    if (parent) edges.push({ source: parent.id, target: id, ...(via ? { label: JSON.parse(via[1]) as string } : {}) });
+    stack.push({ depth, id });
+  };
+
+  content.split('\n').forEach(raw => {
+    if (!raw.trim() || raw.trim().startsWith('<!--')) return;
+    const heading = raw.match(/^(#{1,6})\s+(.+?)(?:\s+#+)?\s*$/);
+    if (heading) {
+      headingDepth = heading[1].length - 1;
+      addItem(heading[2], headingDepth);
+      return;
+    }
+    const bullet = raw.match(/^(\s*)(?:[-*+]|\d+[.)])\s+(.+)$/);
+    if (bullet) {
+      const indent = bullet[1].replace(/\t/g, '  ').length;
+      addItem(bullet[2].replace(/\*\*/g, '').trim(), headingDepth + 1 + Math.floor(indent / 2));
+      return;
+    }
+    // Paragraph text: attach to the most recent item
+    const last = nodes[nodes.length - 1];
+    const text = raw.trim().replace(/^\\([-*+#]|\d+[.)])/, '$1'); // Escaped outline syntax in details
+    if (last) last.details = last.details ? `${last.details}\n${text}` : text;
+  });
+
+  // Several top-level items need a shared root to form a tree
+  const roots = nodes.filter(n => !n.parentId);
+  if (roots.length > 1) {
+    const rootId = 'n0';
+    nodes.unshift({ id: rootId, label: rootLabel });
+    roots.forEach(r => edges.push({ source: rootId, target: r.id }));
+  }
+
+  return { nodes, edges };
+};
+
+// --- OPML / FreeMind ---
+
+const parseOutlineXml = (
+  content: string,
+  fallbackTitle: string,
+  parse: (doc: Document) => { title?: string; structure: GeneratedResponse },
+  type: DiagramType | null
+): ImportedDiagram => {
+  const doc = new DOMParser().parseFromString(content, 'application/xml');
+  if (doc.querySelector('parsererror')) throw new Error("The file is not valid XML.");
+  const { title, structure } = parse(doc);
+  if (structure.nodes.length === 0) throw new Error("No outline items found in the file.");
+  return { title: title || fallbackTitle, type, structure };
+};
+
+/**
+ * Turns an import result into a styled graph; structures without geometry still need applyLayout.
+ */
+export const toImportedGraph = (imported: ImportedDiagram, diagramType: DiagramType): { graph: GraphData; needsLayout: boolean } => {
+  if (imported.structure) {
+    return { graph: toFlowGraph(imported.structure, diagramType), needsLayout: true };
+  }
+  const graph = imported.graph!;
+  // Our JSON export is already styled; draw.io needs the app's styling
+  const isStyled = graph.nodes.some(n => n.style && 'background' in n.style);
+  return { graph: isStyled ? graph : styleImportedGraph(graph, diagramType), needsLayout: false };
+};
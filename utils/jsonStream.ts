@@ -0,0 +1,91 @@
+import { GeneratedNode, GeneratedResponse } from '../types';
+
+type RawEdge = GeneratedResponse['edges'][number];
+
+export interface GraphStreamParser {
+  // Feeds the next chunk of model output; returns how many nodes and edges it completed
+  push: (chunk: string) => { nodes: number; edges: number };
+  // Everything completed so far
+  graph: () => GeneratedResponse;
+}
+
+/**
+ * Incremental parser for a streamed `{"nodes": [...], "edges": [...]}` response. It tracks
+ * nesting and string state across chunks, and each object in the top-level "nodes" or
+ * "edges" array is parsed as soon as its closing brace arrives. Anything else is ignored,
+ * so the final text should still go through parseAndValidate.
+ */
+export const createGraphStreamParser = (): GraphStreamParser => {
+  const nodes: GeneratedNode[] = [];
+  const edges: RawEdge[] = [];
+
+  // Only the item being read is buffered; completed items are dropped from the text
+  let item = '';
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringValue = '';
+  let lastString = '';
+  let key = '';
+  let arrayKey: 'nodes' | 'edges' | null = null;
+
+  const push = (chunk: string) => {
+    const added = { nodes: 0, edges: 0 };
+
+    for (const ch of chunk) {
+      if (depth >= 3 && arrayKey) item += ch;
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (ch === '\\') escaped = true;
+        else if (ch === '"') {
+          inString = false;
+          lastString = stringValue;
+        } else if (depth === 1) stringValue += ch;
+        continue;
+      }
+
+      switch (ch) {
+        case '"':
+          inString = true;
+          stringValue = '';
+          break;
+        case ':':
+          if (depth === 1) key = lastString;
+          break;
+        case '{':
+        case '[':
+          depth++;
+          if (depth === 2) arrayKey = ch === '[' && (key === 'nodes' || key === 'edges') ? key : null;
+          if (depth === 3 && arrayKey) item = ch;
+          break;
+        case '}':
+        case ']':
+          if (depth === 3 && arrayKey && item.startsWith('{')) {
+            try {
+              const parsed = JSON.parse(item);
+              if (arrayKey === 'nodes') {
+                nodes.push(parsed);
+                added.nodes++;
+              } else {
+                edges.push(parsed);
+                added.edges++;
+              }
+            } catch {
+              // Malformed item; the final validation pass reports it
+            }
+            item = '';
+          }
+          if (depth === 2) arrayKey = null;
+          depth = Math.max(0, depth - 1);
+          break;
+      }
+    }
+    return added;
+  };
+
+  return {
+    push,
+    graph: () => ({ nodes: [...nodes], edges: [...edges] })
+  };
+};
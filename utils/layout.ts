@@ -1,11 +1,11 @@
 import { DiagramNode, DiagramEdge, LayoutStyle, DiagramType } from '../types';
 import { Position } from 'reactflow';
+import { getColumns } from './erd';
+import { getSubtreeIds } from './graph';
 
 // Constants for layout spacing
 const MINDMAP_H_SPACING = 300; // Wider to accommodate side connections
 const MINDMAP_NODE_HEIGHT_SLOT = 60; // Base height slot per node
-const LAYERED_X_SPACING = 200; // Flowchart Horizontal
-const LAYERED_Y_SPACING = 100; // Flowchart Vertical
 
 // Professional Palette for branches
 const BRANCH_COLORS = [
@@ -21,6 +21,16 @@ const BRANCH_COLORS = [
   '#059669', // Emerald
 ];
 
+// Layout styles offered per DiagramType (radial rings need a hierarchy; circles suit cyclic graphs)
+const SUPPORTED_LAYOUTS: Record<DiagramType, LayoutStyle[]> = {
+  [DiagramType.MINDMAP]: [LayoutStyle.TREE, LayoutStyle.RADIAL, LayoutStyle.HIERARCHICAL, LayoutStyle.CIRCULAR, LayoutStyle.NETWORK],
+  [DiagramType.FLOWCHART]: [LayoutStyle.TREE, LayoutStyle.HIERARCHICAL, LayoutStyle.CIRCULAR, LayoutStyle.NETWORK],
+  [DiagramType.ERD]: [LayoutStyle.TREE, LayoutStyle.HIERARCHICAL, LayoutStyle.CIRCULAR, LayoutStyle.NETWORK],
+  [DiagramType.ORG_CHART]: [LayoutStyle.TREE, LayoutStyle.HIERARCHICAL, LayoutStyle.RADIAL, LayoutStyle.NETWORK]
+};
+
+export const getSupportedLayouts = (diagramType: DiagramType): LayoutStyle[] => SUPPORTED_LAYOUTS[diagramType];
+
 export const applyLayout = (
   nodes: DiagramNode[],
   edges: DiagramEdge[],
@@ -32,32 +42,224 @@ export const applyLayout = (
   const newNodes = nodes.map(n => ({ ...n }));
   let newEdges = edges.map(e => ({ ...e }));
   
-  // 1. Apply Positioning
-  if (diagramType === DiagramType.MINDMAP) {
-     layoutMindmap(newNodes, newEdges);
-  } else if (diagramType === DiagramType.ERD) {
-     layoutGrid(newNodes, newEdges);
-  } else {
-     // Flowcharts, Org Charts
-     // TREE and HIERARCHICAL imply Vertical (TB)
-     // RADIAL, CIRCULAR imply Horizontal/Radial (LR for layered approx)
-     const isHorizontal = style === LayoutStyle.RADIAL || style === LayoutStyle.CIRCULAR;
-     const direction = isHorizontal ? 'LR' : 'TB';
-     layoutLayered(newNodes, newEdges, direction);
+  // 1. Apply Positioning (styles a DiagramType doesn't support fall back to its TREE layout)
+  const effectiveStyle = getSupportedLayouts(diagramType).includes(style) ? style : LayoutStyle.TREE;
+  switch (effectiveStyle) {
+    case LayoutStyle.RADIAL:
+      layoutRadial(newNodes, newEdges);
+      break;
+    case LayoutStyle.CIRCULAR:
+      layoutCircular(newNodes, newEdges);
+      break;
+    case LayoutStyle.NETWORK:
+      layoutForce(newNodes, newEdges);
+      break;
+    case LayoutStyle.HIERARCHICAL:
+      // Left-to-right tiers for trees and flows; top-down tiers for ERDs
+      layoutLayered(newNodes, newEdges, diagramType === DiagramType.ERD ? 'TB' : 'LR');
+      break;
+    default:
+      if (diagramType === DiagramType.MINDMAP) {
+        layoutMindmap(newNodes, newEdges);
+      } else if (diagramType === DiagramType.ERD) {
+        layoutErd(newNodes, newEdges);
+      } else {
+        // Flowcharts, Org Charts: vertical tiers
+        layoutLayered(newNodes, newEdges, 'TB');
+      }
   }
 
   // 2. Apply Branch Coloring & Style
+  return { nodes: newNodes, edges: styleEdges(newNodes, newEdges, diagramType) };
+};
+
+const styleEdges = (nodes: DiagramNode[], edges: DiagramEdge[], diagramType: DiagramType): DiagramEdge[] => {
   if (diagramType === DiagramType.MINDMAP || diagramType === DiagramType.ORG_CHART) {
-    newEdges = assignBranchColors(newNodes, newEdges);
+    return assignBranchColors(nodes, edges);
+  }
+  // Uniform professional style for Flowchart/ERD
+  edges.forEach(e => {
+      e.style = { ...e.style, stroke: '#64748b', strokeWidth: 2 };
+      e.animated = false;
+  });
+  return edges;
+};
+
+const OVERLAP_MARGIN = 20; // Clearance kept around nodes that mustn't be covered
+const NUDGE_STEP = 40;
+const MAX_NUDGE_RINGS = 25;
+
+interface Box { x: number; y: number; width: number; height: number }
+
+const boxOf = (node: DiagramNode): Box => ({ ...node.position, ...getNodeSize(node) });
+
+const intersects = (a: Box, b: Box) =>
+  a.x < b.x + b.width + OVERLAP_MARGIN && b.x < a.x + a.width + OVERLAP_MARGIN &&
+  a.y < b.y + b.height + OVERLAP_MARGIN && b.y < a.y + a.height + OVERLAP_MARGIN;
+
+/**
+ * Searches outwards from (dx, dy) for an offset at which none of the moving boxes overlaps a
+ * fixed one, returning the offset with the fewest overlaps if none is clear.
+ */
+const findClearOffset = (moving: Box[], fixed: Box[], dx: number, dy: number) => {
+  const overlaps = (ox: number, oy: number) =>
+    moving.filter(m => fixed.some(f => intersects({ ...m, x: m.x + ox, y: m.y + oy }, f))).length;
+
+  let best = { dx, dy, count: overlaps(dx, dy) };
+  for (let ring = 1; ring <= MAX_NUDGE_RINGS && best.count > 0; ring++) {
+    for (const [ux, uy] of [[0, 1], [1, 0], [0, -1], [-1, 0], [1, 1], [-1, 1], [1, -1], [-1, -1]]) {
+      const candidate = { dx: dx + ux * ring * NUDGE_STEP, dy: dy + uy * ring * NUDGE_STEP };
+      const count = overlaps(candidate.dx, candidate.dy);
+      if (count < best.count) best = { ...candidate, count };
+      if (count === 0) break;
+    }
+  }
+  return best;
+};
+
+/**
+ * Re-runs applyLayout but leaves pinned nodes where the user put them. The new arrangement
+ * is shifted so that, on average, it lines up with the pinned nodes' current positions, then
+ * nudged as a whole until it no longer covers any of them.
+ */
+export const tidyLayout = (
+  nodes: DiagramNode[],
+  edges: DiagramEdge[],
+  style: LayoutStyle,
+  diagramType: DiagramType
+): { nodes: DiagramNode[]; edges: DiagramEdge[] } => {
+  const layouted = applyLayout(nodes, edges, style, diagramType);
+  const pinned = new Map(nodes.filter(n => n.data.pinned).map(n => [n.id, n]));
+  if (pinned.size === 0) return layouted;
+
+  let dx = 0;
+  let dy = 0;
+  layouted.nodes.forEach(n => {
+    const original = pinned.get(n.id);
+    if (!original) return;
+    dx += (original.position.x - n.position.x) / pinned.size;
+    dy += (original.position.y - n.position.y) / pinned.size;
+  });
+
+  const offset = findClearOffset(
+    layouted.nodes.filter(n => !pinned.has(n.id)).map(boxOf),
+    [...pinned.values()].map(boxOf),
+    dx,
+    dy
+  );
+
+  return {
+    nodes: layouted.nodes.map(n => ({
+      ...n,
+      position: pinned.get(n.id)?.position ?? { x: n.position.x + offset.dx, y: n.position.y + offset.dy }
+    })),
+    edges: layouted.edges
+  };
+};
+
+/**
+ * Lays out only the subtree below rootId (e.g. after a drill-down), keeping the root and every
+ * node outside the subtree where it is. Pinned nodes in the subtree stay put too. Mindmap
+ * branches grow away from the centre, on the side the root already sits. Neighbouring branches
+ * the new arrangement would cover are pushed aside to make room.
+ */
+export const layoutSubtree = (
+  nodes: DiagramNode[],
+  edges: DiagramEdge[],
+  rootId: string,
+  style: LayoutStyle,
+  diagramType: DiagramType
+): { nodes: DiagramNode[]; edges: DiagramEdge[] } => {
+  const root = nodes.find(n => n.id === rootId);
+  if (!root) return applyLayout(nodes, edges, style, diagramType);
+
+  const ids = getSubtreeIds(edges, rootId);
+  const subNodes = nodes.filter(n => ids.has(n.id)).map(n => ({ ...n }));
+  const subEdges = edges.filter(e => ids.has(e.source) && ids.has(e.target));
+
+  const effectiveStyle = getSupportedLayouts(diagramType).includes(style) ? style : LayoutStyle.TREE;
+  if (diagramType === DiagramType.MINDMAP && effectiveStyle === LayoutStyle.TREE) {
+    const parentId = edges.find(e => e.target === rootId)?.source;
+    const parent = nodes.find(n => n.id === parentId);
+    layoutMindmap(subNodes, subEdges, parent ? (parent.position.x > root.position.x ? -1 : 1) : undefined);
   } else {
-    // Uniform professional style for Flowchart/ERD
-    newEdges.forEach(e => {
-        e.style = { ...e.style, stroke: '#64748b', strokeWidth: 2 };
-        e.animated = false;
+    const laid = new Map(applyLayout(subNodes, subEdges, effectiveStyle, diagramType).nodes.map(n => [n.id, n]));
+    subNodes.forEach(n => {
+      const { position, sourcePosition, targetPosition } = laid.get(n.id)!;
+      Object.assign(n, { position, sourcePosition, targetPosition });
     });
   }
 
-  return { nodes: newNodes, edges: newEdges };
+  // Shift the arrangement so the root doesn't move
+  const laidRoot = subNodes.find(n => n.id === rootId)!;
+  const dx = root.position.x - laidRoot.position.x;
+  const dy = root.position.y - laidRoot.position.y;
+  const placed = new Map(subNodes.map(n => [n.id, n]));
+  const newNodes = nodes.map(n => {
+    const laid = placed.get(n.id);
+    if (!laid || n.id === rootId || n.data.pinned) return { ...n };
+    return { ...laid, position: { x: laid.position.x + dx, y: laid.position.y + dy } };
+  });
+
+  makeRoomForSubtree(newNodes, edges, rootId, ids);
+  return { nodes: newNodes, edges: styleEdges(newNodes, edges.map(e => ({ ...e })), diagramType) };
+};
+
+/**
+ * Moves the branches that overlap a freshly laid-out subtree out of its way, across the
+ * direction it grows in: those on the far side of the root one way, the rest the other way,
+ * each just far enough to clear it. The root's ancestors and pinned nodes don't move.
+ */
+const makeRoomForSubtree = (nodes: DiagramNode[], edges: DiagramEdge[], rootId: string, subtreeIds: Set<string>) => {
+  const root = nodes.find(n => n.id === rootId)!;
+  const placed = nodes.filter(n => subtreeIds.has(n.id) && n.id !== rootId).map(boxOf);
+  if (placed.length === 0) return;
+
+  const ancestors = new Set<string>();
+  for (let id: string | undefined = rootId; id && !ancestors.has(id);) {
+    ancestors.add(id);
+    id = edges.find(e => e.target === id)?.source;
+  }
+
+  const bounds = {
+    x: Math.min(...placed.map(p => p.x)),
+    y: Math.min(...placed.map(p => p.y)),
+    right: Math.max(...placed.map(p => p.x + p.width)),
+    bottom: Math.max(...placed.map(p => p.y + p.height))
+  };
+  const rootBox = boxOf(root);
+  // A subtree that spreads sideways from its root makes room above and below, and vice versa
+  const horizontal = Math.abs((bounds.x + bounds.right) / 2 - (rootBox.x + rootBox.width / 2)) >= Math.abs((bounds.y + bounds.bottom) / 2 - (rootBox.y + rootBox.height / 2));
+  const start = (b: Box) => horizontal ? b.y : b.x;
+  const size = (b: Box) => horizontal ? b.height : b.width;
+  const rootCentre = start(rootBox) + size(rootBox) / 2;
+  const isAfter = (n: DiagramNode) => start(boxOf(n)) + size(boxOf(n)) / 2 > rootCentre;
+
+  // Only branches level with or beyond the root, on the side the subtree grows towards
+  const across = (b: Box) => horizontal ? b.x + b.width / 2 : b.y + b.height / 2;
+  const growth = Math.sign((horizontal ? bounds.x + bounds.right : bounds.y + bounds.bottom) / 2 - across(rootBox)) || 1;
+  const reach = (horizontal ? rootBox.width : rootBox.height) / 2;
+  const movable = nodes.filter(n =>
+    !subtreeIds.has(n.id) && !ancestors.has(n.id) && !n.data.pinned && (across(boxOf(n)) - across(rootBox)) * growth >= -reach);
+  const colliding = movable.filter(n => placed.some(p => intersects(boxOf(n), p)));
+  if (colliding.length === 0) return;
+
+  const boundsStart = horizontal ? bounds.y : bounds.x;
+  const boundsEnd = horizontal ? bounds.bottom : bounds.right;
+  let shiftAfter = 0;
+  let shiftBefore = 0;
+  colliding.forEach(n => {
+    const b = boxOf(n);
+    if (isAfter(n)) shiftAfter = Math.max(shiftAfter, boundsEnd + OVERLAP_MARGIN - start(b));
+    else shiftBefore = Math.max(shiftBefore, start(b) + size(b) + OVERLAP_MARGIN - boundsStart);
+  });
+
+  // Whole branches move, so every movable node past the root's centre shifts by the same amount
+  movable.forEach(n => {
+    const shift = isAfter(n) ? shiftAfter : -shiftBefore;
+    if (shift === 0) return;
+    n.position = horizontal ? { x: n.position.x, y: n.position.y + shift } : { x: n.position.x + shift, y: n.position.y };
+  });
 };
 
 /**
@@ -134,7 +336,8 @@ export const getEdgeColor = (sourceId: string, diagramType: DiagramType): string
 /**
  * Balanced Horizontal Tree Layout (Miro-style)
  */
-const layoutMindmap = (nodes: DiagramNode[], edges: DiagramEdge[]) => {
+// With a side, every main branch goes that way (1 right, -1 left) instead of alternating
+const layoutMindmap = (nodes: DiagramNode[], edges: DiagramEdge[], side?: 1 | -1) => {
     if (nodes.length === 0) return;
 
     // 1. Build Adjacency List
@@ -214,8 +417,8 @@ const layoutMindmap = (nodes: DiagramNode[], edges: DiagramEdge[]) => {
     const rootChildren = adj.get(root.id) || [];
     
     // Split alternatingly to balance
-    const rightChildren = rootChildren.filter((_, i) => i % 2 === 0);
-    const leftChildren = rootChildren.filter((_, i) => i % 2 !== 0);
+    const rightChildren = side ? (side === 1 ? rootChildren : []) : rootChildren.filter((_, i) => i % 2 === 0);
+    const leftChildren = side ? (side === -1 ? rootChildren : []) : rootChildren.filter((_, i) => i % 2 !== 0);
 
     // Calculate total heights for the main branches to center them on the root
     const rightTotal = rightChildren.reduce((acc, id) => acc + (nodeData.get(id)?.height || 0), 0);
@@ -267,92 +470,776 @@ const layoutMindmap = (nodes: DiagramNode[], edges: DiagramEdge[]) => {
 };
 
 /**
- * Improved Layered Layout (Sugiyama-lite) for Flowcharts
+ * Width/height of a node: measured by React Flow when available, then explicit style
+ * dimensions, otherwise estimated from the label.
+ */
+export const getNodeSize = (node: DiagramNode): { width: number; height: number } => {
+  const parsePx = (value: unknown) => {
+    const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+    return Number.isFinite(n) ? n : undefined;
+  };
+  const label = String(node.data?.label ?? '');
+  const lines = Math.max(1, Math.ceil(label.length / 28));
+  const estimatedWidth = Math.max(120, Math.min(label.length, 28) * 7 + 32);
+  const estimatedHeight = 24 + lines * 18;
+
+  return {
+    width: node.width ?? parsePx(node.style?.width) ?? estimatedWidth,
+    height: node.height ?? parsePx(node.style?.height) ?? estimatedHeight
+  };
+};
+
+const LAYER_GAP = 80; // Space between layers (along the flow direction)
+const NODE_GAP = 40; // Space between neighbours within a layer
+const DUMMY_SIZE = 10; // Breadth reserved for an edge passing through a layer
+const CROSSING_SWEEPS = 12;
+const COORDINATE_PASSES = 8;
+
+interface LayeredVertex {
+  id: string;
+  isDummy: boolean;
+  breadth: number; // Size across the layer (width in TB, height in LR)
+  depth: number; // Size along the flow (height in TB, width in LR)
+}
+
+/**
+ * Greedy DFS cycle breaking: edges that close a cycle (back edges) are reversed for ranking.
+ */
+const breakCycles = (ids: string[], edges: { source: string; target: string }[]) => {
+  const adj = new Map<string, string[]>();
+  ids.forEach(id => adj.set(id, []));
+  edges.forEach(e => adj.get(e.source)?.push(e.target));
+
+  const state = new Map<string, 'visiting' | 'done'>();
+  const reversed = new Set<string>();
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    (adj.get(id) || []).forEach(next => {
+      const s = state.get(next);
+      if (s === 'visiting') reversed.add(`${id}->${next}`);
+      else if (!s) visit(next);
+    });
+    state.set(id, 'done');
+  };
+
+  // Start from sources so the natural flow direction wins
+  const hasIncoming = new Set(edges.map(e => e.target));
+  [...ids.filter(id => !hasIncoming.has(id)), ...ids].forEach(id => {
+    if (!state.has(id)) visit(id);
+  });
+
+  return edges
+    .filter(e => e.source !== e.target)
+    .map(e => reversed.has(`${e.source}->${e.target}`) ? { source: e.target, target: e.source } : e);
+};
+
+/**
+ * Longest-path layer assignment on the acyclic graph.
+ */
+const assignLayers = (ids: string[], dag: { source: string; target: string }[]) => {
+  const incoming = new Map<string, string[]>();
+  const outgoing = new Map<string, string[]>();
+  ids.forEach(id => { incoming.set(id, []); outgoing.set(id, []); });
+  dag.forEach(e => {
+    outgoing.get(e.source)!.push(e.target);
+    incoming.get(e.target)!.push(e.source);
+  });
+
+  // Kahn's algorithm gives a topological order
+  const indegree = new Map(ids.map(id => [id, incoming.get(id)!.length]));
+  const queue = ids.filter(id => indegree.get(id) === 0);
+  const rank = new Map<string, number>(ids.map(id => [id, 0]));
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    outgoing.get(id)!.forEach(next => {
+      rank.set(next, Math.max(rank.get(next)!, rank.get(id)! + 1));
+      indegree.set(next, indegree.get(next)! - 1);
+      if (indegree.get(next) === 0) queue.push(next);
+    });
+  }
+  return rank;
+};
+
+const countCrossings = (upper: string[], lower: string[], down: Map<string, string[]>) => {
+  const lowerPos = new Map(lower.map((id, i) => [id, i]));
+  const segments: [number, number][] = [];
+  upper.forEach((id, i) => (down.get(id) || []).forEach(t => {
+    const j = lowerPos.get(t);
+    if (j !== undefined) segments.push([i, j]);
+  }));
+  let crossings = 0;
+  for (let a = 0; a < segments.length; a++) {
+    for (let b = a + 1; b < segments.length; b++) {
+      const [u1, l1] = segments[a];
+      const [u2, l2] = segments[b];
+      if ((u1 - u2) * (l1 - l2) < 0) crossings++;
+    }
+  }
+  return crossings;
+};
+
+const totalCrossings = (layers: string[][], down: Map<string, string[]>) =>
+  layers.slice(1).reduce((sum, layer, i) => sum + countCrossings(layers[i], layer, down), 0);
+
+/**
+ * Reorders one layer by the barycenter (or median) of each vertex's neighbours in the fixed layer.
+ * Vertices without neighbours keep their current slot.
+ */
+const reorderLayer = (layer: string[], fixed: string[], neighbours: Map<string, string[]>, useMedian: boolean) => {
+  const fixedPos = new Map(fixed.map((id, i) => [id, i]));
+  const keys = layer.map((id, i) => {
+    const positions = (neighbours.get(id) || [])
+      .map(n => fixedPos.get(n))
+      .filter((p): p is number => p !== undefined)
+      .sort((a, b) => a - b);
+    if (positions.length === 0) return { id, key: i };
+    if (useMedian) {
+      const mid = Math.floor(positions.length / 2);
+      const median = positions.length % 2 === 1 ? positions[mid] : (positions[mid - 1] + positions[mid]) / 2;
+      return { id, key: median };
+    }
+    return { id, key: positions.reduce((a, b) => a + b, 0) / positions.length };
+  });
+  // Stable sort keeps ties in their previous relative order
+  return keys
+    .map((k, i) => ({ ...k, i }))
+    .sort((a, b) => a.key - b.key || a.i - b.i)
+    .map(k => k.id);
+};
+
+/**
+ * Assigns breadth coordinates (centres) per layer: nodes are pulled towards the mean of their
+ * neighbours in adjacent layers, then pushed apart to respect order and minimum spacing.
+ */
+const assignBreadth = (
+  layers: string[][],
+  vertices: Map<string, LayeredVertex>,
+  up: Map<string, string[]>,
+  down: Map<string, string[]>
+) => {
+  const center = new Map<string, number>();
+
+  // Initial packing, each layer centred on 0
+  layers.forEach(layer => {
+    const total = layer.reduce((sum, id) => sum + vertices.get(id)!.breadth, 0) + NODE_GAP * (layer.length - 1);
+    let cursor = -total / 2;
+    layer.forEach(id => {
+      const b = vertices.get(id)!.breadth;
+      center.set(id, cursor + b / 2);
+      cursor += b + NODE_GAP;
+    });
+  });
+
+  const separate = (layer: string[]) => {
+    const minGap = (a: string, b: string) => (vertices.get(a)!.breadth + vertices.get(b)!.breadth) / 2 + NODE_GAP;
+    // Left-to-right then right-to-left, meeting in the middle to avoid drifting one way
+    const forward = layer.map(id => center.get(id)!);
+    for (let i = 1; i < layer.length; i++) {
+      forward[i] = Math.max(forward[i], forward[i - 1] + minGap(layer[i - 1], layer[i]));
+    }
+    const backward = layer.map(id => center.get(id)!);
+    for (let i = layer.length - 2; i >= 0; i--) {
+      backward[i] = Math.min(backward[i], backward[i + 1] - minGap(layer[i], layer[i + 1]));
+    }
+    const merged = forward.map((f, i) => (f + backward[i]) / 2);
+    for (let i = 1; i < layer.length; i++) {
+      merged[i] = Math.max(merged[i], merged[i - 1] + minGap(layer[i - 1], layer[i]));
+    }
+    layer.forEach((id, i) => center.set(id, merged[i]));
+  };
+
+  for (let pass = 0; pass < COORDINATE_PASSES; pass++) {
+    const downward = pass % 2 === 0;
+    const order = downward ? layers : [...layers].reverse();
+    order.forEach(layer => {
+      layer.forEach(id => {
+        const neighbours = [...(up.get(id) || []), ...(down.get(id) || [])];
+        if (neighbours.length === 0) return;
+        const target = neighbours.reduce((sum, n) => sum + center.get(n)!, 0) / neighbours.length;
+        center.set(id, target);
+      });
+      separate(layer);
+    });
+  }
+  return center;
+};
+
+/**
+ * Layered (Sugiyama) layout for Flowcharts and Org Charts:
+ * cycle breaking, longest-path layering with dummy vertices for long edges,
+ * barycenter/median crossing reduction over several sweeps, and size-aware coordinates.
  */
 const layoutLayered = (nodes: DiagramNode[], edges: DiagramEdge[], direction: 'TB' | 'LR') => {
   if (nodes.length === 0) return;
+  const horizontal = direction === 'LR';
 
-  const ranks = new Map<string, number>();
-  nodes.forEach(n => ranks.set(n.id, 0));
+  const ids = nodes.map(n => n.id);
+  const idSet = new Set(ids);
+  const validEdges = edges.filter(e => idSet.has(e.source) && idSet.has(e.target));
 
-  const iterations = nodes.length + 2; 
-  for (let i = 0; i < iterations; i++) {
-    let changed = false;
-    edges.forEach(e => {
-      const sourceRank = ranks.get(e.source) || 0;
-      const targetRank = ranks.get(e.target) || 0;
-      if (targetRank < sourceRank + 1) {
-        ranks.set(e.target, sourceRank + 1);
-        changed = true;
-      }
+  // 1. Cycle breaking + 2. Layer assignment
+  const dag = breakCycles(ids, validEdges);
+  const rank = assignLayers(ids, dag);
+
+  const vertices = new Map<string, LayeredVertex>();
+  nodes.forEach(n => {
+    const { width, height } = getNodeSize(n);
+    vertices.set(n.id, {
+      id: n.id,
+      isDummy: false,
+      breadth: horizontal ? height : width,
+      depth: horizontal ? width : height
     });
-    if (!changed) break;
+  });
+
+  // Split long edges into chains of dummy vertices so every edge spans exactly one layer
+  const up = new Map<string, string[]>();
+  const down = new Map<string, string[]>();
+  const link = (a: string, b: string) => {
+    if (!down.has(a)) down.set(a, []);
+    if (!up.has(b)) up.set(b, []);
+    down.get(a)!.push(b);
+    up.get(b)!.push(a);
+  };
+  const seenEdges = new Set<string>();
+  dag.forEach((e, idx) => {
+    const key = `${e.source}->${e.target}`;
+    if (seenEdges.has(key)) return;
+    seenEdges.add(key);
+    let prev = e.source;
+    for (let r = rank.get(e.source)! + 1; r < rank.get(e.target)!; r++) {
+      const dummyId = `__dummy_${idx}_${r}`;
+      vertices.set(dummyId, { id: dummyId, isDummy: true, breadth: DUMMY_SIZE, depth: 0 });
+      rank.set(dummyId, r);
+      link(prev, dummyId);
+      prev = dummyId;
+    }
+    link(prev, e.target);
+  });
+
+  const maxRank = Math.max(...Array.from(rank.values()));
+  let layers: string[][] = Array.from({ length: maxRank + 1 }, () => []);
+
+  // Initial order: DFS from sources keeps siblings together
+  const placed = new Set<string>();
+  const place = (id: string) => {
+    if (placed.has(id)) return;
+    placed.add(id);
+    layers[rank.get(id)!].push(id);
+    (down.get(id) || []).forEach(place);
+  };
+  ids.filter(id => !(up.get(id) || []).length).forEach(place);
+  Array.from(vertices.keys()).forEach(place);
+
+  // 3. Crossing minimisation: alternate down/up sweeps, keep the best ordering seen
+  let best = layers.map(l => [...l]);
+  let bestCrossings = totalCrossings(layers, down);
+  for (let sweep = 0; sweep < CROSSING_SWEEPS && bestCrossings > 0; sweep++) {
+    const useMedian = sweep % 4 >= 2;
+    if (sweep % 2 === 0) {
+      for (let i = 1; i < layers.length; i++) layers[i] = reorderLayer(layers[i], layers[i - 1], up, useMedian);
+    } else {
+      for (let i = layers.length - 2; i >= 0; i--) layers[i] = reorderLayer(layers[i], layers[i + 1], down, useMedian);
+    }
+    const crossings = totalCrossings(layers, down);
+    if (crossings < bestCrossings) {
+      bestCrossings = crossings;
+      best = layers.map(l => [...l]);
+    }
   }
+  layers = best;
 
-  const maxRank = Math.max(...Array.from(ranks.values()));
-  const layers: DiagramNode[][] = Array.from({ length: maxRank + 1 }, () => []);
-  nodes.forEach(n => {
-    const r = ranks.get(n.id) || 0;
-    layers[r].push(n);
+  // 4. Coordinate assignment
+  const center = assignBreadth(layers, vertices, up, down);
+
+  // Layer offsets along the flow use the deepest node in each layer
+  const layerStart: number[] = [];
+  let cursor = 0;
+  layers.forEach((layer, r) => {
+    layerStart[r] = cursor;
+    const depth = Math.max(0, ...layer.map(id => vertices.get(id)!.depth));
+    cursor += depth + (horizontal ? LAYER_GAP * 1.5 : LAYER_GAP);
+  });
+
+  nodes.forEach(node => {
+    const v = vertices.get(node.id)!;
+    const r = rank.get(node.id)!;
+    const layerDepth = Math.max(0, ...layers[r].map(id => vertices.get(id)!.depth));
+    // Centre each node within its layer band
+    const along = layerStart[r] + (layerDepth - v.depth) / 2;
+    const across = center.get(node.id)! - v.breadth / 2;
+
+    if (horizontal) {
+      node.position = { x: along, y: across };
+      // Horizontal Layout -> Left/Right Handles
+      node.sourcePosition = Position.Right;
+      node.targetPosition = Position.Left;
+    } else {
+      node.position = { x: across, y: along };
+      // Vertical Layout -> Top/Bottom Handles
+      node.sourcePosition = Position.Bottom;
+      node.targetPosition = Position.Top;
+    }
   });
+};
+
+// --- ERD layout ---
+
+const ERD_GAP_X = 120; // Room for orthogonal edges between table columns
+const ERD_GAP_Y = 80;
+const ERD_COMPONENT_GAP = 200; // Between unrelated groups of tables
+export const ERD_HEADER_HEIGHT = 32;
+export const ERD_ROW_HEIGHT = 25; // Per column row
+
+const countAttributes = (node: DiagramNode) => getColumns(node.data).length;
+
+// Slot size for an entity: its measured size once rendered, else an estimate from its columns
+const getEntitySize = (node: DiagramNode) => {
+  const { width, height } = getNodeSize(node);
+  if (node.width && node.height) return { width, height };
+  const columns = getColumns(node.data);
+  const widest = Math.max(0, ...columns.map(c => c.name.length + (c.type?.length ?? 0)));
+  return {
+    width: Math.max(width, 180, widest * 7 + 60),
+    height: Math.max(height, ERD_HEADER_HEIGHT + Math.max(1, columns.length) * ERD_ROW_HEIGHT)
+  };
+};
+
+/**
+ * Places each group of related tables on its own grid: the most-connected table takes the
+ * centre cell and every other table (in BFS order from it) takes the free cell closest to its
+ * already-placed neighbours. Returns grid cells keyed by node id, normalised to start at 0.
+ */
+const placeRelatedTables = (component: string[], adj: Map<string, Set<string>>, attrs: Map<string, number>) => {
+  const degree = (id: string) => adj.get(id)!.size;
+  const byImportance = (a: string, b: string) => degree(b) - degree(a) || attrs.get(b)! - attrs.get(a)!;
 
-  // Simple Barycenter Crossing Reduction (simplified)
-  for (let i = 1; i < layers.length; i++) {
-    const currentLayer = layers[i];
-    // Sort current layer based on average position of parents in previous layer
-    // This is a simplified heuristic
-    // (Implementation omitted for brevity, keeping existing structure mostly)
+  const cells = new Map<string, Point>();
+  const taken = new Set<string>();
+  const hub = [...component].sort(byImportance)[0];
+  const order = [hub];
+  const visited = new Set([hub]);
+  for (let i = 0; i < order.length; i++) {
+    Array.from(adj.get(order[i])!).sort(byImportance).forEach(next => {
+      if (!visited.has(next)) {
+        visited.add(next);
+        order.push(next);
+      }
+    });
   }
 
-  // Coordinate Assignment
-  layers.forEach((layerNodes, r) => {
-    const layerSize = layerNodes.length;
-    
-    layerNodes.forEach((node, idx) => {
-      // Basic centering offset
-      if (direction === 'TB') {
-        const width = (layerSize - 1) * LAYERED_X_SPACING;
-        const xOffset = -(width / 2);
-        node.position = {
-          x: xOffset + idx * LAYERED_X_SPACING,
-          y: r * LAYERED_Y_SPACING
-        };
-        // Vertical Layout -> Top/Bottom Handles
-        node.sourcePosition = Position.Bottom;
-        node.targetPosition = Position.Top;
-      } else {
-        // Horizontal Layout -> Left/Right Handles
-        const height = (layerSize - 1) * 100;
-        const yOffset = -(height / 2);
-        node.position = {
-          x: r * 300,
-          y: yOffset + idx * 100
-        };
-        node.sourcePosition = Position.Right;
-        node.targetPosition = Position.Left;
+  order.forEach(id => {
+    const placed = Array.from(adj.get(id)!).filter(n => cells.has(n)).map(n => cells.get(n)!);
+    const target = placed.length === 0 ? { x: 0, y: 0 } : {
+      x: placed.reduce((s, p) => s + p.x, 0) / placed.length,
+      y: placed.reduce((s, p) => s + p.y, 0) / placed.length
+    };
+    // Search outward ring by ring; prefer the cell nearest the neighbours' centroid, then the hub
+    let best: Point | null = null;
+    let bestScore = Infinity;
+    for (let r = 0; best === null || r <= Math.ceil(Math.sqrt(bestScore)) + 1; r++) {
+      for (let dx = -r; dx <= r; dx++) {
+        for (let dy = -r; dy <= r; dy++) {
+          if (Math.max(Math.abs(dx), Math.abs(dy)) !== r) continue;
+          const cell = { x: Math.round(target.x) + dx, y: Math.round(target.y) + dy };
+          if (taken.has(`${cell.x},${cell.y}`)) continue;
+          const score = (cell.x - target.x) ** 2 + (cell.y - target.y) ** 2 + 0.01 * (cell.x ** 2 + cell.y ** 2);
+          if (score < bestScore) {
+            best = cell;
+            bestScore = score;
+          }
+        }
       }
+    }
+    cells.set(id, best!);
+    taken.add(`${best!.x},${best!.y}`);
+  });
+
+  const minX = Math.min(...Array.from(cells.values()).map(c => c.x));
+  const minY = Math.min(...Array.from(cells.values()).map(c => c.y));
+  cells.forEach((c, id) => cells.set(id, { x: c.x - minX, y: c.y - minY }));
+  return cells;
+};
+
+/**
+ * Relationship-aware ERD layout. Tables are clustered by foreign-key relationships
+ * (connected components), hub tables sit at the centre of their cluster, and grid rows and
+ * columns are sized to the largest entity in them. Clusters are packed largest first.
+ */
+const layoutErd = (nodes: DiagramNode[], edges: DiagramEdge[]) => {
+  if (nodes.length === 0) return;
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const adj = new Map<string, Set<string>>(nodes.map(n => [n.id, new Set()]));
+  edges.forEach(e => {
+    if (!byId.has(e.source) || !byId.has(e.target) || e.source === e.target) return;
+    adj.get(e.source)!.add(e.target);
+    adj.get(e.target)!.add(e.source);
+  });
+  const attrs = new Map(nodes.map(n => [n.id, countAttributes(n)]));
+  const sizes = new Map(nodes.map(n => [n.id, getEntitySize(n)]));
+
+  // Connected components in input order
+  const components: string[][] = [];
+  const seen = new Set<string>();
+  nodes.forEach(n => {
+    if (seen.has(n.id)) return;
+    const component: string[] = [];
+    const stack = [n.id];
+    seen.add(n.id);
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      component.push(id);
+      adj.get(id)!.forEach(next => {
+        if (!seen.has(next)) {
+          seen.add(next);
+          stack.push(next);
+        }
+      });
+    }
+    components.push(component);
+  });
+  components.sort((a, b) => b.length - a.length);
+
+  // Lay out each cluster in local coordinates
+  const blocks = components.map(component => {
+    const cells = placeRelatedTables(component, adj, attrs);
+    const colWidths: number[] = [];
+    const rowHeights: number[] = [];
+    cells.forEach((c, id) => {
+      const size = sizes.get(id)!;
+      colWidths[c.x] = Math.max(colWidths[c.x] || 0, size.width);
+      rowHeights[c.y] = Math.max(rowHeights[c.y] || 0, size.height);
     });
+    const colX: number[] = [];
+    const rowY: number[] = [];
+    for (let i = 0, x = 0; i < colWidths.length; i++) {
+      colX[i] = x;
+      x += (colWidths[i] || 0) + ERD_GAP_X;
+    }
+    for (let i = 0, y = 0; i < rowHeights.length; i++) {
+      rowY[i] = y;
+      y += (rowHeights[i] || 0) + ERD_GAP_Y;
+    }
+    // Centre each table in its slot
+    const positions = new Map<string, Point>();
+    cells.forEach((c, id) => {
+      const size = sizes.get(id)!;
+      positions.set(id, {
+        x: colX[c.x] + ((colWidths[c.x] || 0) - size.width) / 2,
+        y: rowY[c.y] + ((rowHeights[c.y] || 0) - size.height) / 2
+      });
+    });
+    const width = colWidths.reduce((s, w) => s + (w || 0), 0) + ERD_GAP_X * (colWidths.length - 1);
+    const height = rowHeights.reduce((s, h) => s + (h || 0), 0) + ERD_GAP_Y * (rowHeights.length - 1);
+    return { positions, width, height };
+  });
+
+  // Shelf-pack clusters into rows roughly as wide as the whole diagram is tall
+  const totalArea = blocks.reduce((s, b) => s + (b.width + ERD_COMPONENT_GAP) * (b.height + ERD_COMPONENT_GAP), 0);
+  const rowLimit = Math.max(blocks[0].width, Math.sqrt(totalArea) * 1.5);
+  let cursorX = 0;
+  let cursorY = 0;
+  let shelfHeight = 0;
+  blocks.forEach(block => {
+    if (cursorX > 0 && cursorX + block.width > rowLimit) {
+      cursorX = 0;
+      cursorY += shelfHeight + ERD_COMPONENT_GAP;
+      shelfHeight = 0;
+    }
+    block.positions.forEach((p, id) => {
+      byId.get(id)!.position = { x: cursorX + p.x, y: cursorY + p.y };
+    });
+    cursorX += block.width + ERD_COMPONENT_GAP;
+    shelfHeight = Math.max(shelfHeight, block.height);
+  });
+
+  // Orthogonal edges pick their own sides; handles still face each node's neighbours for exports
+  const centers = new Map(nodes.map(n => {
+    const { width, height } = sizes.get(n.id)!;
+    return [n.id, { x: n.position.x + width / 2, y: n.position.y + height / 2 }];
+  }));
+  assignHandlesByNeighbours(nodes, edges, centers);
+};
+
+// --- Radial, Circular and Network layouts ---
+// These compute node centres first, then convert to React Flow's top-left positions.
+
+const RADIAL_RING_GAP = 220; // Minimum distance between depth rings
+const CIRCLE_MIN_RADIUS = 200;
+const CIRCLE_NODE_GAP = 40;
+const FORCE_ITERATIONS = 300;
+
+type Point = { x: number; y: number };
+
+const setCenter = (node: DiagramNode, center: Point) => {
+  const { width, height } = getNodeSize(node);
+  node.position = { x: center.x - width / 2, y: center.y - height / 2 };
+};
+
+// Handle side facing a direction vector
+const sideToward = (dx: number, dy: number): Position => {
+  if (Math.abs(dx) >= Math.abs(dy)) return dx >= 0 ? Position.Right : Position.Left;
+  return dy >= 0 ? Position.Bottom : Position.Top;
+};
+
+/**
+ * Non-layered layouts have no single flow direction, so each node's source handle faces
+ * the centroid of its targets and its target handle faces the centroid of its sources.
+ */
+const assignHandlesByNeighbours = (nodes: DiagramNode[], edges: DiagramEdge[], centers: Map<string, Point>) => {
+  const centroid = (ids: string[]) => ids.length === 0 ? null : {
+    x: ids.reduce((s, id) => s + centers.get(id)!.x, 0) / ids.length,
+    y: ids.reduce((s, id) => s + centers.get(id)!.y, 0) / ids.length
+  };
+  nodes.forEach(n => {
+    const c = centers.get(n.id)!;
+    const outs = centroid(edges.filter(e => e.source === n.id && centers.has(e.target)).map(e => e.target));
+    const ins = centroid(edges.filter(e => e.target === n.id && centers.has(e.source)).map(e => e.source));
+    // Without neighbours on one side, point away from the other side
+    n.sourcePosition = outs ? sideToward(outs.x - c.x, outs.y - c.y) : ins ? sideToward(c.x - ins.x, c.y - ins.y) : Position.Right;
+    n.targetPosition = ins ? sideToward(ins.x - c.x, ins.y - c.y) : outs ? sideToward(c.x - outs.x, c.y - outs.y) : Position.Left;
   });
 };
 
 /**
- * Grid Layout for ERDs
+ * BFS spanning tree from the root (no incoming edges, else nodes[0]); unreachable nodes
+ * hang off the root so every node gets a ring.
  */
-const layoutGrid = (nodes: DiagramNode[], edges: DiagramEdge[]) => {
-  const cols = Math.ceil(Math.sqrt(nodes.length));
-  const spacingX = 300;
-  const spacingY = 200;
-
-  nodes.forEach((node, index) => {
-    const col = index % cols;
-    const row = Math.floor(index / cols);
-    node.position = {
-      x: col * spacingX,
-      y: row * spacingY
-    };
-    // ERDs typically look best with Top/Bottom or Left/Right. 
-    // Defaulting to Left/Right for compatibility with list-like entity nodes.
-    node.sourcePosition = Position.Right;
-    node.targetPosition = Position.Left;
+const buildSpanningTree = (nodes: DiagramNode[], edges: DiagramEdge[]) => {
+  const ids = new Set(nodes.map(n => n.id));
+  const incoming = new Set(edges.map(e => e.target));
+  const root = (nodes.find(n => !incoming.has(n.id)) || nodes[0]).id;
+
+  const adj = new Map<string, string[]>();
+  edges.forEach(e => {
+    if (!ids.has(e.source) || !ids.has(e.target)) return;
+    if (!adj.has(e.source)) adj.set(e.source, []);
+    adj.get(e.source)!.push(e.target);
   });
-};
\ No newline at end of file
+
+  const children = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+  const depth = new Map<string, number>([[root, 0]]);
+  const queue = [root];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    (adj.get(id) || []).forEach(next => {
+      if (depth.has(next)) return;
+      depth.set(next, depth.get(id)! + 1);
+      children.get(id)!.push(next);
+      queue.push(next);
+    });
+  }
+  nodes.filter(n => !depth.has(n.id)).forEach(n => {
+    depth.set(n.id, 1);
+    children.get(root)!.push(n.id);
+  });
+
+  return { root, children, depth };
+};
+
+/**
+ * Concentric rings by depth; each subtree gets an angular wedge proportional to its size.
+ */
+const layoutRadial = (nodes: DiagramNode[], edges: DiagramEdge[]) => {
+  if (nodes.length === 0) return;
+  const { root, children, depth } = buildSpanningTree(nodes, edges);
+
+  const size = new Map<string, number>();
+  const subtreeSize = (id: string): number => {
+    const total = 1 + children.get(id)!.reduce((s, c) => s + subtreeSize(c), 0);
+    size.set(id, total);
+    return total;
+  };
+  subtreeSize(root);
+
+  // Ring radius grows with depth, and is widened until the ring's circumference fits its nodes
+  const maxDepth = Math.max(...Array.from(depth.values()));
+  const radii: number[] = [0];
+  for (let d = 1; d <= maxDepth; d++) {
+    const ringNodes = nodes.filter(n => depth.get(n.id) === d);
+    const needed = ringNodes.reduce((s, n) => s + getNodeSize(n).width + CIRCLE_NODE_GAP, 0) / (2 * Math.PI);
+    radii[d] = Math.max(radii[d - 1] + RADIAL_RING_GAP, needed);
+  }
+
+  const centers = new Map<string, Point>();
+  const place = (id: string, start: number, end: number) => {
+    const d = depth.get(id)!;
+    const angle = (start + end) / 2;
+    centers.set(id, d === 0 ? { x: 0, y: 0 } : { x: radii[d] * Math.cos(angle), y: radii[d] * Math.sin(angle) });
+
+    const kids = children.get(id)!;
+    const total = kids.reduce((s, c) => s + size.get(c)!, 0);
+    let cursor = start;
+    kids.forEach(c => {
+      const span = (end - start) * size.get(c)! / total;
+      place(c, cursor, cursor + span);
+      cursor += span;
+    });
+  };
+  // Start at the top so the first branch sits at 12 o'clock
+  place(root, -Math.PI / 2, (3 * Math.PI) / 2);
+
+  nodes.forEach(n => setCenter(n, centers.get(n.id)!));
+  assignHandlesByNeighbours(nodes, edges, centers);
+};
+
+// Two chords cross iff exactly one endpoint of one lies strictly inside the other's arc
+const countCircularCrossings = (order: string[], edges: DiagramEdge[]) => {
+  const pos = new Map(order.map((id, i) => [id, i]));
+  const chords = edges
+    .map(e => [pos.get(e.source), pos.get(e.target)])
+    .filter((c): c is [number, number] => c[0] !== undefined && c[1] !== undefined && c[0] !== c[1])
+    .map(([a, b]) => a < b ? [a, b] : [b, a]);
+  let crossings = 0;
+  for (let i = 0; i < chords.length; i++) {
+    const [a, b] = chords[i];
+    for (let j = i + 1; j < chords.length; j++) {
+      const [c, d] = chords[j];
+      const cInside = c > a && c < b;
+      const dInside = d > a && d < b;
+      if (cInside !== dInside && c !== a && c !== b && d !== a && d !== b) crossings++;
+    }
+  }
+  return crossings;
+};
+
+/**
+ * Nodes on a single circle. The order starts from a DFS (keeping neighbours adjacent)
+ * and is improved by adjacent swaps while that reduces edge crossings.
+ */
+const layoutCircular = (nodes: DiagramNode[], edges: DiagramEdge[]) => {
+  if (nodes.length === 0) return;
+
+  const neighbours = new Map<string, string[]>(nodes.map(n => [n.id, []]));
+  edges.forEach(e => {
+    neighbours.get(e.source)?.push(e.target);
+    neighbours.get(e.target)?.push(e.source);
+  });
+
+  // DFS from the highest-degree node, visiting lower-degree neighbours first
+  const visited = new Set<string>();
+  let order: string[] = [];
+  const visit = (id: string) => {
+    if (visited.has(id)) return;
+    visited.add(id);
+    order.push(id);
+    [...neighbours.get(id)!]
+      .sort((a, b) => neighbours.get(a)!.length - neighbours.get(b)!.length)
+      .forEach(visit);
+  };
+  [...nodes]
+    .sort((a, b) => neighbours.get(b.id)!.length - neighbours.get(a.id)!.length)
+    .forEach(n => visit(n.id));
+
+  let crossings = countCircularCrossings(order, edges);
+  for (let pass = 0; pass < 4 && crossings > 0; pass++) {
+    let improved = false;
+    for (let i = 0; i < order.length; i++) {
+      const j = (i + 1) % order.length;
+      const candidate = [...order];
+      [candidate[i], candidate[j]] = [candidate[j], candidate[i]];
+      const c = countCircularCrossings(candidate, edges);
+      if (c < crossings) {
+        order = candidate;
+        crossings = c;
+        improved = true;
+      }
+    }
+    if (!improved) break;
+  }
+
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const circumference = nodes.reduce((s, n) => s + getNodeSize(n).width + CIRCLE_NODE_GAP, 0);
+  const radius = Math.max(CIRCLE_MIN_RADIUS, circumference / (2 * Math.PI));
+
+  const centers = new Map<string, Point>();
+  order.forEach((id, i) => {
+    const angle = -Math.PI / 2 + (2 * Math.PI * i) / order.length;
+    const center = { x: radius * Math.cos(angle), y: radius * Math.sin(angle) };
+    centers.set(id, center);
+    setCenter(byId.get(id)!, center);
+  });
+
+  // Chords run through the middle, so both handles face the centre
+  nodes.forEach(n => {
+    const c = centers.get(n.id)!;
+    const inward = sideToward(-c.x, -c.y);
+    n.sourcePosition = inward;
+    n.targetPosition = inward;
+  });
+};
+
+/**
+ * Fruchterman-Reingold force-directed layout with size-aware repulsion.
+ * Deterministic: starts from a circle and cools linearly.
+ */
+const layoutForce = (nodes: DiagramNode[], edges: DiagramEdge[]) => {
+  if (nodes.length === 0) return;
+
+  const sizes = new Map(nodes.map(n => [n.id, getNodeSize(n)]));
+  const avgSize = nodes.reduce((s, n) => s + sizes.get(n.id)!.width, 0) / nodes.length;
+  const k = avgSize * 1.4; // Ideal edge length
+  const initialRadius = Math.max(CIRCLE_MIN_RADIUS, (k * nodes.length) / (2 * Math.PI));
+
+  const pos = new Map<string, Point>(nodes.map((n, i) => {
+    const angle = (2 * Math.PI * i) / nodes.length;
+    return [n.id, { x: initialRadius * Math.cos(angle), y: initialRadius * Math.sin(angle) }];
+  }));
+  const links = edges.filter(e => pos.has(e.source) && pos.has(e.target) && e.source !== e.target);
+
+  let temperature = initialRadius / 4;
+  const cooling = temperature / FORCE_ITERATIONS;
+
+  for (let iter = 0; iter < FORCE_ITERATIONS; iter++) {
+    const disp = new Map<string, Point>(nodes.map(n => [n.id, { x: 0, y: 0 }]));
+
+    // Repulsion between every pair, stronger when boxes would overlap
+    for (let i = 0; i < nodes.length; i++) {
+      for (let j = i + 1; j < nodes.length; j++) {
+        const a = nodes[i].id;
+        const b = nodes[j].id;
+        const pa = pos.get(a)!;
+        const pb = pos.get(b)!;
+        let dx = pa.x - pb.x;
+        let dy = pa.y - pb.y;
+        if (dx === 0 && dy === 0) { dx = 0.1 * (i + 1); dy = 0.1 * (j + 1); }
+        const dist = Math.sqrt(dx * dx + dy * dy);
+        const minDist = (sizes.get(a)!.width + sizes.get(b)!.width) / 2;
+        const force = (k * k) / dist * (dist < minDist ? 3 : 1);
+        const fx = (dx / dist) * force;
+        const fy = (dy / dist) * force;
+        disp.get(a)!.x += fx; disp.get(a)!.y += fy;
+        disp.get(b)!.x -= fx; disp.get(b)!.y -= fy;
+      }
+    }
+
+    // Attraction along edges
+    links.forEach(e => {
+      const ps = pos.get(e.source)!;
+      const pt = pos.get(e.target)!;
+      const dx = ps.x - pt.x;
+      const dy = ps.y - pt.y;
+      const dist = Math.max(0.01, Math.sqrt(dx * dx + dy * dy));
+      const force = (dist * dist) / k;
+      const fx = (dx / dist) * force;
+      const fy = (dy / dist) * force;
+      disp.get(e.source)!.x -= fx; disp.get(e.source)!.y -= fy;
+      disp.get(e.target)!.x += fx; disp.get(e.target)!.y += fy;
+    });
+
+    // Move, capped by the current temperature
+    nodes.forEach(n => {
+      const d = disp.get(n.id)!;
+      const len = Math.sqrt(d.x * d.x + d.y * d.y);
+      if (len === 0) return;
+      const p = pos.get(n.id)!;
+      const step = Math.min(len, temperature);
+      p.x += (d.x / len) * step;
+      p.y += (d.y / len) * step;
+    });
+    temperature = Math.max(1, temperature - cooling);
+  }
+
+  nodes.forEach(n => setCenter(n, pos.get(n.id)!));
+  assignHandlesByNeighbours(nodes, edges, pos);
+};
@@ -0,0 +1,363 @@
+import { Cardinality, DiagramEdge, DiagramNode, DiagramType, ErdColumn, GeneratedNode, GeneratedResponse } from '../types';
+import { createIdGenerator, FlowchartShape, getFlowchartShape } from './graph';
+import { getColumns } from './erd';
+
+// Written as a Mermaid comment so imports can tell an Org Chart from a plain flowchart
+const TYPE_COMMENT = '%% diagram-type:';
+
+// --- Export ---
+
+// Keywords Mermaid reads as statements rather than node ids ("end" closes a subgraph)
+const RESERVED_IDS = new Set([
+  'end', 'graph', 'flowchart', 'subgraph', 'style', 'classdef', 'class', 'linkstyle', 'click',
+  'direction', 'default', 'call', 'href', 'callback', 'interpolate', 'acctitle', 'accdescr'
+]);
+
+// Mermaid ids must be plain, non-reserved words; labels carry the real text. Other ids are
+// replaced by generated ones that can't clash with any id kept as is.
+const toMermaidIds = (nodes: DiagramNode[]) => {
+  const isUsable = (id: string) => /^[A-Za-z][\w]*$/.test(id) && !RESERVED_IDS.has(id.toLowerCase());
+  const nextId = createIdGenerator(nodes.map(n => n.id).filter(isUsable));
+  return new Map(nodes.map(n => [n.id, isUsable(n.id) ? n.id : nextId('n')]));
+};
+
+// "|" would end an edge label (-->|...|), so it is written as an entity code too
+const escapeLabel = (text: string) => text.replace(/"/g, '#quot;').replace(/\|/g, '#124;').replace(/\n/g, '<br/>');
+
+const FLOWCHART_SHAPES: Record<FlowchartShape, [string, string]> = {
+  process: ['[', ']'],
+  decision: ['{', '}'],
+  terminator: ['([', '])'],
+  io: ['[/', '/]'],
+  document: ['>', ']'], // Mermaid's classic syntax has no document shape; the flag is the closest
+  database: ['[(', ')]']
+};
+
+const toFlowchart = (nodes: DiagramNode[], edges: DiagramEdge[], direction: 'TD' | 'TB', withShapes: boolean) => {
+  const ids = toMermaidIds(nodes);
+  const lines = [`flowchart ${direction}`];
+  nodes.forEach(n => {
+    const [open, close] = withShapes ? FLOWCHART_SHAPES[getFlowchartShape(n.data.type)] : ['(', ')'];
+    lines.push(`    ${ids.get(n.id)}${open}"${escapeLabel(String(n.data.label))}"${close}`);
+  });
+  edges.forEach(e => {
+    const source = ids.get(e.source);
+    const target = ids.get(e.target);
+    if (!source || !target) return;
+    lines.push(e.label ? `    ${source} -->|"${escapeLabel(String(e.label))}"| ${target}` : `    ${source} --> ${target}`);
+  });
+  return lines;
+};
+
+const toMindmap = (nodes: DiagramNode[], edges: DiagramEdge[]) => {
+  const lines = ['mindmap'];
+  if (nodes.length === 0) return lines;
+  const incoming = new Set(edges.map(e => e.target));
+  const root = nodes.find(n => !incoming.has(n.id)) || nodes[0];
+  const children = new Map<string, string[]>();
+  edges.forEach(e => children.set(e.source, [...(children.get(e.source) || []), e.target]));
+  const byId = new Map(nodes.map(n => [n.id, n]));
+
+  // Mindmaps are strict trees: each node is written once, under the first parent that reaches it
+  const visited = new Set<string>();
+  const write = (id: string, depth: number) => {
+    if (visited.has(id)) return;
+    visited.add(id);
+    const label = String(byId.get(id)!.data.label);
+    const indent = '  '.repeat(depth + 1);
+    const text = depth === 0 ? `root(("${escapeLabel(label)}"))` : /^[\w ,.'&-]+$/.test(label) ? label : `n${visited.size}["${escapeLabel(label)}"]`;
+    lines.push(indent + text);
+    (children.get(id) || []).forEach(child => write(child, depth + 1));
+  };
+  write(root.id, 0);
+  // Anything unreachable from the root hangs directly under it
+  nodes.filter(n => !visited.has(n.id)).forEach(n => write(n.id, 1));
+  return lines;
+};
+
+const CARDINALITY_TO_ER: Record<Cardinality, string> = {
+  '1:1': '||--||',
+  '1:N': '||--o{',
+  'N:1': '}o--||',
+  'N:M': '}o--o{'
+};
+
+const toEntityName = (label: string) => label.trim().replace(/[^\w-]+/g, '_') || 'ENTITY';
+
+// Attribute types are single words in Mermaid ("varchar(255)" is fine, spaces and commas are
+// not); commas become "-", which fromAttributeType turns back inside parentheses
+const toAttributeType = (type?: string) => type ? type.trim().replace(/,\s*/g, '-').replace(/\s+/g, '_') : 'string';
+
+const toErDiagram = (nodes: DiagramNode[], edges: DiagramEdge[]) => {
+  const lines = ['erDiagram'];
+  const names = new Map(nodes.map(n => [n.id, toEntityName(String(n.data.label))]));
+  nodes.forEach(n => {
+    const columns = getColumns(n.data);
+    if (columns.length === 0) {
+      lines.push(`    ${names.get(n.id)} {`, '    }');
+      return;
+    }
+    lines.push(`    ${names.get(n.id)} {`);
+    columns.forEach(c => {
+      const keys = [c.pk ? 'PK' : '', c.fk !== undefined ? 'FK' : '', c.unique && !c.pk ? 'UK' : ''].filter(Boolean).join(', ');
+      const comment = c.fk ? ` "references ${c.fk}"` : '';
+      lines.push(`        ${toAttributeType(c.type)} ${c.name}${keys ? ` ${keys}` : ''}${comment}`);
+    });
+    lines.push('    }');
+  });
+  edges.forEach(e => {
+    const source = names.get(e.source);
+    const target = names.get(e.target);
+    if (!source || !target) return;
+    const symbol = CARDINALITY_TO_ER[e.data?.cardinality || '1:N'];
+    lines.push(`    ${source} ${symbol} ${target} : "${escapeLabel(String(e.label || ''))}"`);
+  });
+  return lines;
+};
+
+/**
+ * Mermaid source for a diagram: `flowchart` (shapes from data.type) for Flowcharts,
+ * `mindmap` for Mindmaps, `erDiagram` for ERDs and `flowchart TB` for Org Charts.
+ */
+export const toMermaid = (nodes: DiagramNode[], edges: DiagramEdge[], diagramType: DiagramType, title?: string): string => {
+  const header = title ? ['---', `title: ${title.replace(/\n/g, ' ')}`, '---'] : [];
+  let body: string[];
+  switch (diagramType) {
+    case DiagramType.MINDMAP: body = toMindmap(nodes, edges); break;
+    case DiagramType.ERD: body = toErDiagram(nodes, edges); break;
+    case DiagramType.ORG_CHART: body = toFlowchart(nodes, edges, 'TB', false); break;
+    default: body = toFlowchart(nodes, edges, 'TD', true);
+  }
+  return [...header, `${TYPE_COMMENT} ${diagramType}`, ...body].join('\n') + '\n';
+};
+
+// --- Import ---
+
+const decodeLabel = (text: string) =>
+  text.trim()
+    .replace(/^"(.*)"$/s, '$1')
+    .replace(/^`(.*)`$/s, '$1')
+    .replace(/#quot;/g, '"')
+    .replace(/#124;/g, '|')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .trim();
+
+// Node shapes, longest delimiters first; the type is what getFlowchartShape reads back
+const NODE_SHAPES: { open: string; close: string; type?: string }[] = [
+  { open: '([', close: '])', type: 'terminator' },
+  { open: '[(', close: ')]', type: 'database' },
+  { open: '((', close: '))', type: 'terminator' },
+  { open: '[[', close: ']]', type: 'process' },
+  { open: '{{', close: '}}', type: 'decision' },
+  { open: '[/', close: '/]', type: 'io' },
+  { open: '[\\', close: '\\]', type: 'io' },
+  { open: '[/', close: '\\]', type: 'process' },
+  { open: '[\\', close: '/]', type: 'process' },
+  { open: '>', close: ']', type: 'document' },
+  { open: '{', close: '}', type: 'decision' },
+  { open: '(', close: ')', type: 'process' },
+  { open: '[', close: ']', type: 'process' }
+];
+
+/**
+ * Reads one node reference ("A", "A[Label]", "A{"Is it?"}") from the start of `text`.
+ */
+const readNode = (text: string): { id: string; label?: string; type?: string; rest: string } | null => {
+  const idMatch = text.match(/^\s*([\w.-]+?)(?=[\s[({>&;]|-[-.>]|=[=>]|:::|$)/);
+  if (!idMatch) return null;
+  let rest = text.slice(idMatch[0].length);
+  const id = idMatch[1];
+  for (const shape of NODE_SHAPES) {
+    if (!rest.startsWith(shape.open)) continue;
+    const inner = rest.slice(shape.open.length);
+    // Quoted labels may contain the closing delimiter
+    const quoted = inner.match(/^"[^"]*"/);
+    const end = quoted ? inner.indexOf(shape.close, quoted[0].length) : inner.indexOf(shape.close);
+    if (end < 0) continue;
+    rest = inner.slice(end + shape.close.length).replace(/^:::[\w-]+/, '');
+    return { id, label: decodeLabel(inner.slice(0, end)), type: shape.type, rest };
+  }
+  return { id, rest: rest.replace(/^:::[\w-]+/, '') };
+};
+
+// "-- text -->", "-->|text|", "---", "-.->", "==>" (and longer variants)
+const LINK_WITH_TEXT = /^\s*(?:--|==|-\.)\s+(.+?)\s+(?:-{2,}|={2,}|\.-)[>ox]?/;
+const LINK = /^\s*<?(?:-\.+-|-{2,}|={2,})[>ox]?\s*(?:\|([^|]*)\|)?/;
+
+const FLOWCHART_SKIP = /^(style|classDef|class|linkStyle|click|subgraph|end|direction|accTitle|accDescr)\b/;
+
+const parseFlowchart = (lines: string[]): GeneratedResponse => {
+  const nodes = new Map<string, GeneratedNode>();
+  const edges: GeneratedResponse['edges'] = [];
+
+  const declare = (ref: { id: string; label?: string; type?: string }) => {
+    const existing = nodes.get(ref.id);
+    if (!existing) {
+      nodes.set(ref.id, { id: ref.id, label: ref.label ?? ref.id, type: ref.type });
+    } else if (ref.label !== undefined) {
+      existing.label = ref.label;
+      existing.type = ref.type;
+    }
+  };
+
+  // "A & B" groups
+  const readGroup = (text: string) => {
+    const group: string[] = [];
+    let rest = text;
+    for (;;) {
+      const node = readNode(rest);
+      if (!node) return null;
+      declare(node);
+      group.push(node.id);
+      rest = node.rest;
+      const amp = rest.match(/^\s*&/);
+      if (!amp) return { ids: group, rest };
+      rest = rest.slice(amp[0].length);
+    }
+  };
+
+  // Statements may be separated by ";", which also appears in quoted labels as "#quot;"
+  lines.flatMap(line => line.match(/(?:"[^"]*"|[^;"])+/g) || []).forEach(raw => {
+    const line = raw.trim();
+    if (!line || FLOWCHART_SKIP.test(line)) return;
+    let group = readGroup(line);
+    while (group) {
+      const link = group.rest.match(LINK_WITH_TEXT) || group.rest.match(LINK);
+      if (!link) return;
+      const next = readGroup(group.rest.slice(link[0].length));
+      if (!next) return;
+      const label = link[1] ? decodeLabel(link[1]) : undefined;
+      group.ids.forEach(source => next.ids.forEach(target => edges.push({ source, target, ...(label ? { label } : {}) })));
+      group = next;
+    }
+  });
+
+  return { nodes: Array.from(nodes.values()), edges };
+};
+
+const MINDMAP_SHAPE = /^(?:([\w-]+)\s*)?(\(\((.*)\)\)|\)\)(.*)\(\(|\{\{(.*)\}\}|\((.*)\)|\[(.*)\]|\)(.*)\()$/s;
+
+const parseMindmap = (lines: string[]): GeneratedResponse => {
+  const nodes: GeneratedNode[] = [];
+  const edges: GeneratedResponse['edges'] = [];
+  const stack: { indent: number; id: string }[] = [];
+
+  lines.forEach(raw => {
+    const text = raw.trim();
+    if (!text || text.startsWith('::icon') || text.startsWith(':::')) return;
+    const indent = raw.replace(/\t/g, '  ').search(/\S/);
+    const shaped = text.match(MINDMAP_SHAPE);
+    const label = decodeLabel(shaped ? shaped.slice(3).find(g => g !== undefined) ?? '' : text);
+
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) stack.pop();
+    const id = `n${nodes.length + 1}`;
+    const parent = stack[stack.length - 1];
+    nodes.push({ id, label, parentId: parent?.id });
+    if (parent) edges.push({ source: parent.id, target: id });
+    stack.push({ indent, id });
+  });
+
+  return { nodes, edges };
+};
+
+// Left/right ends of an ER relationship; braces mean "many"
+const ER_RELATIONSHIP = /^([\w-]+)\s+([|}][|o]|[|o][|{]?)(--|\.\.)([|o][|{]|[|}][|o]?)\s+([\w-]+)\s*(?::\s*(.*))?$/;
+const ER_ENTITY_START = /^([\w-]+)\s*\{\s*$/;
+const ER_ATTRIBUTE = /^([\w()[\]\-]+)\s+([\w-]+)(?:\s+((?:PK|FK|UK)(?:\s*,\s*(?:PK|FK|UK))*))?(?:\s+"([^"]*)")?$/;
+
+// "DECIMAL(10-2)" -> "DECIMAL(10,2)"
+const fromAttributeType = (type: string) => type.replace(/\(([^)]*)\)/g, args => args.replace(/-/g, ','));
+
+const parseErDiagram = (lines: string[]): GeneratedResponse => {
+  const nodes = new Map<string, GeneratedNode>();
+  const edges: GeneratedResponse['edges'] = [];
+  const entity = (name: string) => {
+    if (!nodes.has(name)) nodes.set(name, { id: name, label: name, type: 'entity', columns: [] });
+    return nodes.get(name)!;
+  };
+
+  let current: GeneratedNode | null = null;
+  lines.forEach(raw => {
+    const line = raw.trim();
+    if (!line) return;
+    if (current) {
+      if (line === '}') {
+        current = null;
+        return;
+      }
+      const attr = line.match(ER_ATTRIBUTE);
+      if (!attr) return;
+      const keys = attr[3] ? attr[3].split(/\s*,\s*/) : [];
+      const column: ErdColumn = { name: attr[2], type: fromAttributeType(attr[1]) };
+      if (keys.includes('PK')) column.pk = true;
+      if (keys.includes('UK')) column.unique = true;
+      if (keys.includes('FK')) column.fk = attr[4]?.match(/references\s+(\S+)/i)?.[1] ?? '';
+      current.columns!.push(column);
+      return;
+    }
+    const start = line.match(ER_ENTITY_START);
+    if (start) {
+      current = entity(start[1]);
+      return;
+    }
+    const rel = line.match(ER_RELATIONSHIP);
+    if (rel) {
+      const sourceMany = rel[2].includes('}');
+      const targetMany = rel[4].includes('{');
+      const cardinality: Cardinality = sourceMany ? (targetMany ? 'N:M' : 'N:1') : (targetMany ? '1:N' : '1:1');
+      const label = rel[6] ? decodeLabel(rel[6]) : '';
+      entity(rel[1]);
+      entity(rel[5]);
+      edges.push({ source: rel[1], target: rel[5], cardinality, ...(label ? { label } : {}) });
+      return;
+    }
+    // A bare entity name declares an entity without attributes
+    if (/^[\w-]+$/.test(line)) entity(line);
+  });
+
+  return { nodes: Array.from(nodes.values()), edges };
+};
+
+/**
+ * Parses Mermaid source (optionally inside a ```mermaid fence, with a front-matter title)
+ * into a bare structure for applyLayout. Supports flowchart/graph, mindmap and erDiagram;
+ * a `%% diagram-type:` comment written by toMermaid restores Org Charts.
+ */
+export const parseMermaid = (content: string): { title?: string; type: DiagramType; structure: GeneratedResponse } => {
+  const fenced = content.match(/```mermaid\s*\n([\s\S]*?)```/);
+  let text = fenced ? fenced[1] : content;
+
+  let title: string | undefined;
+  const frontMatter = text.match(/^\s*---\s*\n([\s\S]*?)\n---\s*\n/);
+  if (frontMatter) {
+    title = frontMatter[1].match(/^title:\s*(.+)$/m)?.[1].trim();
+    text = text.slice(frontMatter[0].length);
+  }
+
+  const declaredType = text.match(new RegExp(`^\\s*${TYPE_COMMENT}\\s*(.+)$`, 'm'))?.[1].trim();
+  const lines = text.split('\n').filter(l => !l.trim().startsWith('%%'));
+  const headerIndex = lines.findIndex(l => l.trim());
+  if (headerIndex < 0) throw new Error("The Mermaid file is empty.");
+  const header = lines[headerIndex].trim();
+  const body = lines.slice(headerIndex + 1);
+
+  let type: DiagramType;
+  let structure: GeneratedResponse;
+  if (/^(flowchart|graph)\b/i.test(header)) {
+    type = declaredType === DiagramType.ORG_CHART ? DiagramType.ORG_CHART : DiagramType.FLOWCHART;
+    structure = parseFlowchart(body);
+    // Shapes only mean something in a Flowchart
+    if (type === DiagramType.ORG_CHART) structure.nodes.forEach(n => delete n.type);
+  } else if (/^mindmap\b/i.test(header)) {
+    type = DiagramType.MINDMAP;
+    structure = parseMindmap(body);
+  } else if (/^erDiagram\b/.test(header)) {
+    type = DiagramType.ERD;
+    structure = parseErDiagram(body);
+  } else {
+    throw new Error(`Unsupported Mermaid diagram "${header.split(/\s/)[0]}". Use flowchart, mindmap or erDiagram.`);
+  }
+
+  if (structure.nodes.length === 0) throw new Error("No nodes found in the Mermaid diagram.");
+  return { title, type, structure };
+};
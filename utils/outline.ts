@@ -0,0 +1,267 @@
+import { DiagramEdge, DiagramNode, DiagramType, GeneratedNode, GeneratedResponse } from '../types';
+
+// Marks the diagram type in outline exports (an HTML comment, invisible when rendered)
+export const OUTLINE_TYPE_COMMENT = /<!--\s*diagram-type:\s*(.+?)\s*-->/;
+// Edges that aren't part of the tree, e.g. a flowchart step two branches merge into
+const CROSS_LINK_COMMENT = /<!--\s*link:\s*("(?:[^"\\]|\\.)*")\s*->\s*("(?:[^"\\]|\\.)*")(?:\s*:\s*("(?:[^"\\]|\\.)*"))?\s*-->/;
+
+// JSON string that can't close the HTML comment it sits in
+const toCommentString = (text: string) => JSON.stringify(text).replace(/--/g, '-\\u002d');
+
+// Label of the tree edge leading to an item, e.g. a decision's "Yes"
+export const OUTLINE_VIA_COMMENT = /\s*<!--\s*via\s*("(?:[^"\\]|\\.)*")\s*-->\s*$/;
+
+export interface OutlineItem {
+  node: DiagramNode;
+  via?: DiagramEdge; // Edge from the parent
+  children: OutlineItem[];
+}
+
+/**
+ * Walks the graph from its root(s) into a tree. Each node appears once, under the first parent
+ * that reaches it; the remaining edges are returned as cross-links.
+ */
+export const buildOutline = (nodes: DiagramNode[], edges: DiagramEdge[]): { roots: OutlineItem[]; crossLinks: DiagramEdge[] } => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const outgoing = new Map<string, DiagramEdge[]>();
+  const incoming = new Set<string>();
+  edges.forEach(e => {
+    if (!byId.has(e.source) || !byId.has(e.target)) return;
+    outgoing.set(e.source, [...(outgoing.get(e.source) || []), e]);
+    incoming.add(e.target);
+  });
+
+  const visited = new Set<string>();
+  const treeEdges = new Set<string>();
+  const visit = (id: string, via?: DiagramEdge): OutlineItem => {
+    visited.add(id);
+    const children: OutlineItem[] = [];
+    (outgoing.get(id) || []).forEach(e => {
+      if (visited.has(e.target)) return;
+      treeEdges.add(e.id);
+      children.push(visit(e.target, e));
+    });
+    return { node: byId.get(id)!, via, children };
+  };
+
+  const roots = nodes.filter(n => !incoming.has(n.id)).map(n => visit(n.id));
+  // Cycles without an entry point: start from the first node not yet reached
+  nodes.forEach(n => {
+    if (!visited.has(n.id)) roots.push(visit(n.id));
+  });
+
+  return { roots, crossLinks: edges.filter(e => !treeEdges.has(e.id) && byId.has(e.source) && byId.has(e.target)) };
+};
+
+// --- Markdown ---
+
+const HEADING_LEVELS = 3; // Root is "#", then "##" and "###"; deeper levels become bullets
+
+// Detail lines that look like outline syntax are escaped so they import back as text
+const escapeDetailLine = (line: string) => line.replace(/^(\s*)([-*+#]|\d+[.)])(\s)/, '$1\\$2$3');
+
+const oneLine = (text: string) => text.replace(/\s*\n\s*/g, ' ').trim();
+
+/**
+ * Nested Markdown outline: the root and the first levels as headings, deeper levels as
+ * indented bullets, details and detail points as text under each item. Reads back with
+ * parseMarkdownOutline.
+ */
+export const toMarkdownOutline = (nodes: DiagramNode[], edges: DiagramEdge[], diagramType: DiagramType, title?: string): string => {
+  const { roots, crossLinks } = buildOutline(nodes, edges);
+  const lines: string[] = [`<!-- diagram-type: ${diagramType} -->`];
+
+  const write = (item: OutlineItem, depth: number) => {
+    const via = item.via?.label ? ` <!-- via ${toCommentString(oneLine(String(item.via.label)))} -->` : '';
+    const label = oneLine(String(item.node.data.label)) + via;
+    const details = item.node.data.details?.trim().split('\n').filter(l => l.trim()).map(escapeDetailLine) || [];
+    // Saved detail points follow as text, so they import back as details rather than child nodes
+    details.push(...(item.node.data.detailPoints?.points || []).map(point => `• ${oneLine(point)}`));
+    if (depth < HEADING_LEVELS) {
+      lines.push('', `${'#'.repeat(depth + 1)} ${label}`);
+      if (details.length) lines.push('', ...details);
+    } else {
+      const indent = '  '.repeat(depth - HEADING_LEVELS);
+      lines.push(`${indent}- ${label}`);
+      details.forEach(d => lines.push(`${indent}  ${d.trim()}`));
+    }
+    if (depth + 1 === HEADING_LEVELS && item.children.length) lines.push('');
+    item.children.forEach(child => write(child, depth + 1));
+  };
+
+  // Several roots hang under the title so the file still reads as one tree
+  if (roots.length > 1) {
+    lines.push('', `# ${oneLine(title || diagramType)}`);
+    roots.forEach(r => write(r, 1));
+  } else {
+    roots.forEach(r => write(r, 0));
+  }
+
+  if (crossLinks.length) {
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    lines.push('');
+    crossLinks.forEach(e => {
+      const source = oneLine(String(byId.get(e.source)!.data.label));
+      const target = oneLine(String(byId.get(e.target)!.data.label));
+      const label = e.label ? ` : ${toCommentString(oneLine(String(e.label)))}` : '';
+      lines.push(`<!-- link: ${toCommentString(source)} -> ${toCommentString(target)}${label} -->`);
+    });
+  }
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+};
+
+/**
+ * Cross-links written by toMarkdownOutline, resolved by label against the parsed nodes.
+ */
+export const parseOutlineCrossLinks = (content: string, nodes: GeneratedNode[]): GeneratedResponse['edges'] => {
+  const idByLabel = new Map<string, string>();
+  nodes.forEach(n => {
+    if (!idByLabel.has(n.label)) idByLabel.set(n.label, n.id);
+  });
+  return content.split('\n').flatMap(line => {
+    const m = line.match(CROSS_LINK_COMMENT);
+    if (!m) return [];
+    const source = idByLabel.get(JSON.parse(m[1]));
+    const target = idByLabel.get(JSON.parse(m[2]));
+    if (!source || !target) return [];
+    return [{ source, target, ...(m[3] ? { label: JSON.parse(m[3]) as string } : {}) }];
+  });
+};
+
+// --- OPML and FreeMind ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/\n/g, '&#10;');
+
+/**
+ * OPML 2.0 outline; details go in the `_note` attribute that outliners use for notes.
+ */
+export const toOPML = (nodes: DiagramNode[], edges: DiagramEdge[], title?: string): string => {
+  const { roots } = buildOutline(nodes, edges);
+  const write = (item: OutlineItem, depth: number): string => {
+    const indent = '  '.repeat(depth + 2);
+    const details = item.node.data.details?.trim();
+    const attrs = `text="${escapeXml(String(item.node.data.label))}"${details ? ` _note="${escapeXml(details)}"` : ''}`;
+    if (item.children.length === 0) return `${indent}<outline ${attrs}/>`;
+    return [`${indent}<outline ${attrs}>`, ...item.children.map(c => write(c, depth + 1)), `${indent}</outline>`].join('\n');
+  };
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<opml version="2.0">',
+    '  <head>',
+    `    <title>${escapeXml(title || String(roots[0]?.node.data.label || 'Diagram'))}</title>`,
+    `    <dateCreated>${new Date().toUTCString()}</dateCreated>`,
+    '  </head>',
+    '  <body>',
+    ...roots.map(r => write(r, 0)),
+    '  </body>',
+    '</opml>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * FreeMind map: details become notes, branch edge colours carry over and cross-links become arrow links.
+ */
+export const toFreeMind = (nodes: DiagramNode[], edges: DiagramEdge[], title?: string): string => {
+  const { roots, crossLinks } = buildOutline(nodes, edges);
+  const ids = new Map(nodes.map((n, idx) => [n.id, `ID_${idx + 1}`]));
+  const colorInto = new Map<string, string>();
+  edges.forEach(e => {
+    const stroke = (e.style as Record<string, unknown> | undefined)?.stroke;
+    if (typeof stroke === 'string' && /^#[0-9a-fA-F]{6}$/.test(stroke)) colorInto.set(e.target, stroke);
+  });
+  const linksFrom = new Map<string, DiagramEdge[]>();
+  crossLinks.forEach(e => linksFrom.set(e.source, [...(linksFrom.get(e.source) || []), e]));
+
+  const write = (item: OutlineItem, depth: number, side?: 'left' | 'right'): string => {
+    const indent = '  '.repeat(depth + 1);
+    const { node } = item;
+    const position = depth === 1 && side ? ` POSITION="${side}"` : '';
+    const inner: string[] = [];
+    const color = colorInto.get(node.id);
+    if (color) inner.push(`${indent}  <edge COLOR="${color}"/>`);
+    (linksFrom.get(node.id) || []).forEach(e => {
+      inner.push(`${indent}  <arrowlink DESTINATION="${ids.get(e.target)}" ENDARROW="Default"${e.label ? ` TEXT="${escapeXml(String(e.label))}"` : ''}/>`);
+    });
+    const details = node.data.details?.trim();
+    if (details) {
+      const paragraphs = details.split('\n').map(p => `<p>${escapeXml(p)}</p>`).join('');
+      inner.push(`${indent}  <richcontent TYPE="NOTE"><html><head/><body>${paragraphs}</body></html></richcontent>`);
+    }
+    // Alternate first-level branches left and right like FreeMind does
+    inner.push(...item.children.map((c, idx) => write(c, depth + 1, depth === 0 ? (idx % 2 === 0 ? 'right' : 'left') : side)));
+    const open = `${indent}<node ID="${ids.get(node.id)}" TEXT="${escapeXml(String(node.data.label))}"${position}`;
+    return inner.length ? [`${open}>`, ...inner, `${indent}</node>`].join('\n') : `${open}/>`;
+  };
+
+  // FreeMind maps have a single root
+  const body = roots.length === 1
+    ? write(roots[0], 0)
+    : [`  <node ID="ID_0" TEXT="${escapeXml(title || 'Diagram')}">`, ...roots.map((r, idx) => write(r, 1, idx % 2 === 0 ? 'right' : 'left')), '  </node>'].join('\n');
+  return ['<map version="1.0.1">', body, '</map>', ''].join('\n');
+};
+
+/**
+ * Reads an OPML outline; `_note` (or `note`/`description`) becomes details.
+ */
+export const parseOPML = (doc: Document): { title?: string; structure: GeneratedResponse } => {
+  const nodes: GeneratedNode[] = [];
+  const edges: GeneratedResponse['edges'] = [];
+  const walk = (el: Element, parentId?: string) => {
+    const id = `n${nodes.length + 1}`;
+    const details = el.getAttribute('_note') || el.getAttribute('note') || el.getAttribute('description') || undefined;
+    nodes.push({ id, label: el.getAttribute('text') || el.getAttribute('title') || '', details, parentId });
+    if (parentId) edges.push({ source: parentId, target: id });
+    Array.from(el.children).filter(c => c.tagName === 'outline').forEach(c => walk(c, id));
+  };
+
+  const body = doc.querySelector('body');
+  const tops = body ? Array.from(body.children).filter(c => c.tagName === 'outline') : [];
+  const title = doc.querySelector('head > title')?.textContent?.trim() || undefined;
+  // Several top-level outlines hang under the document title
+  if (tops.length > 1) {
+    nodes.push({ id: 'n0', label: title || 'Outline' });
+    tops.forEach(t => walk(t, 'n0'));
+  } else {
+    tops.forEach(t => walk(t));
+  }
+  return { title, structure: { nodes, edges } };
+};
+
+/**
+ * Reads a FreeMind/Freeplane .mm map: nested <node>s, notes as details and arrow links as extra edges.
+ */
+export const parseFreeMind = (doc: Document): { title?: string; structure: GeneratedResponse } => {
+  const nodes: GeneratedNode[] = [];
+  const edges: GeneratedResponse['edges'] = [];
+  const idByMindmapId = new Map<string, string>();
+  const arrowLinks: { source: string; destination: string; label?: string }[] = [];
+
+  const walk = (el: Element, parentId?: string) => {
+    const id = `n${nodes.length + 1}`;
+    const richText = Array.from(el.children).find(c => c.tagName === 'richcontent' && c.getAttribute('TYPE') !== 'NOTE' && c.getAttribute('TYPE') !== 'DETAILS');
+    const note = Array.from(el.children).find(c => c.tagName === 'richcontent' && (c.getAttribute('TYPE') === 'NOTE' || c.getAttribute('TYPE') === 'DETAILS'));
+    const label = el.getAttribute('TEXT') ?? richText?.textContent?.trim() ?? '';
+    const details = note ? Array.from(note.querySelectorAll('p')).map(p => p.textContent?.trim()).filter(Boolean).join('\n') || note.textContent?.trim() : undefined;
+    nodes.push({ id, label, details: details || undefined, parentId });
+    if (parentId) edges.push({ source: parentId, target: id });
+    const mindmapId = el.getAttribute('ID');
+    if (mindmapId) idByMindmapId.set(mindmapId, id);
+    Array.from(el.children).forEach(c => {
+      if (c.tagName === 'arrowlink' && c.getAttribute('DESTINATION')) {
+        arrowLinks.push({ source: id, destination: c.getAttribute('DESTINATION')!, label: c.getAttribute('TEXT') || undefined });
+      }
+      if (c.tagName === 'node') walk(c, id);
+    });
+  };
+
+  const root = doc.querySelector('map > node');
+  if (root) walk(root);
+  arrowLinks.forEach(link => {
+    const target = idByMindmapId.get(link.destination);
+    if (target) edges.push({ source: link.source, target, ...(link.label ? { label: link.label } : {}) });
+  });
+  return { title: nodes[0]?.label, structure: { nodes, edges } };
+};
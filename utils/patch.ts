@@ -0,0 +1,115 @@
+import { Cardinality, ErdColumn, GeneratedNode, GeneratedResponse } from '../types';
+import { CARDINALITIES } from './erd';
+import { getSubtreeIds } from './graph';
+
+// One edit returned by the model for an update. Existing nodes are referred to by id.
+export type PatchOperation =
+  | { op: 'addNode'; id: string; label: string; details?: string; type?: string; parent?: string; columns?: ErdColumn[] }
+  | { op: 'removeNode'; id: string }
+  | { op: 'updateNode'; id: string; label?: string; details?: string; columns?: ErdColumn[] }
+  | { op: 'addEdge'; source: string; target: string; label?: string; cardinality?: Cardinality }
+  | { op: 'removeEdge'; source: string; target: string }
+  | { op: 'moveSubtree'; id: string; parent: string }; // Re-attaches a node, and everything below it, to a new parent
+
+export const PATCH_OPERATIONS: PatchOperation['op'][] = ['addNode', 'removeNode', 'updateNode', 'addEdge', 'removeEdge', 'moveSubtree'];
+
+/**
+ * Applies patch operations in order to a copy of the graph, as one transaction: the first
+ * operation that can't be applied (unknown id, clashing id, cycle, ...) throws and nothing
+ * is changed. Adding an edge that already exists is not an error.
+ */
+export const applyPatch = (graph: GeneratedResponse, operations: unknown[]): GeneratedResponse => {
+  const nodes = new Map<string, GeneratedNode>(graph.nodes.map(n => [n.id, { ...n }]));
+  let edges = graph.edges.map(e => ({ ...e }));
+
+  const text = (value: unknown) => typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+  const hasEdge = (source: string, target: string) => edges.some(e => e.source === source && e.target === target);
+
+  operations.forEach((raw, index) => {
+    const op: Record<string, unknown> = raw && typeof raw === 'object' ? raw as Record<string, unknown> : {};
+    const fail = (reason: string): never => {
+      throw new Error(`Operation ${index + 1} (${text(op.op) ?? 'unknown'}): ${reason}`);
+    };
+    // Columns are checked in depth by validateGraph; here they only need to be named objects
+    const columns = (): ErdColumn[] | undefined => {
+      if (op.columns === undefined) return undefined;
+      const valid = Array.isArray(op.columns) && op.columns.every(c => c && typeof c === 'object' && text((c as Record<string, unknown>).name));
+      return valid ? op.columns as ErdColumn[] : fail("'columns' must be a list of named columns.");
+    };
+    const cardinality = (): Cardinality | undefined => {
+      if (op.cardinality === undefined) return undefined;
+      return CARDINALITIES.includes(op.cardinality as Cardinality) ? op.cardinality as Cardinality : fail(`unknown cardinality "${String(op.cardinality)}".`);
+    };
+    const existing = (field: string) => {
+      const id = text(op[field]);
+      if (!id) return fail(`'${field}' is missing.`);
+      if (!nodes.has(id)) return fail(`node "${id}" doesn't exist.`);
+      return id;
+    };
+
+    switch (text(op.op) as PatchOperation['op'] | undefined) {
+      case 'addNode': {
+        const id = text(op.id);
+        const label = text(op.label);
+        if (!id || !label) return fail("'id' and 'label' are required.");
+        if (nodes.has(id)) return fail(`id "${id}" is already used.`);
+        const parent = op.parent !== undefined ? existing('parent') : undefined;
+        const nodeColumns = columns();
+        nodes.set(id, {
+          id,
+          label,
+          ...(text(op.details) ? { details: text(op.details) } : {}),
+          ...(text(op.type) ? { type: text(op.type) } : {}),
+          ...(nodeColumns ? { columns: nodeColumns } : {})
+        });
+        if (parent) edges.push({ source: parent, target: id });
+        return;
+      }
+      case 'removeNode': {
+        const id = existing('id');
+        nodes.delete(id);
+        edges = edges.filter(e => e.source !== id && e.target !== id);
+        return;
+      }
+      case 'updateNode': {
+        const id = existing('id');
+        const label = text(op.label);
+        const details = typeof op.details === 'string' ? op.details : undefined;
+        const nodeColumns = columns();
+        if (!label && details === undefined && !nodeColumns) return fail("nothing to update.");
+        const node = nodes.get(id)!;
+        nodes.set(id, { ...node, ...(label ? { label } : {}), ...(details !== undefined ? { details } : {}), ...(nodeColumns ? { columns: nodeColumns } : {}) });
+        return;
+      }
+      case 'addEdge': {
+        const source = existing('source');
+        const target = existing('target');
+        if (source === target) return fail("an edge can't connect a node to itself.");
+        const edgeCardinality = cardinality();
+        if (!hasEdge(source, target)) {
+          edges.push({ source, target, ...(text(op.label) ? { label: text(op.label) } : {}), ...(edgeCardinality ? { cardinality: edgeCardinality } : {}) });
+        }
+        return;
+      }
+      case 'removeEdge': {
+        const source = existing('source');
+        const target = existing('target');
+        if (!hasEdge(source, target)) return fail(`there is no edge from "${source}" to "${target}".`);
+        edges = edges.filter(e => !(e.source === source && e.target === target));
+        return;
+      }
+      case 'moveSubtree': {
+        const id = existing('id');
+        const parent = existing('parent');
+        if (getSubtreeIds(edges, id).has(parent)) return fail(`"${parent}" is inside the subtree being moved.`);
+        edges = edges.filter(e => e.target !== id);
+        edges.push({ source: parent, target: id });
+        return;
+      }
+      default:
+        fail(`unknown operation; expected one of ${PATCH_OPERATIONS.join(', ')}.`);
+    }
+  });
+
+  return { nodes: [...nodes.values()], edges };
+};
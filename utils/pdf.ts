@@ -0,0 +1,208 @@
+import { jsPDF } from 'jspdf';
+import { DiagramNode, DiagramType } from '../types';
+import { Scene } from './svg';
+
+export type PdfPageSize = 'a4' | 'letter';
+
+export interface PdfExportOptions {
+  pageSize: PdfPageSize;
+  // 'fit' scales the whole diagram onto one page; 'tile' prints at actual size across as many pages as needed
+  mode: 'fit' | 'tile';
+  titlePage: boolean;
+  detailsAppendix: boolean;
+}
+
+export const PDF_PAGE_SIZES: { id: PdfPageSize; label: string }[] = [
+  { id: 'a4', label: 'A4' },
+  { id: 'letter', label: 'Letter' }
+];
+
+const MARGIN = 36; // pt (half an inch)
+const FOOTER_HEIGHT = 16;
+const ACTUAL_SIZE = 0.75; // pt per CSS pixel (96 dpi)
+
+/**
+ * Draws a scene with jsPDF's path and text operators, so the PDF stays vector.
+ * `scale` maps diagram pixels to points; (offsetX, offsetY) is where the scene origin lands.
+ */
+const drawScene = (doc: jsPDF, scene: Scene, scale: number, offsetX: number, offsetY: number) => {
+  const tx = (x: number) => offsetX + (x - scene.x) * scale;
+  const ty = (y: number) => offsetY + (y - scene.y) * scale;
+
+  scene.items.forEach(item => {
+    if (item.kind === 'text') {
+      doc.setFont(item.mono ? 'courier' : 'helvetica', item.bold ? 'bold' : 'normal');
+      doc.setFontSize(item.fontSize * scale);
+      doc.setTextColor(item.color);
+      const align = item.anchor === 'middle' ? 'center' : item.anchor === 'end' ? 'right' : 'left';
+      doc.text(item.text, tx(item.x), ty(item.y), { align, baseline: 'alphabetic' });
+      return;
+    }
+    if (!item.fill && !item.stroke) return;
+    if (item.fill) doc.setFillColor(item.fill);
+    if (item.stroke) {
+      doc.setDrawColor(item.stroke);
+      doc.setLineWidth((item.strokeWidth ?? 1) * scale);
+      doc.setLineDashPattern(item.dash?.length ? item.dash.map(d => d * scale) : [], 0);
+    }
+    item.commands.forEach(c => {
+      switch (c[0]) {
+        case 'M': doc.moveTo(tx(c[1]), ty(c[2])); break;
+        case 'L': doc.lineTo(tx(c[1]), ty(c[2])); break;
+        case 'C': doc.curveTo(tx(c[1]), ty(c[2]), tx(c[3]), ty(c[4]), tx(c[5]), ty(c[6])); break;
+        case 'Z': doc.close(); break;
+      }
+    });
+    if (item.fill && item.stroke) doc.fillStroke();
+    else if (item.fill) doc.fill();
+    else doc.stroke();
+  });
+  doc.setLineDashPattern([], 0);
+};
+
+const pageBox = (doc: jsPDF) => ({ width: doc.internal.pageSize.getWidth(), height: doc.internal.pageSize.getHeight() });
+
+const footer = (doc: jsPDF, text: string) => {
+  const { width, height } = pageBox(doc);
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(8);
+  doc.setTextColor('#94a3b8');
+  doc.text(text, width - MARGIN, height - MARGIN / 2, { align: 'right' });
+};
+
+const addTitlePage = (doc: jsPDF, title: string, diagramType: DiagramType, nodes: DiagramNode[], edgeCount: number) => {
+  const { width, height } = pageBox(doc);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(26);
+  doc.setTextColor('#1e293b');
+  const titleLines: string[] = doc.splitTextToSize(title, width - MARGIN * 4);
+  const top = height / 2 - (titleLines.length * 32) / 2;
+  doc.text(titleLines, width / 2, top, { align: 'center' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(12);
+  doc.setTextColor('#64748b');
+  const below = top + titleLines.length * 32 + 8;
+  doc.text(diagramType, width / 2, below, { align: 'center' });
+  doc.text(`${nodes.length} nodes, ${edgeCount} connections`, width / 2, below + 18, { align: 'center' });
+  doc.text(new Date().toLocaleDateString(), width / 2, below + 36, { align: 'center' });
+};
+
+const addDetailsAppendix = (doc: jsPDF, nodes: DiagramNode[], format: PdfPageSize) => {
+  const described = nodes.filter(n => n.data.details?.trim());
+  const { width, height } = pageBox(doc);
+  const maxWidth = width - MARGIN * 2;
+  let y = MARGIN;
+
+  const ensureRoom = (needed: number) => {
+    if (y + needed <= height - MARGIN - FOOTER_HEIGHT) return;
+    doc.addPage(format, 'portrait');
+    y = MARGIN;
+  };
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.setTextColor('#1e293b');
+  doc.text('Node details', MARGIN, y + 18);
+  y += 40;
+
+  if (described.length === 0) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(11);
+    doc.setTextColor('#64748b');
+    doc.text('No nodes have details yet.', MARGIN, y);
+    return;
+  }
+
+  described.forEach(node => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    const heading: string[] = doc.splitTextToSize(String(node.data.label), maxWidth);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    const body: string[] = doc.splitTextToSize(node.data.details!.trim(), maxWidth);
+
+    // Keep a heading with at least its first lines
+    ensureRoom(heading.length * 15 + Math.min(body.length, 3) * 13);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(12);
+    doc.setTextColor('#1e293b');
+    heading.forEach(line => {
+      doc.text(line, MARGIN, y);
+      y += 15;
+    });
+
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(10);
+    doc.setTextColor('#475569');
+    body.forEach(line => {
+      ensureRoom(13);
+      doc.text(line, MARGIN, y);
+      y += 13;
+    });
+    y += 12;
+  });
+};
+
+/**
+ * Lays a diagram scene out on A4/Letter pages as vectors: scaled onto one page or tiled at
+ * actual size, optionally preceded by a title page and followed by a node-details appendix.
+ */
+export const buildPdf = (
+  scene: Scene,
+  nodes: DiagramNode[],
+  edgeCount: number,
+  diagramType: DiagramType,
+  title: string,
+  options: PdfExportOptions
+): jsPDF => {
+  const orientation = scene.width >= scene.height ? 'landscape' : 'portrait';
+  const doc = new jsPDF({ orientation, unit: 'pt', format: options.pageSize });
+  const { width, height } = pageBox(doc);
+  const contentWidth = width - MARGIN * 2;
+  const contentHeight = height - MARGIN * 2 - FOOTER_HEIGHT;
+
+  let first = true;
+  const nextPage = () => {
+    if (!first) doc.addPage(options.pageSize, orientation);
+    first = false;
+  };
+
+  if (options.titlePage) {
+    nextPage();
+    addTitlePage(doc, title, diagramType, nodes, edgeCount);
+  }
+
+  if (options.mode === 'fit') {
+    nextPage();
+    const scale = Math.min(contentWidth / scene.width, contentHeight / scene.height, 1.5);
+    const offsetX = MARGIN + (contentWidth - scene.width * scale) / 2;
+    const offsetY = MARGIN + (contentHeight - scene.height * scale) / 2;
+    drawScene(doc, scene, scale, offsetX, offsetY);
+    footer(doc, title);
+  } else {
+    const scale = ACTUAL_SIZE;
+    const columns = Math.max(1, Math.ceil((scene.width * scale) / contentWidth));
+    const rows = Math.max(1, Math.ceil((scene.height * scale) / contentHeight));
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < columns; col++) {
+        nextPage();
+        // Clip to the content box so neighbouring tiles don't bleed into the margins
+        doc.saveGraphicsState();
+        doc.rect(MARGIN, MARGIN, contentWidth, contentHeight, null);
+        doc.clip();
+        doc.discardPath();
+        drawScene(doc, scene, scale, MARGIN - col * contentWidth, MARGIN - row * contentHeight);
+        doc.restoreGraphicsState();
+        footer(doc, columns * rows > 1 ? `${title} (row ${row + 1} of ${rows}, column ${col + 1} of ${columns})` : title);
+      }
+    }
+  }
+
+  if (options.detailsAppendix) {
+    doc.addPage(options.pageSize, 'portrait');
+    addDetailsAppendix(doc, nodes, options.pageSize);
+  }
+
+  return doc;
+};
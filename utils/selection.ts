@@ -0,0 +1,211 @@
+import { DiagramEdge, DiagramNode } from '../types';
+import { GraphChange, GraphDiff } from './diff';
+import { createIdGenerator } from './graph';
+
+export type SelectionAction = 'summarize' | 'merge' | 'regroup' | 'expandLeaves' | 'rewriteLabels';
+
+export const SELECTION_ACTIONS: { id: SelectionAction; label: string; description: string }[] = [
+  { id: 'summarize', label: 'Summarise into one', description: 'Replace the selection with a single node that sums it up' },
+  { id: 'merge', label: 'Merge duplicates', description: 'Combine nodes that say the same thing' },
+  { id: 'regroup', label: 'Regroup', description: 'Sort the selection under new category nodes' },
+  { id: 'expandLeaves', label: 'Expand leaves', description: 'Add one level below every selected leaf' },
+  { id: 'rewriteLabels', label: 'Rewrite labels', description: 'Make labels consistent in style and length' }
+];
+
+// A node as sent to the model: its parent is named so the model knows where it sits
+export interface SelectionItem {
+  id: string;
+  label: string;
+  details?: string;
+  parent?: string;
+}
+
+export interface SelectionScope {
+  items: SelectionItem[];
+  anchorId?: string; // Regroup: the parent the new categories hang off
+}
+
+// Shapes of the model's responses, per action
+export interface SelectionResponse {
+  label?: string;
+  details?: string;
+  groups?: { ids: string[]; label: string; details?: string }[];
+  categories?: { label: string; details?: string; members: string[] }[];
+  expansions?: { id: string; children: { label: string; details?: string }[] }[];
+  labels?: { id: string; label: string }[];
+}
+
+const edgeKey = (source: string, target: string) => `${source}->${target}`;
+const edgeLabel = (edge: DiagramEdge) => typeof edge.label === 'string' ? edge.label : undefined;
+
+/**
+ * Picks the nodes an action works on: leaves for "expand leaves", the children of the
+ * selection's most common parent for "regroup", and the whole selection otherwise.
+ */
+export const getSelectionScope = (
+  action: SelectionAction,
+  nodes: DiagramNode[],
+  edges: DiagramEdge[],
+  selectedIds: Set<string>
+): SelectionScope => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const parentOf = new Map<string, string>();
+  edges.forEach(e => {
+    if (!parentOf.has(e.target)) parentOf.set(e.target, e.source);
+  });
+  const toItem = (n: DiagramNode): SelectionItem => ({
+    id: n.id,
+    label: String(n.data.label),
+    ...(n.data.details ? { details: n.data.details } : {}),
+    ...(parentOf.has(n.id) ? { parent: String(byId.get(parentOf.get(n.id)!)?.data.label ?? '') } : {})
+  });
+  const selected = nodes.filter(n => selectedIds.has(n.id));
+
+  if (action === 'expandLeaves') {
+    const sources = new Set(edges.map(e => e.source));
+    return { items: selected.filter(n => !sources.has(n.id)).map(toItem) };
+  }
+  if (action === 'regroup') {
+    const counts = new Map<string, number>();
+    selected.forEach(n => {
+      const parent = parentOf.get(n.id);
+      if (parent) counts.set(parent, (counts.get(parent) || 0) + 1);
+    });
+    const anchorId = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0];
+    if (!anchorId) return { items: [] };
+    return { items: selected.filter(n => parentOf.get(n.id) === anchorId).map(toItem), anchorId };
+  }
+  return { items: selected.map(toItem) };
+};
+
+/**
+ * Turns the model's answer into a reviewable diff against the current graph. Ids the model
+ * invents or that fall outside the scope are ignored, with a warning. Changes that only work
+ * together (a summary, a merge, a category, an added child) share a group.
+ */
+export const buildSelectionDiff = (
+  action: SelectionAction,
+  response: SelectionResponse,
+  nodes: DiagramNode[],
+  edges: DiagramEdge[],
+  scope: SelectionScope
+): { diff: GraphDiff; warnings: string[] } => {
+  const changes: GraphChange[] = [];
+  const warnings: string[] = [];
+  const inScope = new Set(scope.items.map(i => i.id));
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const nextId = createIdGenerator(nodes.map(n => n.id));
+  const existingEdges = new Set(edges.map(e => edgeKey(e.source, e.target)));
+  let ignored = 0;
+  // Set while building changes that depend on each other (a category and its moves, ...)
+  let changeGroup: string | undefined;
+  const push = (change: GraphChange) => changes.push(changeGroup ? { ...change, group: changeGroup } : change);
+
+  const addEdge = (source: string, target: string, label?: string) => {
+    const key = edgeKey(source, target);
+    if (source === target || existingEdges.has(key)) return;
+    existingEdges.add(key);
+    push({ id: `add-edge:${key}`, kind: 'addEdge', source, target, ...(label ? { label } : {}) });
+  };
+  const removeNode = (id: string) => {
+    push({ id: `remove:${id}`, kind: 'removeNode', nodeId: id, label: String(byId.get(id)?.data.label ?? id) });
+  };
+  const updateNode = (id: string, label: string, details?: string) => {
+    const current = byId.get(id)!;
+    const fromLabel = String(current.data.label);
+    const detailsChanged = details !== undefined && details !== current.data.details;
+    if (label === fromLabel && !detailsChanged) return;
+    push({ id: `update:${id}`, kind: 'updateNode', nodeId: id, fromLabel, toLabel: label, ...(detailsChanged ? { details } : {}) });
+  };
+  const validIds = (ids: unknown) => (Array.isArray(ids) ? ids.map(String) : []).filter(id => {
+    if (inScope.has(id)) return true;
+    ignored++;
+    return false;
+  });
+  const isLabel = (label: unknown): label is string => typeof label === 'string' && label.trim() !== '';
+
+  switch (action) {
+    case 'summarize': {
+      if (!isLabel(response.label) || inScope.size === 0) break;
+      const id = nextId('summary');
+      changeGroup = `summarize:${id}`;
+      push({ id: `add:${id}`, kind: 'addNode', node: { id, label: response.label.trim(), ...(response.details ? { details: response.details } : {}) } });
+      // The summary takes over every connection between the selection and the rest of the graph
+      edges.forEach(e => {
+        if (inScope.has(e.target) && !inScope.has(e.source)) addEdge(e.source, id, edgeLabel(e));
+        if (inScope.has(e.source) && !inScope.has(e.target)) addEdge(id, e.target, edgeLabel(e));
+      });
+      inScope.forEach(removeNode);
+      break;
+    }
+    case 'merge': {
+      const used = new Set<string>();
+      (response.groups || []).forEach(group => {
+        const ids = validIds(group.ids).filter(id => !used.has(id));
+        if (ids.length < 2 || !isLabel(group.label)) return;
+        ids.forEach(id => used.add(id));
+        const [keeper, ...duplicates] = ids;
+        changeGroup = `merge:${keeper}`;
+        const members = new Set(ids);
+        updateNode(keeper, group.label.trim(), group.details);
+        duplicates.forEach(removeNode);
+        // Connections of the duplicates move to the node that stays
+        edges.forEach(e => {
+          if (members.has(e.source) && members.has(e.target)) return;
+          if (duplicates.includes(e.source)) addEdge(keeper, e.target, edgeLabel(e));
+          if (duplicates.includes(e.target)) addEdge(e.source, keeper, edgeLabel(e));
+        });
+      });
+      break;
+    }
+    case 'regroup': {
+      const assigned = new Set<string>();
+      (response.categories || []).forEach(category => {
+        const members = validIds(category.members).filter(id => !assigned.has(id));
+        if (members.length === 0 || !isLabel(category.label)) return;
+        const id = nextId('group');
+        changeGroup = `regroup:${id}`;
+        push({ id: `add:${id}`, kind: 'addNode', node: { id, label: category.label.trim(), ...(category.details ? { details: category.details } : {}) } });
+        if (scope.anchorId) addEdge(scope.anchorId, id);
+        members.forEach(member => {
+          assigned.add(member);
+          edges.filter(e => e.source === scope.anchorId && e.target === member).forEach(e => {
+            push({ id: `remove-edge:${e.id}`, kind: 'removeEdge', edgeId: e.id, source: e.source, target: e.target });
+          });
+          addEdge(id, member);
+        });
+      });
+      const unassigned = inScope.size - assigned.size;
+      if (assigned.size > 0 && unassigned > 0) warnings.push(`${unassigned} selected ${unassigned === 1 ? 'node was' : 'nodes were'} not placed in a category and stay where they are.`);
+      break;
+    }
+    case 'expandLeaves': {
+      const expanded = new Set<string>();
+      (response.expansions || []).forEach(expansion => {
+        const [parentId] = validIds([expansion.id]);
+        if (!parentId || expanded.has(parentId)) return;
+        expanded.add(parentId);
+        (Array.isArray(expansion.children) ? expansion.children : []).filter(c => isLabel(c?.label)).forEach(child => {
+          const id = nextId(parentId);
+          changeGroup = `expand:${id}`;
+          push({ id: `add:${id}`, kind: 'addNode', node: { id, label: child.label.trim(), ...(child.details ? { details: child.details } : {}) } });
+          addEdge(parentId, id);
+        });
+      });
+      break;
+    }
+    case 'rewriteLabels': {
+      const rewritten = new Set<string>();
+      (response.labels || []).forEach(entry => {
+        const [id] = validIds([entry.id]);
+        if (!id || rewritten.has(id) || !isLabel(entry.label)) return;
+        rewritten.add(id);
+        updateNode(id, entry.label.trim());
+      });
+      break;
+    }
+  }
+
+  if (ignored) warnings.push(`Ignored ${ignored} ${ignored === 1 ? 'reference' : 'references'} to nodes outside the selection.`);
+  return { diff: { changes }, warnings };
+};
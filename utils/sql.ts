@@ -0,0 +1,372 @@
+import { Cardinality, DiagramEdge, DiagramNode, ErdColumn, GeneratedResponse } from '../types';
+import { getColumns, splitReference } from './erd';
+
+export type SqlDialect = 'postgresql' | 'mysql' | 'sqlite';
+
+export const SQL_DIALECTS: { id: SqlDialect; label: string }[] = [
+  { id: 'postgresql', label: 'PostgreSQL' },
+  { id: 'mysql', label: 'MySQL' },
+  { id: 'sqlite', label: 'SQLite' }
+];
+
+// --- Export ---
+
+const RESERVED_WORDS = new Set([
+  'all', 'and', 'any', 'as', 'asc', 'by', 'case', 'check', 'column', 'constraint', 'default', 'desc',
+  'end', 'foreign', 'from', 'grant', 'group', 'index', 'join', 'key', 'limit', 'natural', 'not', 'null',
+  'or', 'order', 'primary', 'references', 'select', 'table', 'to', 'union', 'user', 'values', 'where'
+]);
+
+const quoteIdentifier = (name: string, dialect: SqlDialect) => {
+  if (/^[a-z_][a-z0-9_]*$/.test(name) && !RESERVED_WORDS.has(name)) return name;
+  return dialect === 'mysql' ? `\`${name.replace(/`/g, '``')}\`` : `"${name.replace(/"/g, '""')}"`;
+};
+
+// Entity labels like "Order Items" become order_items
+const toTableName = (label: string) =>
+  label.trim().replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '') || 'entity';
+
+// Canonical type -> [PostgreSQL, MySQL, SQLite]; '%' is replaced by the type's arguments
+const TYPE_MAP: { match: RegExp; types: [string, string, string] }[] = [
+  { match: /^(BIGSERIAL|SERIAL8)$/, types: ['BIGSERIAL', 'BIGINT', 'INTEGER'] },
+  { match: /^(SERIAL|SERIAL4)$/, types: ['SERIAL', 'INT', 'INTEGER'] },
+  { match: /^(BIGINT|INT8)$/, types: ['BIGINT', 'BIGINT', 'INTEGER'] },
+  { match: /^(SMALLINT|INT2|TINYINT)$/, types: ['SMALLINT', 'SMALLINT', 'INTEGER'] },
+  { match: /^(INT|INTEGER|INT4|MEDIUMINT|NUMBER)$/, types: ['INTEGER', 'INT', 'INTEGER'] },
+  { match: /^(VARCHAR|CHARACTER VARYING|NVARCHAR|VARCHAR2|STRING)$/, types: ['VARCHAR%', 'VARCHAR%', 'TEXT'] },
+  { match: /^(CHAR|CHARACTER|NCHAR)$/, types: ['CHAR%', 'CHAR%', 'TEXT'] },
+  { match: /^(TEXT|CLOB|TINYTEXT|MEDIUMTEXT|LONGTEXT)$/, types: ['TEXT', 'TEXT', 'TEXT'] },
+  { match: /^(BOOLEAN|BOOL)$/, types: ['BOOLEAN', 'TINYINT(1)', 'INTEGER'] },
+  { match: /^(TIMESTAMPTZ|TIMESTAMP WITH TIME ZONE)$/, types: ['TIMESTAMPTZ', 'DATETIME', 'TEXT'] },
+  { match: /^(TIMESTAMP|DATETIME|TIMESTAMP WITHOUT TIME ZONE)$/, types: ['TIMESTAMP', 'DATETIME', 'TEXT'] },
+  { match: /^DATE$/, types: ['DATE', 'DATE', 'TEXT'] },
+  { match: /^TIME$/, types: ['TIME', 'TIME', 'TEXT'] },
+  { match: /^(DECIMAL|NUMERIC|MONEY)$/, types: ['NUMERIC%', 'DECIMAL%', 'NUMERIC'] },
+  { match: /^(FLOAT|DOUBLE|DOUBLE PRECISION|REAL|FLOAT8|FLOAT4)$/, types: ['DOUBLE PRECISION', 'DOUBLE', 'REAL'] },
+  { match: /^UUID$/, types: ['UUID', 'CHAR(36)', 'TEXT'] },
+  { match: /^(JSON|JSONB)$/, types: ['JSONB', 'JSON', 'TEXT'] },
+  { match: /^(BLOB|BYTEA|BINARY|VARBINARY|LONGBLOB)$/, types: ['BYTEA', 'BLOB', 'BLOB'] },
+  { match: /^ENUM$/, types: ['TEXT', 'ENUM%', 'TEXT'] }
+];
+
+const DIALECT_INDEX: Record<SqlDialect, number> = { postgresql: 0, mysql: 1, sqlite: 2 };
+
+/**
+ * Translates a free-form column type into the dialect. Modifiers that were written into the
+ * type (NOT NULL, UNIQUE) are returned as flags, as is SERIAL, which only PostgreSQL has as a
+ * type; anything unrecognised is kept verbatim.
+ */
+const mapType = (column: ErdColumn, dialect: SqlDialect) => {
+  let raw = (column.type || '').trim();
+  const notNull = /\bNOT\s+NULL\b/i.test(raw);
+  const unique = /\bUNIQUE\b/i.test(raw);
+  raw = raw.replace(/\bNOT\s+NULL\b|\bNULL\b|\bUNIQUE\b|\bPRIMARY\s+KEY\b/gi, '').trim();
+
+  if (!raw) {
+    const isKey = column.pk || column.fk !== undefined;
+    raw = isKey ? 'INTEGER' : dialect === 'mysql' ? 'VARCHAR(255)' : 'TEXT';
+  }
+
+  const match = raw.match(/^([A-Za-z ]+?)\s*(\(.*\))?$/);
+  if (!match) return { type: raw, notNull, unique, serial: false };
+  const base = match[1].toUpperCase().replace(/\s+/g, ' ');
+  const args = match[2] || '';
+  const serial = /^(BIG)?SERIAL[48]?$/.test(base);
+  const entry = TYPE_MAP.find(t => t.match.test(base));
+  if (!entry) return { type: raw, notNull, unique, serial };
+
+  let type = entry.types[DIALECT_INDEX[dialect]];
+  if (type.includes('%')) {
+    // MySQL requires a VARCHAR length
+    const fallback = dialect === 'mysql' && base.includes('VAR') ? '(255)' : '';
+    type = type.replace('%', args || fallback);
+  }
+  return { type, notNull, unique, serial };
+};
+
+interface TableDef {
+  node: DiagramNode;
+  name: string;
+  columns: ErdColumn[];
+}
+
+/**
+ * CREATE TABLE script for an ERD. Entities become tables (labels snake_cased), typed
+ * columns carry NOT NULL, UNIQUE, auto-increment, primary and foreign keys; tables are ordered so referenced
+ * tables come first, and references that can't be ordered (cycles) become ALTER TABLE
+ * statements (inline for SQLite, which doesn't support adding constraints later).
+ * Relationships without a matching foreign key are listed as comments.
+ */
+export const exportDDL = (nodes: DiagramNode[], edges: DiagramEdge[], dialect: SqlDialect, title?: string): string => {
+  const q = (name: string) => quoteIdentifier(name, dialect);
+  const tables: TableDef[] = nodes.map(node => {
+    const columns = getColumns(node.data);
+    return {
+      node,
+      name: toTableName(String(node.data.label)),
+      columns: columns.length > 0 ? columns : [{ name: 'id', type: 'INTEGER', pk: true, nullable: false }]
+    };
+  });
+
+  const findTable = (ref: string) => {
+    const wanted = ref.trim().toLowerCase();
+    return tables.find(t => t.name === toTableName(ref) || String(t.node.data.label).trim().toLowerCase() === wanted);
+  };
+  const primaryKeyOf = (table: TableDef) => table.columns.find(c => c.pk)?.name || 'id';
+
+  // Resolve every foreign key to a concrete table and column
+  const foreignKeys = tables.map(table => table.columns.flatMap(column => {
+    if (!column.fk) return [];
+    const ref = splitReference(column.fk);
+    const target = findTable(ref.table);
+    return target ? [{ column: column.name, target, targetColumn: ref.column || primaryKeyOf(target) }] : [];
+  }));
+
+  // Referenced tables first; whatever is left in a cycle keeps input order
+  const order: number[] = [];
+  const placed = new Set<number>();
+  while (order.length < tables.length) {
+    const next = tables.findIndex((_, i) => !placed.has(i) && foreignKeys[i].every(fk => {
+      const j = tables.indexOf(fk.target);
+      return j === i || placed.has(j);
+    }));
+    const pick = next >= 0 ? next : tables.findIndex((_, i) => !placed.has(i));
+    placed.add(pick);
+    order.push(pick);
+  }
+
+  const lines: string[] = [];
+  if (title) lines.push(`-- ${title}`);
+  lines.push(`-- ${SQL_DIALECTS.find(d => d.id === dialect)!.label} schema`, '');
+
+  const created = new Set<number>();
+  const deferred: string[] = [];
+  order.forEach(i => {
+    const table = tables[i];
+    const keyColumns = table.columns.filter(c => c.pk);
+    // SQLite only auto-increments a column that is the whole primary key, declared inline
+    const inlineKey = dialect === 'sqlite' && keyColumns.length === 1 && mapType(keyColumns[0], dialect).serial ? keyColumns[0] : null;
+    const body: string[] = table.columns.map(column => {
+      if (column === inlineKey) return `  ${q(column.name)} INTEGER PRIMARY KEY AUTOINCREMENT`;
+      const { type, notNull, unique, serial } = mapType(column, dialect);
+      const required = column.pk || column.nullable === false || notNull;
+      const autoIncrement = serial && dialect === 'mysql';
+      // MySQL also needs an AUTO_INCREMENT column to be a key
+      const isUnique = (unique || column.unique || autoIncrement) && !column.pk;
+      return `  ${q(column.name)} ${type}${required ? ' NOT NULL' : ''}${autoIncrement ? ' AUTO_INCREMENT' : ''}${isUnique ? ' UNIQUE' : ''}`;
+    });
+    if (keyColumns.length > 0 && !inlineKey) body.push(`  PRIMARY KEY (${keyColumns.map(c => q(c.name)).join(', ')})`);
+
+    foreignKeys[i].forEach(fk => {
+      const j = tables.indexOf(fk.target);
+      const clause = `FOREIGN KEY (${q(fk.column)}) REFERENCES ${q(fk.target.name)} (${q(fk.targetColumn)})`;
+      if (dialect === 'sqlite' || j === i || created.has(j)) {
+        body.push(`  ${clause}`);
+      } else {
+        deferred.push(`ALTER TABLE ${q(table.name)} ADD ${clause};`);
+      }
+    });
+
+    lines.push(`CREATE TABLE ${q(table.name)} (`, body.join(',\n'), dialect === 'mysql' ? ') ENGINE=InnoDB;' : ');', '');
+    created.add(i);
+  });
+
+  if (deferred.length > 0) lines.push(...deferred, '');
+
+  // Relationships drawn on the diagram but not backed by a foreign key column
+  const tableOf = new Map(tables.map(t => [t.node.id, t]));
+  const isBacked = (a: TableDef, b: TableDef) =>
+    foreignKeys[tables.indexOf(a)].some(fk => fk.target === b) || foreignKeys[tables.indexOf(b)].some(fk => fk.target === a);
+  const unbacked = edges.flatMap(e => {
+    const a = tableOf.get(e.source);
+    const b = tableOf.get(e.target);
+    if (!a || !b || isBacked(a, b)) return [];
+    const cardinality = e.data?.cardinality ? ` (${e.data.cardinality})` : '';
+    const label = e.label ? ` "${e.label}"` : '';
+    return [`-- ${a.name} -> ${b.name}${cardinality}${label}`];
+  });
+  if (unbacked.length > 0) lines.push('-- Relationships without a foreign key column:', ...unbacked, '');
+
+  return lines.join('\n');
+};
+
+// --- Import ---
+
+const IDENT = String.raw`(?:"[^"]+"|\`[^\`]+\`|\[[^\]]+\]|[\w$]+)`;
+const QUALIFIED = String.raw`${IDENT}(?:\s*\.\s*${IDENT})*`;
+
+// Last part of a possibly schema-qualified, possibly quoted name
+const unquote = (name: string) => {
+  const parts = name.match(new RegExp(IDENT, 'g')) || [name];
+  return parts[parts.length - 1].replace(/^["`[]|["`\]]$/g, '');
+};
+
+const splitNames = (list: string) => list.split(',').map(s => unquote(s.trim())).filter(Boolean);
+
+// MySQL dumps quote with backticks and name the storage engine
+const looksLikeMySql = (sql: string) => /`|\bENGINE\s*=|\bAUTO_INCREMENT\b/i.test(sql);
+
+// Removes -- and block comments (and # comments for MySQL), leaving string literals alone
+const stripComments = (sql: string, dialect: SqlDialect) => {
+  let out = '';
+  for (let i = 0; i < sql.length; i++) {
+    const ch = sql[i];
+    if (ch === "'" || ch === '"' || ch === '`') {
+      const end = sql.indexOf(ch, i + 1);
+      const stop = end < 0 ? sql.length : end + 1;
+      out += sql.slice(i, stop);
+      i = stop - 1;
+    } else if ((ch === '-' && sql[i + 1] === '-') || (ch === '#' && dialect === 'mysql')) {
+      const end = sql.indexOf('\n', i);
+      i = end < 0 ? sql.length : end - 1;
+    } else if (ch === '/' && sql[i + 1] === '*') {
+      const end = sql.indexOf('*/', i + 2);
+      i = end < 0 ? sql.length : end + 1;
+    } else {
+      out += ch;
+    }
+  }
+  return out;
+};
+
+// Splits on a separator outside parentheses and quotes
+const splitTopLevel = (text: string, separator: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let current = '';
+  for (const ch of text) {
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === "'" || ch === '"' || ch === '`') {
+      quote = ch;
+    } else if (ch === '(') {
+      depth++;
+    } else if (ch === ')') {
+      depth--;
+    } else if (ch === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += ch;
+  }
+  parts.push(current);
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+const COLUMN_MODIFIER = /\s(?:NOT\s+NULL|NULL|PRIMARY\s+KEY|REFERENCES|DEFAULT|UNIQUE|CHECK|AUTO_INCREMENT|AUTOINCREMENT|GENERATED|COLLATE|CONSTRAINT|COMMENT|ON\s+UPDATE|IDENTITY|CHARACTER\s+SET)\b/i;
+const REFERENCES = new RegExp(String.raw`REFERENCES\s+(${QUALIFIED})\s*(?:\(\s*(${IDENT})\s*\))?`, 'i');
+const TABLE_FOREIGN_KEY = new RegExp(String.raw`FOREIGN\s+KEY\s*\(([^)]*)\)\s*REFERENCES\s+(${QUALIFIED})\s*(?:\(([^)]*)\))?`, 'i');
+const TABLE_PRIMARY_KEY = /PRIMARY\s+KEY\s*\(([^)]*)\)/i;
+const CREATE_TABLE = new RegExp(String.raw`^CREATE\s+(?:OR\s+REPLACE\s+)?(?:(?:GLOBAL|LOCAL)\s+)?(?:TEMP(?:ORARY)?\s+|UNLOGGED\s+)?TABLE\s+(?:IF\s+NOT\s+EXISTS\s+)?(${QUALIFIED})\s*\(([\s\S]*)\)[^)]*$`, 'i');
+const ALTER_TABLE = new RegExp(String.raw`^ALTER\s+TABLE\s+(?:ONLY\s+)?(?:IF\s+EXISTS\s+)?(${QUALIFIED})\s+ADD\s+(?:CONSTRAINT\s+${IDENT}\s+)?([\s\S]*)$`, 'i');
+
+interface ParsedTable {
+  name: string;
+  columns: ErdColumn[];
+}
+
+const applyTableConstraint = (table: ParsedTable, clause: string) => {
+  const fk = clause.match(TABLE_FOREIGN_KEY);
+  if (fk) {
+    const refColumns = fk[3] ? splitNames(fk[3]) : [];
+    splitNames(fk[1]).forEach((name, idx) => {
+      const column = table.columns.find(c => c.name.toLowerCase() === name.toLowerCase());
+      if (column) column.fk = refColumns[idx] ? `${unquote(fk[2])}.${refColumns[idx]}` : unquote(fk[2]);
+    });
+    return;
+  }
+  const pk = clause.match(TABLE_PRIMARY_KEY);
+  if (pk) {
+    splitNames(pk[1]).forEach(name => {
+      const column = table.columns.find(c => c.name.toLowerCase() === name.toLowerCase());
+      if (column) {
+        column.pk = true;
+        column.nullable = false;
+      }
+    });
+    return;
+  }
+  const unique = clause.match(/^UNIQUE\s*(?:KEY\s+\S+\s*|INDEX\s+\S+\s*)?\(([^)]*)\)/i);
+  if (unique) {
+    const names = splitNames(unique[1]);
+    const column = names.length === 1 && table.columns.find(c => c.name.toLowerCase() === names[0].toLowerCase());
+    if (column) column.unique = true;
+  }
+};
+
+/**
+ * Builds an ERD structure from a DDL script: one entity per CREATE TABLE with typed columns,
+ * and one edge per foreign key (referencing table -> referenced table, 'N:1', or '1:1' when the
+ * key column is unique). Foreign keys added by ALTER TABLE are included. Positions are left to
+ * applyLayout. The dialect, guessed when not given, only decides whether # starts a comment.
+ */
+export const parseDDL = (sql: string, dialect: SqlDialect = looksLikeMySql(sql) ? 'mysql' : 'postgresql'): GeneratedResponse => {
+  const tables = new Map<string, ParsedTable>();
+
+  splitTopLevel(stripComments(sql, dialect), ';').forEach(statement => {
+    const create = statement.match(CREATE_TABLE);
+    if (create) {
+      const table: ParsedTable = { name: unquote(create[1]), columns: [] };
+      const constraints: string[] = [];
+      splitTopLevel(create[2], ',').forEach(item => {
+        if (/^(CONSTRAINT\s|PRIMARY\s+KEY|FOREIGN\s+KEY|UNIQUE\b|KEY\b|INDEX\b|CHECK\b|FULLTEXT\b|SPATIAL\b|EXCLUDE\b|LIKE\b)/i.test(item)) {
+          constraints.push(item.replace(new RegExp(String.raw`^CONSTRAINT\s+${IDENT}\s+`, 'i'), ''));
+          return;
+        }
+        const nameMatch = item.match(new RegExp(`^(${IDENT})\\s*([\\s\\S]*)$`));
+        if (!nameMatch) return;
+        const rest = ` ${nameMatch[2]}`;
+        const modifierAt = rest.search(COLUMN_MODIFIER);
+        const type = (modifierAt >= 0 ? rest.slice(0, modifierAt) : rest).trim();
+        const modifiers = modifierAt >= 0 ? rest.slice(modifierAt) : '';
+
+        const pk = /PRIMARY\s+KEY/i.test(modifiers);
+        const column: ErdColumn = { name: unquote(nameMatch[1]) };
+        if (type) column.type = type;
+        column.nullable = !pk && !/NOT\s+NULL/i.test(modifiers);
+        if (pk) column.pk = true;
+        const ref = modifiers.match(REFERENCES);
+        if (ref) column.fk = ref[2] ? `${unquote(ref[1])}.${unquote(ref[2])}` : unquote(ref[1]);
+        if (/\bUNIQUE\b/i.test(modifiers)) column.unique = true;
+        table.columns.push(column);
+      });
+      constraints.forEach(clause => applyTableConstraint(table, clause));
+      tables.set(table.name.toLowerCase(), table);
+      return;
+    }
+
+    const alter = statement.match(ALTER_TABLE);
+    const table = alter && tables.get(unquote(alter[1]).toLowerCase());
+    if (alter && table) applyTableConstraint(table, alter[2]);
+  });
+
+  if (tables.size === 0) throw new Error("No CREATE TABLE statements found in the SQL file.");
+
+  const nodes = Array.from(tables.values()).map(table => {
+    // Foreign keys without an explicit column point at the referenced table's primary key
+    table.columns.forEach(column => {
+      if (!column.fk || column.fk.includes('.')) return;
+      const target = tables.get(column.fk.toLowerCase());
+      const pk = target?.columns.find(c => c.pk);
+      if (pk) column.fk = `${column.fk}.${pk.name}`;
+    });
+    return { id: table.name, label: table.name, type: 'entity', columns: table.columns };
+  });
+
+  const edges: GeneratedResponse['edges'] = [];
+  tables.forEach(table => {
+    const keyColumns = table.columns.filter(c => c.pk);
+    table.columns.forEach(column => {
+      if (!column.fk) return;
+      const target = tables.get(splitReference(column.fk).table.toLowerCase());
+      if (!target || target === table) return; // Self-references stay on the column
+      const oneToOne = column.unique || (keyColumns.length === 1 && keyColumns[0] === column);
+      const cardinality: Cardinality = oneToOne ? '1:1' : 'N:1';
+      edges.push({ source: table.name, target: target.name, label: column.name, cardinality });
+    });
+  });
+
+  return { nodes, edges };
+};
@@ -0,0 +1,566 @@
+import { Position } from 'reactflow';
+import { DiagramEdge, DiagramNode } from '../types';
+import { FLOWCHART_SHAPE_COLORS, getFlowchartShape, splitPersonLabel } from './graph';
+import { ERD_HEADER_HEIGHT, ERD_ROW_HEIGHT, getNodeSize } from './layout';
+import { getColumns } from './erd';
+
+// --- Scene model ---
+// A flat list of paths and text runs in diagram pixels, drawn by toSvg and by the PDF export alike
+
+export type PathCommand =
+  | ['M', number, number]
+  | ['L', number, number]
+  | ['C', number, number, number, number, number, number]
+  | ['Z'];
+
+export interface ScenePath {
+  kind: 'path';
+  commands: PathCommand[];
+  fill?: string;
+  stroke?: string;
+  strokeWidth?: number;
+  dash?: number[];
+}
+
+export interface SceneText {
+  kind: 'text';
+  x: number;
+  y: number; // Baseline
+  text: string;
+  fontSize: number;
+  bold?: boolean;
+  mono?: boolean;
+  color: string;
+  anchor: 'start' | 'middle' | 'end';
+}
+
+export type SceneItem = ScenePath | SceneText;
+
+export interface Scene {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  items: SceneItem[];
+}
+
+type Rect = { x: number; y: number; width: number; height: number };
+type Point = { x: number; y: number };
+
+const SCENE_PADDING = 40;
+const DEFAULT_TEXT_COLOR = '#1e293b';
+const DEFAULT_EDGE_COLOR = '#b1b1b7'; // React Flow's default edge stroke
+const EDGE_LABEL_SIZE = 11;
+
+// --- Geometry helpers ---
+
+const KAPPA = 0.5523; // Bezier approximation of a quarter circle
+
+const roundedRectPath = ({ x, y, width, height }: Rect, radius: number): PathCommand[] => {
+  const r = Math.min(radius, width / 2, height / 2);
+  if (r <= 0) return [['M', x, y], ['L', x + width, y], ['L', x + width, y + height], ['L', x, y + height], ['Z']];
+  const k = r * KAPPA;
+  return [
+    ['M', x + r, y],
+    ['L', x + width - r, y],
+    ['C', x + width - r + k, y, x + width, y + r - k, x + width, y + r],
+    ['L', x + width, y + height - r],
+    ['C', x + width, y + height - r + k, x + width - r + k, y + height, x + width - r, y + height],
+    ['L', x + r, y + height],
+    ['C', x + r - k, y + height, x, y + height - r + k, x, y + height - r],
+    ['L', x, y + r],
+    ['C', x, y + r - k, x + r - k, y, x + r, y],
+    ['Z']
+  ];
+};
+
+const ellipsePath = (cx: number, cy: number, rx: number, ry: number): PathCommand[] => {
+  const kx = rx * KAPPA;
+  const ky = ry * KAPPA;
+  return [
+    ['M', cx - rx, cy],
+    ['C', cx - rx, cy - ky, cx - kx, cy - ry, cx, cy - ry],
+    ['C', cx + kx, cy - ry, cx + rx, cy - ky, cx + rx, cy],
+    ['C', cx + rx, cy + ky, cx + kx, cy + ry, cx, cy + ry],
+    ['C', cx - kx, cy + ry, cx - rx, cy + ky, cx - rx, cy],
+    ['Z']
+  ];
+};
+
+// Turns "#fff", "#ffffff" or "rgb(a)(...)" into a hex colour; transparent values yield undefined
+const toHexColor = (value: unknown): string | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const color = value.trim().toLowerCase();
+  if (/^#[0-9a-f]{6}$/.test(color)) return color;
+  if (/^#[0-9a-f]{3}$/.test(color)) return '#' + color.slice(1).split('').map(c => c + c).join('');
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+  if (rgb && (rgb[4] === undefined || parseFloat(rgb[4]) > 0)) {
+    return '#' + rgb.slice(1, 4).map(c => Number(c).toString(16).padStart(2, '0')).join('');
+  }
+  return undefined;
+};
+
+const parsePx = (value: unknown, fallback: number) => {
+  const n = typeof value === 'number' ? value : parseFloat(String(value ?? ''));
+  return Number.isFinite(n) ? n : fallback;
+};
+
+// "2px solid #3b82f6" -> width and colour; "none" -> nothing
+const parseBorder = (value: unknown): { width: number; color: string } | undefined => {
+  if (typeof value !== 'string' || /none/.test(value)) return undefined;
+  const width = parseFloat(value);
+  const color = toHexColor(value.match(/#[0-9a-fA-F]{3,6}\b|rgba?\([^)]*\)/)?.[0]);
+  return color ? { width: Number.isFinite(width) ? width : 1, color } : undefined;
+};
+
+/**
+ * Greedy word wrap using an average glyph width (the same kind of estimate getNodeSize
+ * uses), so SVG and PDF output wrap identically without font metrics.
+ */
+export const wrapText = (text: string, maxWidth: number, fontSize: number, maxLines = Infinity): string[] => {
+  const charWidth = fontSize * 0.55;
+  const maxChars = Math.max(4, Math.floor(maxWidth / charWidth));
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      while (word.length > maxChars) {
+        if (line) lines.push(line);
+        lines.push(word.slice(0, maxChars));
+        word = word.slice(maxChars);
+        line = '';
+      }
+      if (!line) line = word;
+      else if ((line + ' ' + word).length <= maxChars) line += ' ' + word;
+      else {
+        lines.push(line);
+        line = word;
+      }
+    });
+    lines.push(line);
+  });
+  if (lines.length <= maxLines) return lines;
+  const kept = lines.slice(0, maxLines);
+  kept[maxLines - 1] = kept[maxLines - 1].slice(0, Math.max(1, maxChars - 1)) + '…';
+  return kept;
+};
+
+// Centred block of wrapped lines
+const centredLines = (lines: string[], cx: number, cy: number, fontSize: number, extra: Partial<SceneText> = {}): SceneText[] => {
+  const lineHeight = fontSize * 1.3;
+  const top = cy - (lines.length * lineHeight) / 2;
+  return lines.map((text, idx) => ({
+    kind: 'text', x: cx, y: top + idx * lineHeight + fontSize * 0.95, text, fontSize,
+    color: DEFAULT_TEXT_COLOR, anchor: 'middle', ...extra
+  }));
+};
+
+const nodeRect = (node: DiagramNode): Rect => ({
+  x: node.positionAbsolute?.x ?? node.position.x,
+  y: node.positionAbsolute?.y ?? node.position.y,
+  ...getNodeSize(node)
+});
+
+// --- Nodes (mirroring components/nodes) ---
+
+const drawFlowchartNode = (node: DiagramNode, r: Rect): SceneItem[] => {
+  const shape = getFlowchartShape(node.data.type);
+  const { fill, stroke } = FLOWCHART_SHAPE_COLORS[shape];
+  const px = (u: number) => r.x + (u / 100) * r.width;
+  const py = (u: number) => r.y + (u / 100) * r.height;
+  const outline: PathCommand[][] = [];
+  let inset = { x: 14, top: 10, bottom: 10 };
+  switch (shape) {
+    case 'decision':
+      outline.push([['M', px(50), py(1)], ['L', px(99), py(50)], ['L', px(50), py(99)], ['L', px(1), py(50)], ['Z']]);
+      inset = { x: 28, top: 20, bottom: 20 };
+      break;
+    case 'io':
+      outline.push([['M', px(16), py(1)], ['L', px(99), py(1)], ['L', px(84), py(99)], ['L', px(1), py(99)], ['Z']]);
+      inset = { x: 28, top: 10, bottom: 10 };
+      break;
+    case 'document':
+      outline.push([['M', px(1), py(1)], ['L', px(99), py(1)], ['L', px(99), py(84)], ['C', px(75), py(68), px(25), py(100), px(1), py(84)], ['Z']]);
+      inset = { x: 14, top: 10, bottom: 20 };
+      break;
+    case 'database': {
+      const ry = (11 / 100) * r.height;
+      const top = py(12);
+      const bottom = py(88);
+      const rx = r.width * 0.49;
+      const cx = r.x + r.width / 2;
+      const kx = rx * KAPPA;
+      const ky = ry * KAPPA;
+      // Body with the lower half of the bottom ellipse, then the full top ellipse
+      outline.push([
+        ['M', px(1), top], ['L', px(1), bottom],
+        ['C', px(1), bottom + ky, cx - kx, bottom + ry, cx, bottom + ry],
+        ['C', cx + kx, bottom + ry, px(99), bottom + ky, px(99), bottom],
+        ['L', px(99), top], ['Z']
+      ]);
+      outline.push(ellipsePath(cx, top, rx, ry));
+      inset = { x: 14, top: 24, bottom: 16 };
+      break;
+    }
+    default:
+      outline.push(roundedRectPath(r, shape === 'terminator' ? r.height / 2 : 4));
+      if (shape === 'terminator') inset = { x: 22, top: 10, bottom: 10 };
+  }
+  const lines = wrapText(String(node.data.label), r.width - inset.x * 2, 13);
+  return [
+    ...outline.map(commands => ({ kind: 'path', commands, fill, stroke, strokeWidth: 1.5 } as ScenePath)),
+    ...centredLines(lines, r.x + r.width / 2, r.y + inset.top + (r.height - inset.top - inset.bottom) / 2, 13)
+  ];
+};
+
+const drawErdTable = (node: DiagramNode, r: Rect): SceneItem[] => {
+  const columns = getColumns(node.data);
+  const items: SceneItem[] = [
+    { kind: 'path', commands: roundedRectPath(r, 0), fill: '#ffffff', stroke: '#64748b', strokeWidth: 1 },
+    { kind: 'path', commands: roundedRectPath({ ...r, height: ERD_HEADER_HEIGHT }, 0), fill: '#475569' },
+    { kind: 'text', x: r.x + 12, y: r.y + 21, text: String(node.data.label), fontSize: 13, bold: true, color: '#ffffff', anchor: 'start' }
+  ];
+  if (columns.length === 0) {
+    items.push({ kind: 'text', x: r.x + 12, y: r.y + ERD_HEADER_HEIGHT + 17, text: 'No attributes', fontSize: 12, color: '#9ca3af', anchor: 'start' });
+    return items;
+  }
+  columns.forEach((column, idx) => {
+    const top = r.y + ERD_HEADER_HEIGHT + idx * ERD_ROW_HEIGHT;
+    const baseline = top + ERD_ROW_HEIGHT / 2 + 4;
+    if (idx > 0) items.push({ kind: 'path', commands: [['M', r.x, top], ['L', r.x + r.width, top]], stroke: '#f1f5f9', strokeWidth: 1 });
+    if (column.pk || column.fk !== undefined) {
+      items.push({ kind: 'text', x: r.x + 8, y: baseline, text: column.pk ? 'PK' : 'FK', fontSize: 8, bold: true, color: column.pk ? '#f59e0b' : '#3b82f6', anchor: 'start' });
+    }
+    items.push({
+      kind: 'text', x: r.x + 28, y: baseline, text: column.name + (column.nullable ? '?' : ''), fontSize: 12,
+      bold: column.pk, color: column.pk ? '#1e293b' : '#334155', anchor: 'start'
+    });
+    if (column.type) {
+      items.push({ kind: 'text', x: r.x + r.width - 12, y: baseline, text: column.type, fontSize: 11, mono: true, color: '#94a3b8', anchor: 'end' });
+    }
+  });
+  return items;
+};
+
+const drawOrgCard = (node: DiagramNode, r: Rect): SceneItem[] => {
+  const { name, role } = splitPersonLabel(String(node.data.label));
+  const title = name || role;
+  const initials = title.split(/\s+/).filter(Boolean).slice(0, 2).map(word => word[0].toUpperCase()).join('');
+  const cy = r.y + r.height / 2;
+  const textX = r.x + 12 + 36 + 12;
+  const textWidth = r.width - (textX - r.x) - 12;
+  const items: SceneItem[] = [
+    { kind: 'path', commands: roundedRectPath(r, 8), fill: '#ffffff', stroke: '#e2e8f0', strokeWidth: 1 },
+    { kind: 'path', commands: ellipsePath(r.x + 30, cy, 18, 18), fill: '#dbeafe' },
+    { kind: 'text', x: r.x + 30, y: cy + 4, text: initials, fontSize: 12, bold: true, color: '#1d4ed8', anchor: 'middle' },
+    { kind: 'text', x: textX, y: name ? cy - 2 : cy + 5, text: wrapText(title, textWidth, 13, 1)[0], fontSize: 13, bold: true, color: '#1e293b', anchor: 'start' }
+  ];
+  if (name) items.push({ kind: 'text', x: textX, y: cy + 14, text: wrapText(role, textWidth, 12, 1)[0], fontSize: 12, color: '#64748b', anchor: 'start' });
+  return items;
+};
+
+// React Flow's default node, styled through node.style (Mindmap topics, root bubble)
+const drawStyledNode = (node: DiagramNode, r: Rect): SceneItem[] => {
+  const style = (node.style || {}) as Record<string, unknown>;
+  const fill = toHexColor(style.backgroundColor) ?? toHexColor(style.background);
+  const border = parseBorder(style.border);
+  const fontSize = parsePx(style.fontSize, 13);
+  const bold = parsePx(style.fontWeight, 400) >= 600;
+  const paddingX = parsePx(String(style.padding ?? '10px').split(/\s+/)[1] ?? style.padding, 10);
+  const items: SceneItem[] = [];
+  if (fill || border) {
+    items.push({ kind: 'path', commands: roundedRectPath(r, parsePx(style.borderRadius, 0)), fill, stroke: border?.color, strokeWidth: border?.width });
+  }
+  const lines = wrapText(String(node.data.label), r.width - paddingX * 2, fontSize);
+  items.push(...centredLines(lines, r.x + r.width / 2, r.y + r.height / 2, fontSize, { bold, color: toHexColor(style.color) || DEFAULT_TEXT_COLOR }));
+  return items;
+};
+
+const drawNode = (node: DiagramNode, r: Rect): SceneItem[] => {
+  switch (node.type) {
+    case 'flowchart': return drawFlowchartNode(node, r);
+    case 'erdTable': return drawErdTable(node, r);
+    case 'orgCard': return drawOrgCard(node, r);
+    default: return drawStyledNode(node, r);
+  }
+};
+
+// --- Edges (mirroring React Flow's bezier/smoothstep and components/edges) ---
+
+const sidePoint = (r: Rect, side: Position): Point => {
+  switch (side) {
+    case Position.Left: return { x: r.x, y: r.y + r.height / 2 };
+    case Position.Right: return { x: r.x + r.width, y: r.y + r.height / 2 };
+    case Position.Top: return { x: r.x + r.width / 2, y: r.y };
+    case Position.Bottom: return { x: r.x + r.width / 2, y: r.y + r.height };
+  }
+};
+
+const isVertical = (side: Position) => side === Position.Top || side === Position.Bottom;
+
+const nearestSides = (a: Rect, b: Rect): [Position, Position] => {
+  const gapX = Math.max(b.x - (a.x + a.width), a.x - (b.x + b.width));
+  const gapY = Math.max(b.y - (a.y + a.height), a.y - (b.y + b.height));
+  if (gapX >= gapY) {
+    return a.x + a.width / 2 <= b.x + b.width / 2 ? [Position.Right, Position.Left] : [Position.Left, Position.Right];
+  }
+  return a.y + a.height / 2 <= b.y + b.height / 2 ? [Position.Bottom, Position.Top] : [Position.Top, Position.Bottom];
+};
+
+// Row centre of an ERD column handle ("col:<name>"), if the node has that column
+const columnHandleY = (node: DiagramNode, r: Rect, handle?: string | null) => {
+  if (!handle?.startsWith('col:')) return undefined;
+  const idx = getColumns(node.data).findIndex(c => c.name === handle.slice(4));
+  return idx < 0 ? undefined : r.y + ERD_HEADER_HEIGHT + idx * ERD_ROW_HEIGHT + ERD_ROW_HEIGHT / 2;
+};
+
+const edgeEnds = (edge: DiagramEdge, source: DiagramNode, target: DiagramNode, a: Rect, b: Rect) => {
+  if (edge.type !== 'orthogonal') {
+    const sourceSide = source.sourcePosition ?? Position.Bottom;
+    const targetSide = target.targetPosition ?? Position.Top;
+    return { from: { ...sidePoint(a, sourceSide), side: sourceSide }, to: { ...sidePoint(b, targetSide), side: targetSide } };
+  }
+  const sourceRowY = columnHandleY(source, a, edge.sourceHandle);
+  const targetRowY = columnHandleY(target, b, edge.targetHandle);
+  if (sourceRowY !== undefined || targetRowY !== undefined) {
+    const [sourceSide, targetSide] = a.x + a.width / 2 <= b.x + b.width / 2
+      ? [Position.Right, Position.Left]
+      : [Position.Left, Position.Right];
+    return {
+      from: { x: sidePoint(a, sourceSide).x, y: sourceRowY ?? a.y + a.height / 2, side: sourceSide },
+      to: { x: sidePoint(b, targetSide).x, y: targetRowY ?? b.y + b.height / 2, side: targetSide }
+    };
+  }
+  const [sourceSide, targetSide] = nearestSides(a, b);
+  return { from: { ...sidePoint(a, sourceSide), side: sourceSide }, to: { ...sidePoint(b, targetSide), side: targetSide } };
+};
+
+// Same control offsets as React Flow's getBezierPath (curvature 0.25)
+const controlPoint = (p: Point, side: Position, other: Point): Point => {
+  const offset = (distance: number) => distance >= 0 ? 0.5 * distance : 0.25 * 25 * Math.sqrt(-distance);
+  switch (side) {
+    case Position.Left: return { x: p.x - offset(p.x - other.x), y: p.y };
+    case Position.Right: return { x: p.x + offset(other.x - p.x), y: p.y };
+    case Position.Top: return { x: p.x, y: p.y - offset(p.y - other.y) };
+    case Position.Bottom: return { x: p.x, y: p.y + offset(other.y - p.y) };
+  }
+};
+
+// Elbow route between two sides; returns the corner points including both ends
+const orthogonalRoute = (from: Point & { side: Position }, to: Point & { side: Position }): Point[] => {
+  if (isVertical(from.side) && isVertical(to.side)) {
+    const midY = (from.y + to.y) / 2;
+    return [from, { x: from.x, y: midY }, { x: to.x, y: midY }, to];
+  }
+  if (!isVertical(from.side) && !isVertical(to.side)) {
+    const midX = (from.x + to.x) / 2;
+    return [from, { x: midX, y: from.y }, { x: midX, y: to.y }, to];
+  }
+  return isVertical(from.side) ? [from, { x: from.x, y: to.y }, to] : [from, { x: to.x, y: from.y }, to];
+};
+
+// Point halfway along a polyline
+const polylineMidpoint = (points: Point[]): Point => {
+  const lengths = points.slice(1).map((p, i) => Math.hypot(p.x - points[i].x, p.y - points[i].y));
+  let remaining = lengths.reduce((s, l) => s + l, 0) / 2;
+  for (let i = 0; i < lengths.length; i++) {
+    if (remaining <= lengths[i] && lengths[i] > 0) {
+      const t = remaining / lengths[i];
+      return { x: points[i].x + (points[i + 1].x - points[i].x) * t, y: points[i].y + (points[i + 1].y - points[i].y) * t };
+    }
+    remaining -= lengths[i];
+  }
+  return points[0];
+};
+
+const arrowHead = (tip: Point, from: Point, color: string): ScenePath => {
+  const angle = Math.atan2(tip.y - from.y, tip.x - from.x);
+  const length = 10;
+  const half = 3.5;
+  const base = { x: tip.x - Math.cos(angle) * length, y: tip.y - Math.sin(angle) * length };
+  const nx = -Math.sin(angle) * half;
+  const ny = Math.cos(angle) * half;
+  return {
+    kind: 'path',
+    commands: [['M', tip.x, tip.y], ['L', base.x + nx, base.y + ny], ['L', base.x - nx, base.y - ny], ['Z']],
+    fill: color,
+    stroke: color,
+    strokeWidth: 1
+  };
+};
+
+const labelBox = (text: string, at: Point, color: string): SceneItem[] => {
+  const width = text.length * EDGE_LABEL_SIZE * 0.55 + 8;
+  const height = EDGE_LABEL_SIZE + 6;
+  return [
+    { kind: 'path', commands: roundedRectPath({ x: at.x - width / 2, y: at.y - height / 2, width, height }, 3), fill: '#ffffff' },
+    { kind: 'text', x: at.x, y: at.y + EDGE_LABEL_SIZE * 0.35, text, fontSize: EDGE_LABEL_SIZE, color, anchor: 'middle' }
+  ];
+};
+
+const END_LABEL_OFFSET = 14;
+const endLabelPoint = (p: Point, side: Position): Point => {
+  switch (side) {
+    case Position.Left: return { x: p.x - END_LABEL_OFFSET, y: p.y - 9 };
+    case Position.Right: return { x: p.x + END_LABEL_OFFSET, y: p.y - 9 };
+    case Position.Top: return { x: p.x + 9, y: p.y - END_LABEL_OFFSET };
+    case Position.Bottom: return { x: p.x + 9, y: p.y + END_LABEL_OFFSET };
+  }
+};
+
+const drawEdge = (edge: DiagramEdge, source: DiagramNode, target: DiagramNode, a: Rect, b: Rect) => {
+  const style = (edge.style || {}) as Record<string, unknown>;
+  const color = toHexColor(style.stroke) || DEFAULT_EDGE_COLOR;
+  const dash = typeof style.strokeDasharray === 'string' ? style.strokeDasharray.split(/[\s,]+/).map(Number).filter(n => n > 0) : undefined;
+  const { from, to } = edgeEnds(edge, source, target, a, b);
+
+  let commands: PathCommand[];
+  let mid: Point;
+  let beforeTip: Point;
+  if (edge.type === 'default' || edge.type === undefined) {
+    const c1 = controlPoint(from, from.side, to);
+    const c2 = controlPoint(to, to.side, from);
+    commands = [['M', from.x, from.y], ['C', c1.x, c1.y, c2.x, c2.y, to.x, to.y]];
+    mid = {
+      x: 0.125 * from.x + 0.375 * c1.x + 0.375 * c2.x + 0.125 * to.x,
+      y: 0.125 * from.y + 0.375 * c1.y + 0.375 * c2.y + 0.125 * to.y
+    };
+    beforeTip = c2.x === to.x && c2.y === to.y ? from : c2;
+  } else {
+    const points = orthogonalRoute(from, to);
+    commands = points.map((p, idx) => [idx === 0 ? 'M' : 'L', p.x, p.y] as PathCommand);
+    mid = polylineMidpoint(points);
+    beforeTip = points[points.length - 2];
+  }
+
+  const lines: SceneItem[] = [{ kind: 'path', commands, stroke: color, strokeWidth: parsePx(style.strokeWidth, 1), dash }];
+  if (edge.markerEnd) lines.push(arrowHead(to, beforeTip, color));
+
+  const labels: SceneItem[] = [];
+  if (edge.label) labels.push(...labelBox(String(edge.label), mid, '#4b5563'));
+  const [sourceEnd, targetEnd] = edge.data?.cardinality ? edge.data.cardinality.split(':') : [];
+  if (sourceEnd) {
+    [[sourceEnd, endLabelPoint(from, from.side)], [targetEnd, endLabelPoint(to, to.side)]].forEach(([text, at]) => {
+      const p = at as Point;
+      labels.push({ kind: 'text', x: p.x, y: p.y + 4, text: text as string, fontSize: 11, bold: true, color: '#64748b', anchor: 'middle' });
+    });
+  }
+  return { lines, labels };
+};
+
+/**
+ * Builds a vector scene of the whole graph (not just the visible viewport): edges first,
+ * then nodes, then edge labels on top, like the canvas.
+ */
+export const buildScene = (nodes: DiagramNode[], edges: DiagramEdge[]): Scene => {
+  const rects = new Map(nodes.map(n => [n.id, nodeRect(n)]));
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const edgeLines: SceneItem[] = [];
+  const edgeLabels: SceneItem[] = [];
+
+  edges.forEach(edge => {
+    const source = byId.get(edge.source);
+    const target = byId.get(edge.target);
+    if (!source || !target || edge.hidden) return;
+    const { lines, labels } = drawEdge(edge, source, target, rects.get(source.id)!, rects.get(target.id)!);
+    edgeLines.push(...lines);
+    edgeLabels.push(...labels);
+  });
+
+  const nodeItems = nodes.filter(n => !n.hidden).flatMap(n => drawNode(n, rects.get(n.id)!));
+  const items = [...edgeLines, ...nodeItems, ...edgeLabels];
+
+  // Bounds over everything drawn, so curves and labels outside the node boxes are kept
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  const extend = (x: number, y: number) => {
+    minX = Math.min(minX, x); minY = Math.min(minY, y);
+    maxX = Math.max(maxX, x); maxY = Math.max(maxY, y);
+  };
+  items.forEach(item => {
+    if (item.kind === 'text') {
+      extend(item.x, item.y - item.fontSize);
+      extend(item.x, item.y + item.fontSize * 0.3);
+      return;
+    }
+    item.commands.forEach(c => {
+      for (let i = 1; i < c.length; i += 2) extend(c[i] as number, c[i + 1] as number);
+    });
+  });
+  if (!Number.isFinite(minX)) return { x: 0, y: 0, width: SCENE_PADDING * 2, height: SCENE_PADDING * 2, items };
+
+  return {
+    x: minX - SCENE_PADDING,
+    y: minY - SCENE_PADDING,
+    width: maxX - minX + SCENE_PADDING * 2,
+    height: maxY - minY + SCENE_PADDING * 2,
+    items
+  };
+};
+
+// --- SVG ---
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+const toPathData = (commands: PathCommand[]) =>
+  commands.map(([op, ...args]) => op + args.map(round).join(',')).join(' ');
+
+const SANS_FONT = "Inter, Helvetica, Arial, sans-serif";
+const MONO_FONT = "ui-monospace, Menlo, Consolas, monospace";
+
+/**
+ * Serialises a scene to a standalone SVG document in diagram pixels.
+ */
+export const toSvg = (scene: Scene, background = '#ffffff'): string => {
+  const body = scene.items.map(item => {
+    if (item.kind === 'path') {
+      const attrs = [
+        `d="${toPathData(item.commands)}"`,
+        `fill="${item.fill || 'none'}"`,
+        item.stroke ? `stroke="${item.stroke}" stroke-width="${item.strokeWidth ?? 1}" stroke-linejoin="round"` : '',
+        item.dash?.length ? `stroke-dasharray="${item.dash.join(' ')}"` : ''
+      ].filter(Boolean);
+      return `  <path ${attrs.join(' ')}/>`;
+    }
+    const attrs = [
+      `x="${round(item.x)}"`, `y="${round(item.y)}"`,
+      `font-family="${item.mono ? MONO_FONT : SANS_FONT}"`, `font-size="${item.fontSize}"`,
+      item.bold ? 'font-weight="600"' : '',
+      `fill="${item.color}"`,
+      item.anchor !== 'start' ? `text-anchor="${item.anchor}"` : ''
+    ].filter(Boolean);
+    return `  <text ${attrs.join(' ')}>${escapeXml(item.text)}</text>`;
+  }).join('\n');
+
+  const { x, y, width, height } = scene;
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" viewBox="${round(x)} ${round(y)} ${round(width)} ${round(height)}">`,
+    `  <rect x="${round(x)}" y="${round(y)}" width="${round(width)}" height="${round(height)}" fill="${background}"/>`,
+    body,
+    '</svg>',
+    ''
+  ].join('\n');
+};
+
+/**
+ * Rasterises an SVG document at `pixelRatio`, capped so very large diagrams stay within canvas limits.
+ */
+export const svgToPng = (svg: string, width: number, height: number, pixelRatio = 2): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const MAX_CANVAS_SIDE = 8192;
+    const ratio = Math.min(pixelRatio, MAX_CANVAS_SIDE / width, MAX_CANVAS_SIDE / height);
+    const image = new Image();
+    image.onload = () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.ceil(width * ratio);
+      canvas.height = Math.ceil(height * ratio);
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return reject(new Error("Canvas is not available."));
+      ctx.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/png'));
+    };
+    image.onerror = () => reject(new Error("Could not render the SVG."));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+  });
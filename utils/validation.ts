@@ -0,0 +1,264 @@
+import { DiagramType, ErdColumn, GeneratedNode, GeneratedResponse } from '../types';
+import { CARDINALITIES } from './erd';
+
+export interface ValidationResult {
+  graph: GeneratedResponse;
+  warnings: string[]; // Problems that were repaired
+  fatal: string | null; // Set when the response can't be repaired into a usable graph
+}
+
+type RawEdge = GeneratedResponse['edges'][number];
+
+// Above this share of dangling edges the model has most likely mixed up its ids
+const MAX_DANGLING_RATIO = 0.5;
+
+const isTreeType = (type: DiagramType) => type === DiagramType.MINDMAP || type === DiagramType.ORG_CHART;
+
+const plural = (count: number, word: string, pluralWord = `${word}s`) => `${count} ${count === 1 ? word : pluralWord}`;
+
+/**
+ * Parses model output and runs validateGraph on it; unparseable text is reported as fatal.
+ */
+export const parseAndValidate = (text: string, type: DiagramType): ValidationResult => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { graph: { nodes: [], edges: [] }, warnings: [], fatal: "Response was not valid JSON." };
+  }
+  return validateGraph(raw, type);
+};
+
+/**
+ * Checks an AI graph response for the given DiagramType and repairs what it can:
+ * missing/duplicate ids, dangling and duplicate edges, self-loops, and (for Mindmaps and
+ * Org Charts) multiple parents, cycles and multiple roots. Flowcharts are checked for
+ * reachable start and end nodes.
+ */
+export const validateGraph = (raw: unknown, type: DiagramType): ValidationResult => {
+  const warnings: string[] = [];
+  const data = raw as Partial<GeneratedResponse> | null;
+
+  if (!data || !Array.isArray(data.nodes) || !Array.isArray(data.edges)) {
+    return { graph: { nodes: [], edges: [] }, warnings, fatal: "Response is missing the nodes or edges array." };
+  }
+  if (data.nodes.length === 0) {
+    return { graph: { nodes: [], edges: [] }, warnings, fatal: "Response contains no nodes." };
+  }
+
+  // --- Nodes: ids and labels ---
+  const nodes: GeneratedNode[] = [];
+  const seen = new Map<string, GeneratedNode>();
+  let unnamed = 0;
+  let renamed = 0;
+  let merged = 0;
+  data.nodes.forEach((n, idx) => {
+    if (!n || typeof n !== 'object') return;
+    let id = n.id != null && String(n.id).trim() ? String(n.id) : `auto-${idx + 1}`;
+    const label = typeof n.label === 'string' && n.label.trim() ? n.label : (unnamed++, id);
+
+    const existing = seen.get(id);
+    if (existing) {
+      if (existing.label === label) {
+        merged++;
+        return;
+      }
+      // Same id, different content: keep both under distinct ids
+      let suffix = 2;
+      while (seen.has(`${id}-${suffix}`)) suffix++;
+      id = `${id}-${suffix}`;
+      renamed++;
+    }
+    const node = { ...n, id, label };
+    seen.set(id, node);
+    nodes.push(node);
+  });
+  if (unnamed) warnings.push(`${plural(unnamed, 'node')} had no label and now show their id.`);
+  if (merged) warnings.push(`Merged ${plural(merged, 'duplicate node')}.`);
+  if (renamed) warnings.push(`Renamed ${plural(renamed, 'node')} that reused another node's id.`);
+
+  // --- Edges: dangling, self-loops, duplicates ---
+  const ids = new Set(nodes.map(n => n.id));
+  let edges: RawEdge[] = [];
+  const edgeKeys = new Set<string>();
+  let dangling = 0;
+  let loops = 0;
+  let duplicates = 0;
+  data.edges.forEach(e => {
+    const source = e?.source != null ? String(e.source) : '';
+    const target = e?.target != null ? String(e.target) : '';
+    if (!ids.has(source) || !ids.has(target)) { dangling++; return; }
+    if (source === target) { loops++; return; }
+    const key = `${source}->${target}`;
+    if (edgeKeys.has(key)) { duplicates++; return; }
+    edgeKeys.add(key);
+    edges.push({ ...e, source, target });
+  });
+  if (data.edges.length > 0 && dangling / data.edges.length > MAX_DANGLING_RATIO) {
+    return {
+      graph: { nodes, edges },
+      warnings,
+      fatal: `${dangling} of ${data.edges.length} edges reference node ids that don't exist.`
+    };
+  }
+  if (dangling) warnings.push(`Dropped ${plural(dangling, 'edge')} pointing at missing nodes.`);
+  if (loops) warnings.push(`Dropped ${plural(loops, 'self-loop')}.`);
+  if (duplicates) warnings.push(`Dropped ${plural(duplicates, 'duplicate edge')}.`);
+
+  // --- Type-specific structure ---
+  if (isTreeType(type)) {
+    edges = repairTree(nodes, edges, warnings);
+  } else if (type === DiagramType.FLOWCHART) {
+    checkFlowchart(nodes, edges, warnings);
+  } else if (type === DiagramType.ERD) {
+    repairErd(nodes, edges, warnings);
+  }
+
+  return { graph: { nodes, edges }, warnings, fatal: null };
+};
+
+/**
+ * Validates a graph that is still streaming in, or was cut short. Edges to nodes that
+ * haven't arrived are dropped first, so they aren't reported as model mistakes.
+ */
+export const validatePartialGraph = (partial: GeneratedResponse, type: DiagramType): ValidationResult => {
+  const ids = new Set(partial.nodes.map(n => String(n?.id)));
+  const edges = partial.edges.filter(e => ids.has(String(e?.source)) && ids.has(String(e?.target)));
+  return validateGraph({ nodes: partial.nodes, edges }, type);
+};
+
+/**
+ * Forces a single-rooted tree: keeps the first parent of each node, breaks cycles,
+ * and attaches orphaned sub-trees to the root. The root is moved to nodes[0].
+ */
+const repairTree = (nodes: GeneratedNode[], edges: RawEdge[], warnings: string[]): RawEdge[] => {
+  // One parent per node
+  const parentOf = new Map<string, string>();
+  let extraParents = 0;
+  let kept = edges.filter(e => {
+    if (parentOf.has(e.target)) { extraParents++; return false; }
+    parentOf.set(e.target, e.source);
+    return true;
+  });
+  if (extraParents) warnings.push(`Removed ${plural(extraParents, 'edge')} giving a node a second parent.`);
+
+  // Break cycles: walking up from any node must terminate
+  let cycles = 0;
+  nodes.forEach(n => {
+    const path = new Set<string>([n.id]);
+    let current = parentOf.get(n.id);
+    while (current) {
+      if (path.has(current)) {
+        // current's parent link closes the loop; cut it
+        const cutTarget = current;
+        kept = kept.filter(e => e.target !== cutTarget);
+        parentOf.delete(cutTarget);
+        cycles++;
+        break;
+      }
+      path.add(current);
+      current = parentOf.get(current);
+    }
+  });
+  if (cycles) warnings.push(`Broke ${plural(cycles, 'cycle')} in the hierarchy.`);
+
+  // Pick the root with the largest subtree; everything else hangs off it
+  const children = new Map<string, string[]>();
+  kept.forEach(e => children.set(e.source, [...(children.get(e.source) || []), e.target]));
+  const subtreeSize = (id: string): number =>
+    1 + (children.get(id) || []).reduce((sum, c) => sum + subtreeSize(c), 0);
+
+  const roots = nodes.filter(n => !parentOf.has(n.id));
+  const root = roots.reduce((best, r) => subtreeSize(r.id) > subtreeSize(best.id) ? r : best, roots[0]);
+  const orphans = roots.filter(r => r.id !== root.id);
+  if (orphans.length) {
+    orphans.forEach(o => kept.push({ source: root.id, target: o.id }));
+    warnings.push(`Attached ${plural(orphans.length, 'disconnected branch', 'disconnected branches')} to "${root.label}".`);
+  }
+
+  // Layouts and styling treat nodes[0] as the root
+  const rootIndex = nodes.indexOf(root);
+  if (rootIndex > 0) {
+    nodes.splice(rootIndex, 1);
+    nodes.unshift(root);
+  }
+  return kept;
+};
+
+const hasType = (n: GeneratedNode, word: string) => !!n.type?.toLowerCase().includes(word);
+
+/**
+ * Flowcharts need an entry and an exit, and every step should be reachable from the entry.
+ */
+const checkFlowchart = (nodes: GeneratedNode[], edges: RawEdge[], warnings: string[]) => {
+  const incoming = new Set(edges.map(e => e.target));
+  const outgoing = new Set(edges.map(e => e.source));
+
+  const starts = nodes.filter(n => hasType(n, 'start') || (!incoming.has(n.id) && outgoing.has(n.id)));
+  const ends = nodes.filter(n => hasType(n, 'end') || (incoming.has(n.id) && !outgoing.has(n.id)));
+  if (starts.length === 0) warnings.push("Flowchart has no start node.");
+  if (ends.length === 0) warnings.push("Flowchart has no end node.");
+
+  const adj = new Map<string, string[]>();
+  edges.forEach(e => adj.set(e.source, [...(adj.get(e.source) || []), e.target]));
+  const reached = new Set<string>(starts.map(s => s.id));
+  const queue = [...reached];
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    (adj.get(id) || []).forEach(next => {
+      if (!reached.has(next)) {
+        reached.add(next);
+        queue.push(next);
+      }
+    });
+  }
+
+  const unreachable = nodes.filter(n => !reached.has(n.id));
+  if (starts.length > 0 && unreachable.length > 0) {
+    warnings.push(`${plural(unreachable.length, 'step')} can't be reached from the start: ${unreachable.slice(0, 3).map(n => `"${n.label}"`).join(', ')}${unreachable.length > 3 ? '…' : ''}.`);
+  }
+  if (ends.length > 0 && !ends.some(e => reached.has(e.id))) {
+    warnings.push("No end node is reachable from the start.");
+  }
+};
+
+/**
+ * Keeps only well-formed columns (named, no duplicate names per table) and known cardinalities.
+ */
+const repairErd = (nodes: GeneratedNode[], edges: RawEdge[], warnings: string[]) => {
+  let badColumns = 0;
+  nodes.forEach(n => {
+    if (n.columns === undefined) return;
+    if (!Array.isArray(n.columns)) {
+      delete n.columns;
+      badColumns++;
+      return;
+    }
+    const names = new Set<string>();
+    const columns: ErdColumn[] = [];
+    n.columns.forEach(c => {
+      const name = typeof c?.name === 'string' ? c.name.trim() : '';
+      if (!name || names.has(name.toLowerCase())) { badColumns++; return; }
+      names.add(name.toLowerCase());
+      columns.push({
+        name,
+        ...(typeof c.type === 'string' && c.type.trim() ? { type: c.type.trim() } : {}),
+        ...(typeof c.nullable === 'boolean' ? { nullable: c.nullable } : {}),
+        ...(c.pk ? { pk: true } : {}),
+        ...(c.unique ? { unique: true } : {}),
+        ...(typeof c.fk === 'string' && c.fk.trim() ? { fk: c.fk.trim() } : {})
+      });
+    });
+    n.columns = columns;
+  });
+  if (badColumns) warnings.push(`Dropped ${plural(badColumns, 'unnamed or duplicate column')}.`);
+
+  let badCardinality = 0;
+  edges.forEach(e => {
+    if (e.cardinality !== undefined && !CARDINALITIES.includes(e.cardinality)) {
+      delete e.cardinality;
+      badCardinality++;
+    }
+  });
+  if (badCardinality) warnings.push(`Ignored ${plural(badCardinality, 'unknown relationship cardinality', 'unknown relationship cardinalities')}.`);
+};
@@ -11,7 +11,12 @@ export default defineConfig(({ mode }) => {
     plugins: [react()],
     define: {
       // Safely polyfill process.env.API_KEY. 
-      'process.env.API_KEY': JSON.stringify(apiKey) 
+      'process.env.API_KEY': JSON.stringify(apiKey),
+      // AI provider selection: 'gemini' (default), 'openai' (any OpenAI-compatible server) or 'mock'
+      'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER || ''),
+      'process.env.AI_BASE_URL': JSON.stringify(env.AI_BASE_URL || ''),
+      'process.env.AI_MODEL': JSON.stringify(env.AI_MODEL || ''),
+      'process.env.AI_API_KEY': JSON.stringify(env.AI_API_KEY || '')
     }
   };
 });
\ No newline at end of file